@@ -8,9 +8,20 @@
 import { 
   BaseClient, 
   ClientConfig,
-  Environment, 
+  ClientOptions,
+  EndpointList,
+  EnvironmentName, 
+  ErrorCodeRegistry,
   ApiType, 
-  detectEnvironment 
+  AuthSession,
+  AuthSessionOptions,
+  ClientError,
+  RequestConfig,
+  SessionTokens,
+  TransportResponse,
+  createErrorFromBody,
+  detectEnvironment,
+  isErrorResponse
 } from '@tutenet/client-core';
 import {
   SignUpRequest,
@@ -32,17 +43,28 @@ import {
   ChangePasswordApiResponse,
   DeleteAccountApiResponse,
   GetCurrentUserApiResponse,
+  SignUpApiResponseSchema,
+  SignInApiResponseSchema,
+  RefreshTokenApiResponseSchema,
+  VerifyEmailApiResponseSchema,
+  ResendVerificationApiResponseSchema,
+  ForgotPasswordApiResponseSchema,
+  ResetPasswordApiResponseSchema,
+  ChangePasswordApiResponseSchema,
+  DeleteAccountApiResponseSchema,
+  GetCurrentUserApiResponseSchema,
 } from '../types';
+import { AUTH_ERROR_CODES, AuthError } from '../errors';
 
 /**
  * Auth client configuration
  */
-export interface AuthClientConfig {
+export interface AuthClientConfig extends ClientOptions {
   /** Environment to use (auto-detected if not provided) */
-  environment?: Environment;
+  environment?: EnvironmentName;
   
-  /** Custom base URL (overrides environment detection) */
-  baseUrl?: string;
+  /** Custom base URL, or base URLs in failover order (overrides the environment's endpoints) */
+  baseUrl?: EndpointList;
   
   /** Request timeout in milliseconds */
   timeout?: number;
@@ -56,18 +78,29 @@ export interface AuthClientConfig {
 
 /**
  * Auth Service Client
+ *
+ * Emits lifecycle events on its session: the `tokenProvider` when that is an
+ * AuthSession, otherwise the session last created by createSession.
+ * Successful sign in signs the session in, `EMAIL_NOT_VERIFIED` errors and
+ * unverified sign ups report `emailVerificationRequired`, and deleting the
+ * account signs the session out.
  */
 export class AuthClient extends BaseClient {
+  private createdSession?: AuthSession;
+
   constructor(config: AuthClientConfig = {}) {
     const environment = config.environment || detectEnvironment();
     const apiType = ApiType.EXTERNAL;
+    const { accessToken, baseUrl, ...options } = config;
     
     const clientConfig: ClientConfig = {
+      ...options,
       environment,
+      baseUrl,
       apiType,
       timeout: config.timeout,
       retries: config.retries,
-      authToken: config.accessToken,
+      authToken: accessToken,
     };
     
     super(clientConfig);
@@ -76,85 +109,169 @@ export class AuthClient extends BaseClient {
   /**
    * Sign up a new user
    */
-  async signUp(request: SignUpRequest): Promise<SignUpApiResponse> {
-    return this.post<SignUpApiResponse>('/auth/signup', request);
+  async signUp(request: SignUpRequest, config?: RequestConfig): Promise<SignUpApiResponse> {
+    const response = await this.post<SignUpApiResponse>('/auth/signup', request, { ...config, skipAuth: true, schema: SignUpApiResponseSchema });
+    if (response.success) {
+      if (response.data.user.emailVerified === false) {
+        this.session?.reportEmailVerificationRequired(response.data.user.email);
+      } else {
+        this.session?.signIn(response.data.tokens);
+      }
+    }
+    return response;
   }
 
   /**
    * Sign in an existing user
    */
-  async signIn(request: SignInRequest): Promise<SignInApiResponse> {
-    return this.post<SignInApiResponse>('/auth/signin', request);
+  async signIn(request: SignInRequest, config?: RequestConfig): Promise<SignInApiResponse> {
+    let response: SignInApiResponse;
+    try {
+      response = await this.post<SignInApiResponse>('/auth/signin', request, { ...config, skipAuth: true, schema: SignInApiResponseSchema });
+    } catch (error) {
+      this.checkEmailVerification(error, request.email);
+      throw error;
+    }
+
+    if (response.success) {
+      this.session?.signIn(response.data.tokens);
+    } else {
+      this.checkEmailVerification(response, request.email);
+    }
+    return response;
   }
 
   /**
    * Get current user information
    */
-  async getCurrentUser(): Promise<GetCurrentUserApiResponse> {
-    return this.get<GetCurrentUserApiResponse>('/auth/me');
+  async getCurrentUser(config?: RequestConfig): Promise<GetCurrentUserApiResponse> {
+    return this.get<GetCurrentUserApiResponse>('/auth/me', { ...config, schema: GetCurrentUserApiResponseSchema });
   }
 
   /**
    * Refresh authentication tokens
    */
-  async refreshToken(request: RefreshTokenRequest): Promise<RefreshTokenApiResponse> {
-    return this.post<RefreshTokenApiResponse>('/auth/refresh', request);
+  async refreshToken(request: RefreshTokenRequest, config?: RequestConfig): Promise<RefreshTokenApiResponse> {
+    return this.post<RefreshTokenApiResponse>('/auth/refresh', request, {
+      ...config,
+      skipAuth: true,
+      schema: RefreshTokenApiResponseSchema,
+    });
   }
 
   /**
    * Verify email address
    */
-  async verifyEmail(request: VerifyEmailRequest): Promise<VerifyEmailApiResponse> {
-    return this.post<VerifyEmailApiResponse>('/auth/verify-email', request);
+  async verifyEmail(request: VerifyEmailRequest, config?: RequestConfig): Promise<VerifyEmailApiResponse> {
+    return this.post<VerifyEmailApiResponse>('/auth/verify-email', request, { ...config, skipAuth: true, schema: VerifyEmailApiResponseSchema });
   }
 
   /**
    * Resend verification code
    */
-  async resendVerification(request: ResendVerificationRequest): Promise<ResendVerificationApiResponse> {
-    return this.post<ResendVerificationApiResponse>('/auth/resend-verification', request);
+  async resendVerification(request: ResendVerificationRequest, config?: RequestConfig): Promise<ResendVerificationApiResponse> {
+    return this.post<ResendVerificationApiResponse>('/auth/resend-verification', request, { ...config, skipAuth: true, schema: ResendVerificationApiResponseSchema });
   }
 
   /**
    * Request password reset
    */
-  async forgotPassword(request: ForgotPasswordRequest): Promise<ForgotPasswordApiResponse> {
-    return this.post<ForgotPasswordApiResponse>('/auth/forgot-password', request);
+  async forgotPassword(request: ForgotPasswordRequest, config?: RequestConfig): Promise<ForgotPasswordApiResponse> {
+    return this.post<ForgotPasswordApiResponse>('/auth/forgot-password', request, { ...config, skipAuth: true, schema: ForgotPasswordApiResponseSchema });
   }
 
   /**
    * Reset password with code
    */
-  async resetPassword(request: ResetPasswordRequest): Promise<ResetPasswordApiResponse> {
-    return this.post<ResetPasswordApiResponse>('/auth/reset-password', request);
+  async resetPassword(request: ResetPasswordRequest, config?: RequestConfig): Promise<ResetPasswordApiResponse> {
+    return this.post<ResetPasswordApiResponse>('/auth/reset-password', request, { ...config, skipAuth: true, schema: ResetPasswordApiResponseSchema });
   }
 
   /**
    * Change password (requires authentication)
    */
-  async changePassword(request: ChangePasswordRequest): Promise<ChangePasswordApiResponse> {
-    return this.post<ChangePasswordApiResponse>('/auth/change-password', request);
+  async changePassword(request: ChangePasswordRequest, config?: RequestConfig): Promise<ChangePasswordApiResponse> {
+    return this.post<ChangePasswordApiResponse>('/auth/change-password', request, { ...config, schema: ChangePasswordApiResponseSchema });
   }
 
   /**
    * Delete user account (requires authentication)
    */
-  async deleteAccount(request: DeleteAccountRequest): Promise<DeleteAccountApiResponse> {
-    return this.post<DeleteAccountApiResponse>('/auth/account', request);
+  async deleteAccount(request: DeleteAccountRequest, config?: RequestConfig): Promise<DeleteAccountApiResponse> {
+    const response = await this.post<DeleteAccountApiResponse>('/auth/account', request, { ...config, schema: DeleteAccountApiResponseSchema });
+    if (response.success) {
+      this.session?.reportAccountDeleted();
+    }
+    return response;
+  }
+
+  /**
+   * Create a session that refreshes its tokens through this client
+   *
+   * Pass the session as `tokenProvider` to any service client: on a 401 it
+   * calls refreshToken once, concurrent requests wait for that refresh, and
+   * all of them are replayed with the new access token.
+   *
+   * Unless this client's `tokenProvider` is a session, the new session also
+   * receives this client's lifecycle events (signedIn, accountDeleted, ...).
+   *
+   * @param tokens - Tokens from signIn/signUp (default: restored from `options.store`)
+   * @param options - Session options, e.g. a token store to persist tokens in
+   */
+  createSession(tokens?: SessionTokens, options: Omit<AuthSessionOptions, 'tokens' | 'refresh'> = {}): AuthSession {
+    this.createdSession = new AuthSession({
+      ...options,
+      tokens,
+      refresh: (refreshToken) => this.refreshSession(refreshToken),
+    });
+    return this.createdSession;
   }
 
   /**
-   * Set authentication token for subsequent requests
+   * Exchange a refresh token for new session tokens
+   *
+   * Refresh handler of the sessions created by createSession.
+   *
+   * @throws ClientError mapped from the Auth Service error code when the refresh token is rejected
    */
-  setAccessToken(token: string): void {
-    // Update the axios instance headers directly
-    (this as any).client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+  async refreshSession(refreshToken: string): Promise<SessionTokens> {
+    let received: TransportResponse | undefined;
+    const response = await this.refreshToken({ refreshToken }, {
+      onResponse: (transportResponse) => {
+        received = transportResponse;
+      },
+    });
+    if (!response.success) {
+      // Keep the status so that an outage (5xx, 429) stays retryable instead of expiring the session
+      throw createErrorFromBody(response, received?.status, received?.headers, AUTH_ERROR_CODES);
+    }
+    return response.data;
   }
 
   /**
-   * Clear authentication token
+   * Session that receives this client's lifecycle events
    */
-  clearAccessToken(): void {
-    delete (this as any).client.defaults.headers.common['Authorization'];
+  private get session(): AuthSession | undefined {
+    const tokenProvider = this.config.tokenProvider;
+    return tokenProvider instanceof AuthSession ? tokenProvider : this.createdSession;
   }
-}
\ No newline at end of file
+
+  /**
+   * Report `emailVerificationRequired` for a failed sign in, returned or thrown
+   */
+  private checkEmailVerification(failure: unknown, email: string): void {
+    const code = isErrorResponse(failure)
+      ? failure.error.code
+      : failure instanceof ClientError ? failure.code : undefined;
+    if (code === 'EMAIL_NOT_VERIFIED') {
+      this.session?.reportEmailVerificationRequired(email);
+    }
+  }
+
+  /**
+   * Auth Service error codes, mapped to specific error classes
+   */
+  protected getErrorCodes(): ErrorCodeRegistry<AuthError> {
+    return AUTH_ERROR_CODES;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Auth Service error codes and their error classes
+ *
+ * Each class extends the ClientError for its HTTP status, so existing
+ * `instanceof AuthenticationError` checks keep working, and carries the
+ * backend code as `code`.
+ */
+
+import {
+  AuthenticationError,
+  AuthorizationError,
+  CodedErrorClass,
+  ConflictError,
+  ErrorCodeRegistry,
+  ValidationError,
+} from '@tutenet/client-core';
+
+/**
+ * Email or password is wrong (401)
+ */
+export class InvalidCredentialsError extends AuthenticationError {
+  declare readonly code: 'INVALID_CREDENTIALS';
+
+  constructor(message: string = 'Invalid email or password', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'INVALID_CREDENTIALS');
+  }
+
+  static isInvalidCredentialsError(error: any): error is InvalidCredentialsError {
+    return error instanceof InvalidCredentialsError;
+  }
+}
+
+/**
+ * The account's email must be verified before signing in (403)
+ */
+export class EmailNotVerifiedError extends AuthorizationError {
+  declare readonly code: 'EMAIL_NOT_VERIFIED';
+
+  constructor(message: string = 'Email address is not verified', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'EMAIL_NOT_VERIFIED');
+  }
+
+  static isEmailNotVerifiedError(error: any): error is EmailNotVerifiedError {
+    return error instanceof EmailNotVerifiedError;
+  }
+}
+
+/**
+ * An account with the email already exists (409)
+ */
+export class EmailAlreadyRegisteredError extends ConflictError {
+  declare readonly code: 'EMAIL_ALREADY_EXISTS';
+
+  constructor(message: string = 'An account with this email already exists', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'EMAIL_ALREADY_EXISTS');
+  }
+
+  static isEmailAlreadyRegisteredError(error: any): error is EmailAlreadyRegisteredError {
+    return error instanceof EmailAlreadyRegisteredError;
+  }
+}
+
+/**
+ * The email is already verified (409)
+ */
+export class EmailAlreadyVerifiedError extends ConflictError {
+  declare readonly code: 'EMAIL_ALREADY_VERIFIED';
+
+  constructor(message: string = 'Email address is already verified', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'EMAIL_ALREADY_VERIFIED');
+  }
+
+  static isEmailAlreadyVerifiedError(error: any): error is EmailAlreadyVerifiedError {
+    return error instanceof EmailAlreadyVerifiedError;
+  }
+}
+
+/**
+ * The verification or reset code is wrong (400)
+ */
+export class InvalidVerificationCodeError extends ValidationError {
+  declare readonly code: 'INVALID_VERIFICATION_CODE';
+
+  constructor(message: string = 'Verification code is invalid', details?: Record<string, string>, requestId?: string) {
+    super(message, details, requestId, 'INVALID_VERIFICATION_CODE');
+  }
+
+  static isInvalidVerificationCodeError(error: any): error is InvalidVerificationCodeError {
+    return error instanceof InvalidVerificationCodeError;
+  }
+}
+
+/**
+ * The verification or reset code has expired; request a new one (400)
+ */
+export class VerificationCodeExpiredError extends ValidationError {
+  declare readonly code: 'VERIFICATION_CODE_EXPIRED';
+
+  constructor(message: string = 'Verification code has expired', details?: Record<string, string>, requestId?: string) {
+    super(message, details, requestId, 'VERIFICATION_CODE_EXPIRED');
+  }
+
+  static isVerificationCodeExpiredError(error: any): error is VerificationCodeExpiredError {
+    return error instanceof VerificationCodeExpiredError;
+  }
+}
+
+/**
+ * The new password does not meet the password policy (400)
+ */
+export class InvalidPasswordError extends ValidationError {
+  declare readonly code: 'INVALID_PASSWORD';
+
+  constructor(message: string = 'Password does not meet the password policy', details?: Record<string, string>, requestId?: string) {
+    super(message, details, requestId, 'INVALID_PASSWORD');
+  }
+
+  static isInvalidPasswordError(error: any): error is InvalidPasswordError {
+    return error instanceof InvalidPasswordError;
+  }
+}
+
+/**
+ * Any Auth Service error with a known code
+ */
+export type AuthError =
+  | InvalidCredentialsError
+  | EmailNotVerifiedError
+  | EmailAlreadyRegisteredError
+  | EmailAlreadyVerifiedError
+  | InvalidVerificationCodeError
+  | VerificationCodeExpiredError
+  | InvalidPasswordError;
+
+/**
+ * Known Auth Service error codes
+ */
+export type AuthErrorCode = AuthError['code'];
+
+const AUTH_ERROR_CLASSES: { [C in AuthErrorCode]: CodedErrorClass<Extract<AuthError, { code: C }>> } = {
+  INVALID_CREDENTIALS: InvalidCredentialsError,
+  EMAIL_NOT_VERIFIED: EmailNotVerifiedError,
+  EMAIL_ALREADY_EXISTS: EmailAlreadyRegisteredError,
+  EMAIL_ALREADY_VERIFIED: EmailAlreadyVerifiedError,
+  INVALID_VERIFICATION_CODE: InvalidVerificationCodeError,
+  VERIFICATION_CODE_EXPIRED: VerificationCodeExpiredError,
+  INVALID_PASSWORD: InvalidPasswordError,
+};
+
+/**
+ * Auth Service error codes mapped to their error classes
+ */
+export const AUTH_ERROR_CODES = new ErrorCodeRegistry<AuthError>('auth', AUTH_ERROR_CLASSES);
+
+/**
+ * Whether an error is an Auth Service error with a known code
+ *
+ * @example
+ * ```typescript
+ * if (isAuthError(error)) {
+ *   switch (error.code) {
+ *     case 'EMAIL_NOT_VERIFIED': ...
+ *     case 'INVALID_CREDENTIALS': ...
+ *   }
+ * }
+ * ```
+ */
+export function isAuthError(error: unknown): error is AuthError {
+  return AUTH_ERROR_CODES.isError(error);
+}
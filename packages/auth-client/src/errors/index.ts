@@ -0,0 +1,5 @@
+/**
+ * Auth client errors
+ */
+
+export * from './authErrors';
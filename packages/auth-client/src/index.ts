@@ -9,4 +9,7 @@
 export * from './client';
 
 // Export types
-export * from './types';
\ No newline at end of file
+export * from './types';
+
+// Export errors
+export * from './errors';
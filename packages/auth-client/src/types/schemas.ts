@@ -0,0 +1,57 @@
+/**
+ * Runtime schemas of the Auth API responses
+ *
+ * Checked by AuthClient when `responseValidation` is 'strict' or 'warn'.
+ */
+
+import { MessageApiResponseSchema, apiResponseSchema, schema } from '@tutenet/client-core';
+import type { Schema } from '@tutenet/client-core';
+import type {
+  AuthResponse,
+  AuthTokens,
+  ChangePasswordApiResponse,
+  DeleteAccountApiResponse,
+  ForgotPasswordApiResponse,
+  GetCurrentUserApiResponse,
+  RefreshTokenApiResponse,
+  ResendVerificationApiResponse,
+  ResetPasswordApiResponse,
+  SignInApiResponse,
+  SignUpApiResponse,
+  User,
+  VerifyEmailApiResponse,
+} from './api';
+
+export const UserSchema = schema.object<User>({
+  userId: schema.string(),
+  email: schema.string(),
+  firstName: schema.string(),
+  lastName: schema.string(),
+  subjects: schema.array(schema.string()),
+  languages: schema.array(schema.string()),
+  emailVerified: schema.optional(schema.boolean()),
+  createdAt: schema.string(),
+  updatedAt: schema.string(),
+});
+
+export const AuthTokensSchema = schema.object<AuthTokens>({
+  accessToken: schema.string(),
+  refreshToken: schema.string(),
+  idToken: schema.string(),
+});
+
+export const AuthResponseSchema = schema.object<AuthResponse>({
+  user: UserSchema,
+  tokens: AuthTokensSchema,
+});
+
+export const SignUpApiResponseSchema: Schema<SignUpApiResponse> = apiResponseSchema(AuthResponseSchema);
+export const SignInApiResponseSchema: Schema<SignInApiResponse> = apiResponseSchema(AuthResponseSchema);
+export const RefreshTokenApiResponseSchema: Schema<RefreshTokenApiResponse> = apiResponseSchema(AuthTokensSchema);
+export const VerifyEmailApiResponseSchema: Schema<VerifyEmailApiResponse> = MessageApiResponseSchema;
+export const ResendVerificationApiResponseSchema: Schema<ResendVerificationApiResponse> = MessageApiResponseSchema;
+export const ForgotPasswordApiResponseSchema: Schema<ForgotPasswordApiResponse> = MessageApiResponseSchema;
+export const ResetPasswordApiResponseSchema: Schema<ResetPasswordApiResponse> = MessageApiResponseSchema;
+export const ChangePasswordApiResponseSchema: Schema<ChangePasswordApiResponse> = MessageApiResponseSchema;
+export const DeleteAccountApiResponseSchema: Schema<DeleteAccountApiResponse> = MessageApiResponseSchema;
+export const GetCurrentUserApiResponseSchema: Schema<GetCurrentUserApiResponse> = apiResponseSchema(UserSchema);
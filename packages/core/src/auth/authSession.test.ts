@@ -0,0 +1,228 @@
+import { BaseClient } from '../client/baseClient';
+import { ApiType, ClientConfig } from '../config/environment';
+import { NetworkError } from '../errors/clientErrors';
+import { MemoryTransport } from '../transport/memoryTransport';
+import { AuthSession, SessionTokens } from './authSession';
+
+class TestClient extends BaseClient {
+  constructor(config: Partial<ClientConfig>) {
+    super({ environment: 'development', apiType: ApiType.EXTERNAL, baseUrl: 'https://api.test', retries: 0, ...config });
+  }
+}
+
+const meta = { requestId: 'req-1', timestamp: '2026-01-01T00:00:00.000Z' };
+const NOW = Date.parse(meta.timestamp);
+const MINUTE = 60 * 1000;
+
+/**
+ * Unsigned JWT issued now and expiring after `lifetime` milliseconds
+ */
+function createJwt(lifetime: number, jti = 'access-1'): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const iat = Math.floor(Date.now() / 1000);
+  return `${encode({ alg: 'none' })}.${encode({ jti, iat, exp: iat + lifetime / 1000 })}.`;
+}
+
+/**
+ * Transport accepting only `validToken`, answering 401 otherwise
+ */
+function createTransport(state: { validToken: string }): MemoryTransport {
+  return new MemoryTransport().on('GET', '/library', (request) =>
+    request.headers.Authorization === `Bearer ${state.validToken}`
+      ? { data: { success: true, data: { items: [] }, meta } }
+      : { status: 401, data: { success: false, error: { code: 'TOKEN_EXPIRED', message: 'Token expired' }, meta } }
+  );
+}
+
+describe('AuthSession', () => {
+  describe('refresh on 401', () => {
+    it('refreshes once for concurrent 401s and replays every request', async () => {
+      const state = { validToken: 'access-2' };
+      const transport = createTransport(state);
+      const refresh = jest.fn(async (): Promise<SessionTokens> => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return { accessToken: 'access-2' };
+      });
+      const session = new AuthSession({ tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' }, refresh });
+      const client = new TestClient({ transport, tokenProvider: session });
+
+      const responses = await Promise.all([
+        client.get<any>('/library', { dedupe: false }),
+        client.get<any>('/library', { dedupe: false }),
+        client.get<any>('/library', { dedupe: false }),
+      ]);
+
+      expect(responses.every(response => response.success)).toBe(true);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith('refresh-1');
+      expect(session.getTokens()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-1' });
+      const replayed = transport.requests.filter(request => request.headers.Authorization === 'Bearer access-2');
+      expect(replayed).toHaveLength(3);
+    });
+
+    it('ends the session when the refresh token is rejected', async () => {
+      const transport = createTransport({ validToken: 'never' });
+      const session = new AuthSession({
+        tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' },
+        refresh: async () => {
+          throw new Error('Refresh token revoked');
+        },
+      });
+      const expired = jest.fn();
+      const signedOut = jest.fn();
+      session.on('sessionExpired', expired);
+      session.on('signedOut', signedOut);
+      const client = new TestClient({ transport, tokenProvider: session });
+
+      const response = await client.get<any>('/library');
+
+      expect(response.success).toBe(false);
+      expect(response.error.code).toBe('TOKEN_EXPIRED');
+      expect(session.isAuthenticated()).toBe(false);
+      expect(expired).toHaveBeenCalledWith(expect.objectContaining({ reason: 'Token refresh failed' }));
+      expect(signedOut).toHaveBeenCalledWith({ reason: 'sessionExpired' });
+    });
+
+    it('does not refresh when skipAuthRefresh is set', async () => {
+      const refresh = jest.fn(async () => ({ accessToken: 'access-2' }));
+      const session = new AuthSession({ tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' }, refresh });
+      const client = new TestClient({ transport: createTransport({ validToken: 'access-2' }), tokenProvider: session });
+
+      const response = await client.get<any>('/library', { skipAuthRefresh: true });
+
+      expect(response.success).toBe(false);
+      expect(refresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changes during a refresh', () => {
+    function createDeferredRefresh() {
+      let settle!: { resolve: (tokens: SessionTokens) => void; reject: (error: unknown) => void };
+      const refresh = jest.fn(() => new Promise<SessionTokens>((resolve, reject) => {
+        settle = { resolve, reject };
+      }));
+      return { refresh, settle: () => settle };
+    }
+
+    it('discards the refreshed tokens after a sign out', async () => {
+      const { refresh, settle } = createDeferredRefresh();
+      const session = new AuthSession({ tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' }, refresh });
+      const events: string[] = [];
+      session.onAny(({ type }) => events.push(type));
+
+      const refreshing = session.refreshAccessToken('access-1');
+      session.signOut();
+      settle().resolve({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+
+      await expect(refreshing).resolves.toBeUndefined();
+      expect(session.isAuthenticated()).toBe(false);
+      expect(session.getTokens()).toBeUndefined();
+      expect(events).toEqual(['signedOut']);
+    });
+
+    it('keeps tokens set while the refresh was running', async () => {
+      const { refresh, settle } = createDeferredRefresh();
+      const session = new AuthSession({ tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' }, refresh });
+
+      const refreshing = session.refreshAccessToken('access-1');
+      session.signIn({ accessToken: 'other-access', refreshToken: 'other-refresh' });
+      settle().resolve({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+
+      await expect(refreshing).resolves.toBe('other-access');
+      expect(session.getTokens()).toEqual({ accessToken: 'other-access', refreshToken: 'other-refresh' });
+    });
+
+    it('does not expire a session replaced while the refresh was failing', async () => {
+      const { refresh, settle } = createDeferredRefresh();
+      const session = new AuthSession({ tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' }, refresh });
+      const expired = jest.fn();
+      session.on('sessionExpired', expired);
+
+      const refreshing = session.refreshAccessToken('access-1');
+      session.signIn({ accessToken: 'other-access', refreshToken: 'other-refresh' });
+      settle().reject(new Error('Refresh token revoked'));
+
+      await expect(refreshing).resolves.toBe('other-access');
+      expect(session.isAuthenticated()).toBe(true);
+      expect(expired).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('proactive refresh', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function createSession(lifetime: number, options: { refreshMargin?: number } = {}) {
+      const refresh = jest.fn(async (): Promise<SessionTokens> => ({ accessToken: 'opaque-access-2', refreshToken: 'refresh-2' }));
+      const session = new AuthSession({
+        tokens: { accessToken: createJwt(lifetime), refreshToken: 'refresh-1' },
+        refresh,
+        autoRefresh: true,
+        ...options,
+      });
+      return { session, refresh };
+    }
+
+    it('refreshes the refresh margin before the token expires', async () => {
+      const { session, refresh } = createSession(60 * MINUTE, { refreshMargin: 5 * MINUTE });
+
+      await jest.advanceTimersByTimeAsync(55 * MINUTE - 1);
+      expect(refresh).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith('refresh-1');
+      expect(session.getTokens()).toEqual({ accessToken: 'opaque-access-2', refreshToken: 'refresh-2' });
+    });
+
+    it('refreshes short-lived tokens at half their lifetime', async () => {
+      const { refresh } = createSession(2 * MINUTE);
+
+      await jest.advanceTimersByTimeAsync(MINUTE - 1);
+      expect(refresh).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('follows the server clock when the local clock is behind', async () => {
+      const { session, refresh } = createSession(60 * MINUTE);
+
+      // The server clock is 10 minutes ahead
+      session.observeServerTime(NOW + 10 * MINUTE, NOW, NOW);
+
+      await jest.advanceTimersByTimeAsync(49 * MINUTE - 1);
+      expect(refresh).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries after a transient failure without ending the session', async () => {
+      const { session, refresh } = createSession(2 * MINUTE);
+      refresh.mockRejectedValueOnce(new NetworkError('Network down'));
+
+      await jest.advanceTimersByTimeAsync(MINUTE);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(session.isAuthenticated()).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(refresh).toHaveBeenCalledTimes(2);
+      expect(session.getTokens()?.accessToken).toBe('opaque-access-2');
+    });
+
+    it('stops refreshing once disposed', async () => {
+      const { session, refresh } = createSession(2 * MINUTE);
+
+      session.dispose();
+      await jest.advanceTimersByTimeAsync(2 * MINUTE);
+
+      expect(refresh).not.toHaveBeenCalled();
+    });
+  });
+});
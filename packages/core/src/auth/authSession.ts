@@ -0,0 +1,592 @@
+/**
+ * Authentication session shared by TuteNet service clients
+ */
+
+import { isRetryableError } from '../errors/clientErrors';
+import { ClockSkew } from '../utils/clockSkew';
+import { AnyEvent, EventListener, TypedEventEmitter, Unsubscribe } from '../utils/events';
+import { JwtClaims, decodeJwt, getJwtExpiry } from './jwt';
+import { TokenProvider } from './tokenProvider';
+import type { TokenStore } from './tokenStore';
+
+/** Delay before retrying a proactive refresh that failed transiently */
+const REFRESH_RETRY_DELAY = 30 * 1000;
+
+/** Change in clock skew that moves a scheduled refresh */
+const SKEW_TOLERANCE = 1000;
+
+/** Longest delay setTimeout supports */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Tokens held by a session
+ */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+}
+
+/**
+ * Decoded view of the current session
+ *
+ * Claims are decoded without verifying the token signatures.
+ */
+export interface SessionInfo<TClaims extends JwtClaims = JwtClaims> {
+  /** User ID (`sub` claim) */
+  userId?: string;
+
+  /** Email address (id token, then access token) */
+  email?: string;
+
+  /** When the access token was issued */
+  issuedAt?: Date;
+
+  /** When the access token expires */
+  expiresAt?: Date;
+
+  /** Milliseconds until the access token expires, measured on the server clock */
+  expiresIn?: number;
+
+  /** Whether the access token has expired on the server clock */
+  isExpired: boolean;
+
+  /** Access token claims (empty for opaque tokens) */
+  accessClaims: TClaims;
+
+  /** Id token claims */
+  idClaims?: TClaims;
+}
+
+/**
+ * Exchange a refresh token for new session tokens
+ *
+ * Should throw when the refresh token is rejected.
+ */
+export type RefreshHandler = (refreshToken: string) => Promise<SessionTokens>;
+
+/**
+ * Events emitted by an AuthSession
+ */
+export interface AuthSessionEvents {
+  /** The user signed in (not emitted for tokens restored from the token store) */
+  signedIn: SessionTokens;
+
+  /** The session ended, whether signed out, expired or its account deleted */
+  signedOut: {
+    reason: SignOutReason;
+  };
+
+  /** Tokens were refreshed */
+  tokenRefreshed: SessionTokens;
+
+  /** A token refresh failed; unless recoverable, the session expires next */
+  refreshFailed: {
+    error: unknown;
+
+    /** Transient failure (network, timeout, 5xx): the session is kept */
+    recoverable: boolean;
+  };
+
+  /** The session can no longer be refreshed; the user must sign in again */
+  sessionExpired: {
+    reason: string;
+    error?: unknown;
+  };
+
+  /** Sign in or sign up needs the email address verified first */
+  emailVerificationRequired: {
+    email: string;
+  };
+
+  /** The signed-in user deleted their account; the session is signed out */
+  accountDeleted: {
+    userId?: string;
+  };
+
+  /** The token store failed to load, save or clear tokens */
+  storeError: {
+    operation: 'load' | 'save' | 'clear';
+    error: unknown;
+  };
+}
+
+/**
+ * Any AuthSession event, as a `{ type, payload }` union
+ */
+export type AuthSessionEvent = AnyEvent<AuthSessionEvents>;
+
+/**
+ * Why a session was signed out
+ */
+export type SignOutReason = 'signOut' | 'sessionExpired' | 'accountDeleted';
+
+/**
+ * AuthSession configuration
+ */
+export interface AuthSessionOptions {
+  /** Initial tokens */
+  tokens?: SessionTokens;
+
+  /** Refresh handler (typically AuthClient.refreshToken) */
+  refresh?: RefreshHandler;
+
+  /**
+   * Where tokens are persisted. Without initial tokens, the session is
+   * restored from the store on creation (default: memory only)
+   */
+  store?: TokenStore;
+
+  /** Refresh the access token before it expires, not only after a 401 (default: false) */
+  autoRefresh?: boolean;
+
+  /**
+   * How long before expiry to refresh, in milliseconds; at most half the
+   * token lifetime is used (default: 60000)
+   */
+  refreshMargin?: number;
+}
+
+/**
+ * Token provider that refreshes its access token on demand
+ *
+ * Concurrent refresh requests share a single call to the refresh handler.
+ * When refreshing fails because the refresh token was rejected, the tokens
+ * are cleared and `sessionExpired` is emitted. Transient failures (network,
+ * timeout, 5xx) are rethrown without ending the session.
+ *
+ * With a token store, every change of tokens is saved to it, and requests
+ * made while stored tokens are being restored wait for them.
+ *
+ * With `autoRefresh`, the access token is refreshed `refreshMargin` before
+ * the expiry in its `exp` claim. Expiry is compared with the server clock,
+ * estimated from the `meta.timestamp` of API responses, so a wrong local
+ * clock does not refresh too late.
+ *
+ * Lifecycle events (`signedIn`, `signedOut`, `accountDeleted`, ...) are
+ * emitted by signIn, signOut and the AuthClient the session was created by.
+ * Every subscription returns its unsubscribe function, so it can be handed
+ * to a React effect or a Vue `onUnmounted` as-is.
+ *
+ * @example
+ * ```typescript
+ * const session = authClient.createSession(signIn.data.tokens);
+ * session.on('signedOut', () => redirectToSignIn());
+ *
+ * const library = new LibraryClient({ tokenProvider: session });
+ * const search = new SearchClient({ tokenProvider: session });
+ * ```
+ */
+export class AuthSession implements TokenProvider {
+  private tokens?: SessionTokens;
+  private refreshHandler?: RefreshHandler;
+  private refreshPromise?: Promise<string | undefined>;
+  private readonly store?: TokenStore;
+  private restorePromise?: Promise<SessionTokens | undefined>;
+  private storeWrites: Promise<void> = Promise.resolve();
+  // Incremented on every change so that a late restore never overwrites newer tokens
+  private revision = 0;
+  private readonly autoRefresh: boolean;
+  private readonly refreshMargin: number;
+  private readonly clock = new ClockSkew();
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private scheduledOffset = 0;
+  private disposed = false;
+  private readonly events = new TypedEventEmitter<AuthSessionEvents>();
+
+  constructor(options: AuthSessionOptions = {}) {
+    this.refreshHandler = options.refresh;
+    this.store = options.store;
+    this.autoRefresh = options.autoRefresh ?? false;
+    this.refreshMargin = options.refreshMargin ?? 60 * 1000;
+
+    if (options.tokens) {
+      this.setTokens(options.tokens);
+    } else if (this.store) {
+      this.restore().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Current tokens
+   */
+  getTokens(): SessionTokens | undefined {
+    return this.tokens ? { ...this.tokens } : undefined;
+  }
+
+  /**
+   * Replace the session tokens (e.g. after sign in)
+   */
+  setTokens(tokens: SessionTokens): void {
+    this.revision++;
+    this.tokens = { ...tokens };
+    this.persist();
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Replace the session tokens and emit `signedIn`
+   */
+  signIn(tokens: SessionTokens): void {
+    this.setTokens(tokens);
+    this.events.emit('signedIn', this.getTokens()!);
+  }
+
+  /**
+   * Remove the session tokens and emit `signedOut`, if signed in
+   */
+  signOut(reason: SignOutReason = 'signOut'): void {
+    const signedIn = this.isAuthenticated();
+    this.clear();
+    if (signedIn) {
+      this.events.emit('signedOut', { reason });
+    }
+  }
+
+  /**
+   * Emit `emailVerificationRequired` (called by AuthClient)
+   */
+  reportEmailVerificationRequired(email: string): void {
+    this.events.emit('emailVerificationRequired', { email });
+  }
+
+  /**
+   * Emit `accountDeleted` and sign out (called by AuthClient)
+   */
+  reportAccountDeleted(): void {
+    this.events.emit('accountDeleted', { userId: this.getSessionInfo()?.userId });
+    this.signOut('accountDeleted');
+  }
+
+  /**
+   * Remove the session tokens without emitting events
+   */
+  clear(): void {
+    this.revision++;
+    this.tokens = undefined;
+    this.persist();
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Load the tokens saved in the token store
+   *
+   * Called on creation when the session has a store and no initial tokens.
+   * Tokens set in the meantime take precedence over the stored ones.
+   *
+   * @returns The session tokens once restored
+   */
+  restore(): Promise<SessionTokens | undefined> {
+    const store = this.store;
+    if (!store) {
+      return Promise.resolve(this.getTokens());
+    }
+
+    if (!this.restorePromise) {
+      const revision = this.revision;
+      this.restorePromise = Promise.resolve()
+        .then(() => store.load())
+        .then(
+          (tokens) => {
+            if (tokens && this.revision === revision) {
+              this.tokens = { ...tokens };
+              this.scheduleRefresh();
+            }
+            return this.getTokens();
+          },
+          (error) => {
+            this.events.emit('storeError', { operation: 'load', error });
+            throw error;
+          }
+        )
+        .finally(() => {
+          this.restorePromise = undefined;
+        });
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Resolves once pending token store writes have completed
+   */
+  flush(): Promise<void> {
+    return this.storeWrites;
+  }
+
+  /**
+   * Whether the session holds an access token
+   */
+  isAuthenticated(): boolean {
+    return !!this.tokens?.accessToken;
+  }
+
+  /**
+   * User, claims and expiry decoded from the current tokens
+   *
+   * @example
+   * ```typescript
+   * const info = session.getSessionInfo<{ 'cognito:groups'?: string[] }>();
+   * console.log(info?.email, info?.expiresIn, info?.accessClaims['cognito:groups']);
+   * ```
+   */
+  getSessionInfo<TClaims extends JwtClaims = JwtClaims>(): SessionInfo<TClaims> | undefined {
+    if (!this.tokens) {
+      return undefined;
+    }
+
+    const accessClaims = decodeJwt<TClaims>(this.tokens.accessToken) ?? ({} as TClaims);
+    const idClaims = this.tokens.idToken ? decodeJwt<TClaims>(this.tokens.idToken) : undefined;
+    const expiresAt = toDate(accessClaims.exp);
+    const expiresIn = expiresAt ? expiresAt.getTime() - this.clock.now() : undefined;
+
+    return {
+      userId: accessClaims.sub ?? idClaims?.sub,
+      email: idClaims?.email ?? accessClaims.email,
+      issuedAt: toDate(accessClaims.iat),
+      expiresAt,
+      expiresIn,
+      isExpired: expiresIn !== undefined && expiresIn <= 0,
+      accessClaims,
+      idClaims,
+    };
+  }
+
+  /**
+   * Server clock minus local clock in milliseconds, estimated from API responses
+   */
+  getClockSkew(): number {
+    return this.clock.offset;
+  }
+
+  /**
+   * Set the handler used to refresh tokens
+   */
+  setRefreshHandler(handler: RefreshHandler): void {
+    this.refreshHandler = handler;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Stop refreshing in the background (e.g. when the app shuts down)
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.scheduleRefresh();
+  }
+
+  getAccessToken(): string | undefined | Promise<string | undefined> {
+    if (this.restorePromise) {
+      return this.restorePromise.then(
+        () => this.tokens?.accessToken,
+        () => this.tokens?.accessToken
+      );
+    }
+    return this.tokens?.accessToken;
+  }
+
+  observeServerTime(serverTime: number, sentAt: number, receivedAt: number): void {
+    this.clock.observe(serverTime, sentAt, receivedAt);
+    if (this.refreshTimer && Math.abs(this.clock.offset - this.scheduledOffset) > SKEW_TOLERANCE) {
+      this.scheduleRefresh();
+    }
+  }
+
+  refreshAccessToken(rejectedToken: string | undefined): Promise<string | undefined> {
+    // Another caller already refreshed the token this request was sent with
+    if (this.tokens?.accessToken && this.tokens.accessToken !== rejectedToken) {
+      return Promise.resolve(this.tokens.accessToken);
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Subscribe to a session event
+   */
+  on<K extends keyof AuthSessionEvents>(event: K, listener: EventListener<AuthSessionEvents[K]>): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of a session event only
+   */
+  once<K extends keyof AuthSessionEvents>(event: K, listener: EventListener<AuthSessionEvents[K]>): Unsubscribe {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Subscribe to every session event
+   *
+   * @example
+   * ```typescript
+   * // Forward auth changes from a worker thread
+   * session.onAny(({ type }) => parentPort.postMessage({ auth: type }));
+   * ```
+   */
+  onAny(listener: EventListener<AuthSessionEvent>): Unsubscribe {
+    return this.events.onAny(listener);
+  }
+
+  /**
+   * Unsubscribe from a session event
+   */
+  off<K extends keyof AuthSessionEvents>(event: K, listener: EventListener<AuthSessionEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Call the refresh handler and update the session
+   */
+  private async performRefresh(): Promise<string | undefined> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken || !this.refreshHandler) {
+      this.expire('No refresh token available');
+      return undefined;
+    }
+
+    const revision = this.revision;
+    try {
+      const refreshed = await this.refreshHandler(refreshToken);
+      // Signed out or given new tokens meanwhile: the result belongs to an old session
+      if (this.revision !== revision) {
+        return this.tokens?.accessToken;
+      }
+      this.setTokens({
+        ...this.tokens,
+        ...refreshed,
+        // The refresh endpoint may not rotate the refresh token
+        refreshToken: refreshed.refreshToken || refreshToken,
+      });
+      this.events.emit('tokenRefreshed', this.getTokens()!);
+      return this.tokens!.accessToken;
+    } catch (error) {
+      if (this.revision !== revision) {
+        return this.tokens?.accessToken;
+      }
+      const recoverable = isRetryableError(error);
+      this.events.emit('refreshFailed', { error, recoverable });
+      if (recoverable) {
+        throw error;
+      }
+      this.expire('Token refresh failed', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * End the session
+   */
+  private expire(reason: string, error?: unknown): void {
+    const signedIn = this.isAuthenticated();
+    this.clear();
+    this.events.emit('sessionExpired', { reason, error });
+    if (signedIn) {
+      this.events.emit('signedOut', { reason: 'sessionExpired' });
+    }
+  }
+
+  /**
+   * (Re)start the proactive refresh timer for the current access token
+   *
+   * @param delay - Wait this long instead of until the refresh margin
+   */
+  private scheduleRefresh(delay?: number): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    const accessToken = this.tokens?.accessToken;
+    if (!this.autoRefresh || this.disposed || !accessToken || !this.tokens?.refreshToken || !this.refreshHandler) {
+      return;
+    }
+
+    const refreshAt = this.getRefreshTime(accessToken);
+    if (refreshAt === undefined) {
+      return;
+    }
+
+    this.scheduledOffset = this.clock.offset;
+    const wait = delay ?? Math.max(0, refreshAt - this.clock.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refreshBeforeExpiry(accessToken);
+    }, Math.min(wait, MAX_TIMER_DELAY));
+
+    // Never keep a Node.js process alive just to refresh
+    (this.refreshTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * When to refresh an access token (server clock, epoch milliseconds)
+   */
+  private getRefreshTime(accessToken: string): number | undefined {
+    const expiresAt = getJwtExpiry(accessToken);
+    if (expiresAt === undefined) {
+      return undefined;
+    }
+
+    // Short-lived tokens would otherwise be refreshed as soon as they are issued
+    const issuedAt = toDate(decodeJwt(accessToken)?.iat)?.getTime();
+    const margin = issuedAt === undefined
+      ? this.refreshMargin
+      : Math.min(this.refreshMargin, (expiresAt - issuedAt) / 2);
+    return expiresAt - margin;
+  }
+
+  /**
+   * Scheduled refresh of an access token
+   */
+  private async refreshBeforeExpiry(accessToken: string): Promise<void> {
+    if (this.tokens?.accessToken !== accessToken) {
+      return;
+    }
+
+    // Long timers are capped, and skew may have changed: wait some more if early
+    const refreshAt = this.getRefreshTime(accessToken);
+    if (refreshAt !== undefined && refreshAt - this.clock.now() > SKEW_TOLERANCE) {
+      this.scheduleRefresh();
+      return;
+    }
+
+    try {
+      await this.refreshAccessToken(accessToken);
+    } catch {
+      // Transient failure: the session is kept, try again shortly
+      if (this.tokens?.accessToken === accessToken) {
+        this.scheduleRefresh(REFRESH_RETRY_DELAY);
+      }
+    }
+  }
+
+  /**
+   * Save the current tokens to the store, after any earlier write
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) {
+      return;
+    }
+
+    const tokens = this.getTokens();
+    const operation = tokens ? 'save' : 'clear';
+    this.storeWrites = this.storeWrites
+      .then(() => (tokens ? store.save(tokens) : store.clear()))
+      .catch((error) => {
+        this.events.emit('storeError', { operation, error });
+      });
+  }
+}
+
+/**
+ * Date from a JWT time claim (seconds since epoch)
+ */
+function toDate(seconds: unknown): Date | undefined {
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? new Date(seconds * 1000) : undefined;
+}
@@ -0,0 +1,70 @@
+/**
+ * JWT decoding for session inspection
+ *
+ * Tokens are decoded, not verified: claims read here are for display and
+ * scheduling only, never for authorization decisions.
+ */
+
+/**
+ * Claims of a TuteNet access or id token
+ *
+ * Registered claims are typed; custom claims (e.g. `cognito:groups`) are
+ * available through the index signature.
+ */
+export interface JwtClaims {
+  /** Subject: the user ID */
+  sub?: string;
+
+  /** Email address (id tokens) */
+  email?: string;
+
+  /** Expiry (seconds since epoch) */
+  exp?: number;
+
+  /** Issue time (seconds since epoch) */
+  iat?: number;
+
+  /** Not-before time (seconds since epoch) */
+  nbf?: number;
+
+  /** Issuer */
+  iss?: string;
+
+  /** Audience */
+  aud?: string | string[];
+
+  /** 'access' or 'id' for Cognito tokens */
+  token_use?: string;
+
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ *
+ * @returns The claims, or undefined when the value is not a JWT with a JSON object payload
+ */
+export function decodeJwt<T extends JwtClaims = JwtClaims>(token: string): T | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[1]) {
+    return undefined;
+  }
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const claims = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof claims === 'object' && claims !== null && !Array.isArray(claims) ? claims as T : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expiry of a JWT in epoch milliseconds, or undefined when it has none
+ */
+export function getJwtExpiry(token: string): number | undefined {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : undefined;
+}
@@ -0,0 +1,98 @@
+import { KeyValueStorage } from '../cache/cacheStore';
+import { AesGcmTokenEncryption } from './tokenEncryption';
+import { StorageTokenStore } from './tokenStore';
+
+const TOKENS = { accessToken: 'access-1', refreshToken: 'refresh-1' };
+
+class MapStorage implements KeyValueStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Flip one bit of a byte in a base64 encoded value
+ */
+function tamper(value: string, index: number): string {
+  const bytes = Buffer.from(value, 'base64');
+  bytes[index] ^= 0x01;
+  return bytes.toString('base64');
+}
+
+describe('AesGcmTokenEncryption', () => {
+  const encryption = new AesGcmTokenEncryption('0123456789abcdef0123456789abcdef');
+
+  it('round-trips values', async () => {
+    const ciphertext = await encryption.encrypt('{"accessToken":"access-1"}');
+
+    expect(ciphertext).not.toContain('access-1');
+    await expect(encryption.decrypt(ciphertext)).resolves.toBe('{"accessToken":"access-1"}');
+  });
+
+  it('uses a random IV for each value', async () => {
+    const first = await encryption.encrypt('same value');
+    const second = await encryption.encrypt('same value');
+
+    expect(first).not.toBe(second);
+    await expect(encryption.decrypt(second)).resolves.toBe('same value');
+  });
+
+  it('rejects tampered values', async () => {
+    const ciphertext = await encryption.encrypt('access-1');
+
+    // IV, ciphertext and authentication tag
+    await expect(encryption.decrypt(tamper(ciphertext, 0))).rejects.toThrow();
+    await expect(encryption.decrypt(tamper(ciphertext, 12))).rejects.toThrow();
+    await expect(encryption.decrypt(tamper(ciphertext, Buffer.from(ciphertext, 'base64').length - 1))).rejects.toThrow();
+    await expect(encryption.decrypt(ciphertext.slice(0, 8))).rejects.toThrow('Encrypted value is too short');
+  });
+
+  it('rejects values encrypted with another secret', async () => {
+    const ciphertext = await new AesGcmTokenEncryption('another secret').encrypt('access-1');
+
+    await expect(encryption.decrypt(ciphertext)).rejects.toThrow();
+  });
+
+  it('accepts binary secrets', async () => {
+    const binary = new AesGcmTokenEncryption(new Uint8Array(32).fill(7));
+
+    await expect(binary.decrypt(await binary.encrypt('access-1'))).resolves.toBe('access-1');
+  });
+
+  it('requires a secret', () => {
+    expect(() => new AesGcmTokenEncryption('')).toThrow('AesGcmTokenEncryption requires a non-empty secret');
+  });
+
+  describe('with a token store', () => {
+    it('stores tokens encrypted and loads them back', async () => {
+      const storage = new MapStorage();
+      const store = new StorageTokenStore(storage, { encryption });
+
+      await store.save(TOKENS);
+
+      expect(storage.items.get('tutenet-session')).not.toContain('access-1');
+      await expect(store.load()).resolves.toEqual(TOKENS);
+    });
+
+    it('drops tampered tokens', async () => {
+      const storage = new MapStorage();
+      const store = new StorageTokenStore(storage, { encryption });
+      await store.save(TOKENS);
+
+      storage.items.set('tutenet-session', tamper(storage.items.get('tutenet-session')!, 20));
+
+      await expect(store.load()).resolves.toBeUndefined();
+      expect(storage.items.has('tutenet-session')).toBe(false);
+    });
+  });
+});
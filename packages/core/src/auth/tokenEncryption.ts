@@ -0,0 +1,113 @@
+/**
+ * Encryption of persisted session tokens
+ */
+
+import { WebCrypto, getWebCrypto } from '../utils/webCrypto';
+
+/**
+ * Encrypts values before a token store writes them, and decrypts them on load
+ */
+export interface TokenEncryption {
+  encrypt(plaintext: string): string | Promise<string>;
+
+  /** Should throw when the value was not produced by encrypt with the same key */
+  decrypt(ciphertext: string): string | Promise<string>;
+}
+
+const IV_LENGTH = 12;
+
+/**
+ * AES-256-GCM encryption with a key derived from a secret (SHA-256)
+ *
+ * Uses the Web Crypto API (browsers, workers, Node.js 18+). Values are
+ * base64 encoded, with a random IV per value; tampered values fail to
+ * decrypt. Protects tokens at rest from other readers of the storage, so
+ * the secret must not be stored alongside them.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileTokenStore('.tutenet/session.json', {
+ *   encryption: new AesGcmTokenEncryption(process.env.TOKEN_SECRET!),
+ * });
+ * ```
+ */
+export class AesGcmTokenEncryption implements TokenEncryption {
+  private key?: Promise<unknown>;
+
+  /**
+   * @param secret - High-entropy secret (not a user password: it is not stretched)
+   */
+  constructor(private readonly secret: string | Uint8Array) {
+    if (secret.length === 0) {
+      throw new Error('AesGcmTokenEncryption requires a non-empty secret');
+    }
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    const crypto = requireWebCrypto();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(plaintext)
+    );
+
+    const combined = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(ciphertext), IV_LENGTH);
+    return toBase64(combined);
+  }
+
+  async decrypt(ciphertext: string): Promise<string> {
+    const combined = fromBase64(ciphertext);
+    if (combined.length <= IV_LENGTH) {
+      throw new Error('Encrypted value is too short');
+    }
+
+    const plaintext = await requireWebCrypto().subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, IV_LENGTH) },
+      await this.getKey(),
+      combined.slice(IV_LENGTH)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * AES key derived from the secret on first use
+   */
+  private getKey(): Promise<unknown> {
+    if (!this.key) {
+      const crypto = requireWebCrypto();
+      const secret = typeof this.secret === 'string' ? new TextEncoder().encode(this.secret) : this.secret;
+      this.key = crypto.subtle
+        .digest('SHA-256', secret)
+        .then(digest => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']));
+    }
+    return this.key;
+  }
+}
+
+function requireWebCrypto(): WebCrypto {
+  const crypto = getWebCrypto();
+  if (!crypto) {
+    throw new Error('AesGcmTokenEncryption requires the Web Crypto API');
+  }
+  return crypto;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,35 @@
+/**
+ * Token provider contract shared by all TuteNet service clients
+ */
+
+/**
+ * Source of access tokens for authenticated requests
+ *
+ * Pass the same provider to every client (`ClientOptions.tokenProvider`) so
+ * that they all use, and refresh, one set of credentials.
+ */
+export interface TokenProvider {
+  /**
+   * Current access token, or undefined for anonymous requests
+   */
+  getAccessToken(): string | undefined | Promise<string | undefined>;
+
+  /**
+   * Refresh the access token after the API rejected `rejectedToken` with a 401
+   *
+   * Implementations should share one refresh between concurrent callers and
+   * return the current token without refreshing when it already differs from
+   * `rejectedToken`. Resolves with the new token, or undefined when the
+   * session cannot be refreshed.
+   */
+  refreshAccessToken?(rejectedToken: string | undefined): Promise<string | undefined>;
+
+  /**
+   * Server time reported by an API response (`meta.timestamp`), for clock
+   * skew estimation; all times are epoch milliseconds
+   *
+   * @param sentAt - When the request was sent, on the local clock
+   * @param receivedAt - When the response was received, on the local clock
+   */
+  observeServerTime?(serverTime: number, sentAt: number, receivedAt: number): void;
+}
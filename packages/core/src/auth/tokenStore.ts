@@ -0,0 +1,322 @@
+/**
+ * Persistence of session tokens
+ */
+
+import type { KeyValueStorage } from '../cache/cacheStore';
+import type { SessionTokens } from './authSession';
+import type { TokenEncryption } from './tokenEncryption';
+
+/**
+ * Storage for the tokens of an AuthSession
+ *
+ * Methods may be synchronous or asynchronous so that stores can be backed by
+ * memory, Web Storage, cookies, files or async key-value stores alike.
+ */
+export interface TokenStore {
+  /** Stored tokens, or undefined when none (or unreadable) */
+  load(): SessionTokens | undefined | Promise<SessionTokens | undefined>;
+  save(tokens: SessionTokens): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Options shared by the persistent token stores
+ */
+export interface PersistentTokenStoreOptions {
+  /** Encrypt stored values (default: stored as JSON) */
+  encryption?: TokenEncryption;
+}
+
+/**
+ * Token store keeping tokens in memory only
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens?: SessionTokens;
+
+  constructor(tokens?: SessionTokens) {
+    this.tokens = tokens ? { ...tokens } : undefined;
+  }
+
+  load(): SessionTokens | undefined {
+    return this.tokens ? { ...this.tokens } : undefined;
+  }
+
+  save(tokens: SessionTokens): void {
+    this.tokens = { ...tokens };
+  }
+
+  clear(): void {
+    this.tokens = undefined;
+  }
+}
+
+/**
+ * Key-value token store configuration
+ */
+export interface StorageTokenStoreOptions extends PersistentTokenStoreOptions {
+  /** Storage key (default: 'tutenet-session') */
+  key?: string;
+}
+
+/**
+ * Token store persisted in a key-value storage: localStorage (kept across
+ * restarts), sessionStorage (kept for the tab) or React Native AsyncStorage
+ *
+ * @example
+ * ```typescript
+ * const session = authClient.createSession(undefined, {
+ *   store: new StorageTokenStore(window.localStorage),
+ * });
+ * ```
+ */
+export class StorageTokenStore implements TokenStore {
+  private readonly key: string;
+
+  constructor(private readonly storage: KeyValueStorage, private readonly options: StorageTokenStoreOptions = {}) {
+    this.key = options.key ?? 'tutenet-session';
+  }
+
+  async load(): Promise<SessionTokens | undefined> {
+    const tokens = await parseTokens(await this.storage.getItem(this.key), this.options.encryption);
+    if (!tokens) {
+      await this.clear();
+    }
+    return tokens;
+  }
+
+  async save(tokens: SessionTokens): Promise<void> {
+    await this.storage.setItem(this.key, await serializeTokens(tokens, this.options.encryption));
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.removeItem(this.key);
+  }
+}
+
+/**
+ * Document-like object exposing `document.cookie`
+ */
+export interface CookieDocument {
+  cookie: string;
+}
+
+/**
+ * Cookie token store configuration
+ */
+export interface CookieTokenStoreOptions extends PersistentTokenStoreOptions {
+  /** Cookie name (default: 'tutenet-session') */
+  name?: string;
+
+  /** Cookie path (default: '/') */
+  path?: string;
+
+  /** Cookie domain (default: the current host) */
+  domain?: string;
+
+  /** Lifetime in seconds (default: 30 days) */
+  maxAge?: number;
+
+  /** Send over HTTPS only (default: true) */
+  secure?: boolean;
+
+  /** SameSite attribute (default: 'lax') */
+  sameSite?: 'strict' | 'lax' | 'none';
+
+  /** Document whose cookies are used (default: the global document) */
+  document?: CookieDocument;
+}
+
+/**
+ * Largest cookie value written; longer values are split across cookies
+ */
+const MAX_COOKIE_VALUE = 3800;
+
+/**
+ * Token store persisted in browser cookies
+ *
+ * Values longer than a cookie allows are split across `<name>.0`,
+ * `<name>.1`, ... Cookies written from JavaScript cannot be HttpOnly, so
+ * they are as exposed to scripts as Web Storage.
+ */
+export class CookieTokenStore implements TokenStore {
+  private readonly name: string;
+
+  constructor(private readonly options: CookieTokenStoreOptions = {}) {
+    this.name = options.name ?? 'tutenet-session';
+  }
+
+  async load(): Promise<SessionTokens | undefined> {
+    const cookies = this.readCookies();
+    const chunks: string[] = [];
+    for (let index = 0; cookies.has(this.chunkName(index)); index++) {
+      chunks.push(cookies.get(this.chunkName(index))!);
+    }
+
+    const tokens = await parseTokens(chunks.length ? safeDecode(chunks.join('')) : null, this.options.encryption);
+    if (!tokens) {
+      this.clear();
+    }
+    return tokens;
+  }
+
+  async save(tokens: SessionTokens): Promise<void> {
+    const value = encodeURIComponent(await serializeTokens(tokens, this.options.encryption));
+    this.clear();
+    for (let index = 0; index * MAX_COOKIE_VALUE < value.length; index++) {
+      const chunk = value.slice(index * MAX_COOKIE_VALUE, (index + 1) * MAX_COOKIE_VALUE);
+      this.writeCookie(this.chunkName(index), chunk, this.options.maxAge ?? 30 * 24 * 60 * 60);
+    }
+  }
+
+  clear(): void {
+    const cookies = this.readCookies();
+    for (let index = 0; cookies.has(this.chunkName(index)); index++) {
+      this.writeCookie(this.chunkName(index), '', 0);
+    }
+  }
+
+  private chunkName(index: number): string {
+    return `${this.name}.${index}`;
+  }
+
+  private getDocument(): CookieDocument {
+    const document = this.options.document ?? (globalThis as { document?: CookieDocument }).document;
+    if (!document) {
+      throw new Error('CookieTokenStore requires a document (pass options.document outside browsers)');
+    }
+    return document;
+  }
+
+  /**
+   * Raw (still URI-encoded) cookie values by name
+   */
+  private readCookies(): Map<string, string> {
+    const cookies = new Map<string, string>();
+    this.getDocument().cookie.split(';').forEach(pair => {
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    });
+    return cookies;
+  }
+
+  private writeCookie(name: string, value: string, maxAge: number): void {
+    const { path = '/', domain, secure = true, sameSite = 'lax' } = this.options;
+    const attributes = [
+      `${name}=${value}`,
+      `Path=${path}`,
+      `Max-Age=${maxAge}`,
+      `SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`,
+      ...(domain ? [`Domain=${domain}`] : []),
+      ...(secure ? ['Secure'] : []),
+    ];
+    this.getDocument().cookie = attributes.join('; ');
+  }
+}
+
+/**
+ * Decode a URI component, or null when it is malformed
+ */
+function safeDecode(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token store persisted in a file (Node.js)
+ *
+ * The file is written atomically and readable by its owner only (mode 0600).
+ *
+ * @example
+ * ```typescript
+ * const session = authClient.createSession(undefined, {
+ *   store: new FileTokenStore(path.join(os.homedir(), '.tutenet', 'session.json')),
+ * });
+ * ```
+ */
+export class FileTokenStore implements TokenStore {
+  /**
+   * @param path - File path; missing directories are created on save
+   */
+  constructor(private readonly path: string, private readonly options: PersistentTokenStoreOptions = {}) {}
+
+  async load(): Promise<SessionTokens | undefined> {
+    let raw: string;
+    try {
+      raw = await loadFs().promises.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const tokens = await parseTokens(raw, this.options.encryption);
+    if (!tokens) {
+      await this.clear();
+    }
+    return tokens;
+  }
+
+  async save(tokens: SessionTokens): Promise<void> {
+    const fs = loadFs();
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { dirname } = require('path') as typeof import('path');
+    const temporary = `${this.path}.${process.pid}.tmp`;
+
+    await fs.promises.mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    await fs.promises.writeFile(temporary, await serializeTokens(tokens, this.options.encryption), { mode: 0o600 });
+    await fs.promises.rename(temporary, this.path);
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await loadFs().promises.unlink(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Load Node's fs module, which only exists on Node.js
+ */
+function loadFs(): typeof import('fs') {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('fs');
+  } catch {
+    throw new Error('FileTokenStore requires Node.js');
+  }
+}
+
+/**
+ * Stored representation of session tokens
+ */
+async function serializeTokens(tokens: SessionTokens, encryption?: TokenEncryption): Promise<string> {
+  const json = JSON.stringify(tokens);
+  return encryption ? encryption.encrypt(json) : json;
+}
+
+/**
+ * Session tokens from their stored representation; undefined when missing,
+ * corrupt or not decryptable
+ */
+async function parseTokens(raw: string | null, encryption?: TokenEncryption): Promise<SessionTokens | undefined> {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const tokens = JSON.parse(encryption ? await encryption.decrypt(raw) : raw);
+    return typeof tokens?.accessToken === 'string' ? tokens : undefined;
+  } catch {
+    return undefined;
+  }
+}
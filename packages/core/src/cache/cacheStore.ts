@@ -0,0 +1,209 @@
+/**
+ * Storage backends for the HTTP response cache
+ */
+
+/**
+ * Cached HTTP response
+ */
+export interface CacheEntry {
+  /** Absolute request URL */
+  url: string;
+
+  status: number;
+
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+
+  data: unknown;
+
+  /** When the response was stored or last revalidated (epoch milliseconds) */
+  storedAt: number;
+
+  /** When the response must be revalidated (epoch milliseconds) */
+  expiresAt: number;
+
+  /** Approximate size in bytes */
+  size: number;
+}
+
+/**
+ * Response cache storage
+ *
+ * Methods may be synchronous or asynchronous so that stores can be backed by
+ * memory, Web Storage or async key-value stores alike.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Memory cache limits
+ */
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries (default: 500) */
+  maxEntries?: number;
+
+  /** Maximum total size in bytes (default: 5 MB) */
+  maxSize?: number;
+}
+
+/**
+ * In-memory LRU cache store
+ *
+ * Evicts the least recently used entries once either limit is exceeded.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+  private readonly maxSize: number;
+  private size = 0;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxSize = options.maxSize ?? 5 * 1024 * 1024;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    if (entry.size > this.maxSize) {
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.size += entry.size;
+
+    while (this.entries.size > this.maxEntries || this.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.size -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+  }
+}
+
+/**
+ * String key-value storage, e.g. localStorage, sessionStorage or React
+ * Native AsyncStorage
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Persistent cache configuration
+ */
+export interface StorageCacheStoreOptions {
+  /** Prefix for storage keys (default: 'tutenet-cache:') */
+  prefix?: string;
+
+  /** Maximum number of entries; the oldest are removed first (default: 100) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache store persisted in a key-value storage
+ *
+ * Keeps an index of its keys under `<prefix>index` so that entries can be
+ * listed and invalidated with storages that cannot enumerate keys.
+ *
+ * @example
+ * ```typescript
+ * const store = new StorageCacheStore(window.localStorage);
+ * const client = new UploadClient({ cache: { store } });
+ * ```
+ */
+export class StorageCacheStore implements CacheStore {
+  private readonly prefix: string;
+  private readonly maxEntries: number;
+
+  constructor(private readonly storage: KeyValueStorage, options: StorageCacheStoreOptions = {}) {
+    this.prefix = options.prefix ?? 'tutenet-cache:';
+    this.maxEntries = options.maxEntries ?? 100;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const raw = await this.storage.getItem(this.prefix + key);
+    if (!raw) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const index = (await this.keys()).filter(existing => existing !== key);
+    index.push(key);
+
+    // Drop the oldest entries over the limit
+    while (index.length > this.maxEntries) {
+      await this.storage.removeItem(this.prefix + index.shift());
+    }
+
+    await this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+    await this.writeIndex(index);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.removeItem(this.prefix + key);
+    await this.writeIndex((await this.keys()).filter(existing => existing !== key));
+  }
+
+  async keys(): Promise<string[]> {
+    const raw = await this.storage.getItem(`${this.prefix}index`);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const keys = JSON.parse(raw);
+      return Array.isArray(keys) ? keys : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const key of await this.keys()) {
+      await this.storage.removeItem(this.prefix + key);
+    }
+    await this.storage.removeItem(`${this.prefix}index`);
+  }
+
+  private async writeIndex(keys: string[]): Promise<void> {
+    await this.storage.setItem(`${this.prefix}index`, JSON.stringify(keys));
+  }
+}
@@ -0,0 +1,149 @@
+import { TransportRequest, TransportResponse } from '../transport/transport';
+import { KeyValueStorage, StorageCacheStore } from './cacheStore';
+import { ResponseCache } from './responseCache';
+
+const BASE_URL = 'https://api.test';
+
+function request(method: TransportRequest['method'], url: string, token = 'token-a'): TransportRequest {
+  return { method, url, baseUrl: BASE_URL, headers: { Authorization: `Bearer ${token}` } };
+}
+
+function response(status: number, data?: unknown, headers: Record<string, string> = {}): TransportResponse {
+  return { status, statusText: '', headers, data };
+}
+
+class MapStorage implements KeyValueStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe('ResponseCache', () => {
+  it('serves fresh responses without a request', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn(async () => response(200, { items: [1] }, { 'cache-control': 'max-age=60' }));
+
+    await cache.handle(request('GET', '/library'), next);
+    const cached = await cache.handle(request('GET', '/library'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(cached.data).toEqual({ items: [1] });
+  });
+
+  it('revalidates stale responses with their ETag and answers a 304 from the cache', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn()
+      .mockResolvedValueOnce(response(200, { items: [1] }, { etag: '"v1"' }))
+      .mockResolvedValueOnce(response(304, undefined, { etag: '"v1"' }));
+
+    await cache.handle(request('GET', '/library'), next);
+    const revalidated = await cache.handle(request('GET', '/library'), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(next.mock.calls[1][0].headers['If-None-Match']).toBe('"v1"');
+    expect(revalidated.status).toBe(200);
+    expect(revalidated.data).toEqual({ items: [1] });
+  });
+
+  it('replaces the entry when revalidation returns a new version', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn()
+      .mockResolvedValueOnce(response(200, { version: 1 }, { etag: '"v1"' }))
+      .mockResolvedValueOnce(response(200, { version: 2 }, { etag: '"v2"' }))
+      .mockResolvedValueOnce(response(304, undefined, {}));
+
+    await cache.handle(request('GET', '/library'), next);
+    await cache.handle(request('GET', '/library'), next);
+    const latest = await cache.handle(request('GET', '/library'), next);
+
+    expect(next.mock.calls[2][0].headers['If-None-Match']).toBe('"v2"');
+    expect(latest.data).toEqual({ version: 2 });
+  });
+
+  it('invalidates the resource, its sub-resources and its collection after a mutation', async () => {
+    const cache = new ResponseCache();
+    const fresh = { 'cache-control': 'max-age=60' };
+    const next = jest.fn(async (sent: TransportRequest) => response(200, { url: sent.url }, fresh));
+
+    await cache.handle(request('GET', '/resources/42'), next);
+    await cache.handle(request('GET', '/resources/42/structure'), next);
+    await cache.handle(request('GET', '/resources?page=2'), next);
+    await cache.handle(request('GET', '/library'), next);
+    next.mockClear();
+
+    await cache.handle(request('PUT', '/resources/42'), next);
+    for (const url of ['/resources/42', '/resources/42/structure', '/resources?page=2', '/library']) {
+      await cache.handle(request('GET', url), next);
+    }
+
+    const refetched = next.mock.calls.map(([sent]) => `${sent.method} ${sent.url}`);
+    expect(refetched).toEqual(['PUT /resources/42', 'GET /resources/42', 'GET /resources/42/structure', 'GET /resources?page=2']);
+  });
+
+  it('does not invalidate after a failed mutation', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn(async () => response(200, {}, { 'cache-control': 'max-age=60' }));
+
+    await cache.handle(request('GET', '/resources/42'), next);
+    await cache.handle(request('DELETE', '/resources/42'), async () => response(500));
+    await cache.handle(request('GET', '/resources/42'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps responses of different users apart', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn(async (sent: TransportRequest) =>
+      response(200, { owner: sent.headers.Authorization }, { 'cache-control': 'max-age=60' }));
+
+    await cache.handle(request('GET', '/library', 'token-a'), next);
+    const other = await cache.handle(request('GET', '/library', 'token-b'), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(other.data).toEqual({ owner: 'Bearer token-b' });
+  });
+
+  it('keys persistent entries on a SHA-256 digest of the token', async () => {
+    const storage = new MapStorage();
+    const cache = new ResponseCache({ store: new StorageCacheStore(storage) });
+    const next = jest.fn(async () => response(200, {}, { 'cache-control': 'max-age=60' }));
+
+    await cache.handle(request('GET', '/library', 'secret-token'), next);
+    await cache.handle(request('GET', '/library', 'secret-token'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    const keys = [...storage.items.keys()].join('\n');
+    expect(keys).not.toContain('secret-token');
+    expect(keys).toMatch(/#[0-9a-f]{64}/);
+  });
+
+  it('does not cache responses that vary on request headers', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn(async () => response(200, {}, { 'cache-control': 'max-age=60', vary: 'Accept-Language' }));
+
+    await cache.handle(request('GET', '/library'), next);
+    await cache.handle(request('GET', '/library'), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches responses that only vary on Accept-Encoding', async () => {
+    const cache = new ResponseCache();
+    const next = jest.fn(async () => response(200, {}, { 'cache-control': 'max-age=60', vary: 'Accept-Encoding' }));
+
+    await cache.handle(request('GET', '/library'), next);
+    await cache.handle(request('GET', '/library'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * HTTP response cache with Cache-Control freshness and ETag revalidation
+ */
+
+import { TransportRequest, TransportResponse, resolveUrl } from '../transport/transport';
+import { getWebCrypto, sha256Hex } from '../utils/webCrypto';
+import { CacheEntry, CacheStore, MemoryCacheStore } from './cacheStore';
+
+/**
+ * Response cache configuration
+ */
+export interface ResponseCacheOptions {
+  /** Storage backend (default: MemoryCacheStore with its default limits) */
+  store?: CacheStore;
+
+  /**
+   * Freshness in milliseconds for responses without Cache-Control max-age or
+   * Expires (default: 0, i.e. revalidate every time)
+   */
+  defaultMaxAge?: number;
+}
+
+/**
+ * Sends a request (the rest of the client pipeline)
+ */
+export type CacheNextHandler = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Parsed Cache-Control directives
+ */
+interface CacheControl {
+  noStore: boolean;
+  noCache: boolean;
+  maxAge?: number;
+}
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * HTTP response cache for GET requests
+ *
+ * - Fresh responses (Cache-Control max-age / Expires) are served without a request
+ * - Stale responses with an ETag or Last-Modified are revalidated with
+ *   If-None-Match / If-Modified-Since; a 304 is answered from the cache
+ * - Successful mutations invalidate cached responses for the same resource
+ *   and its parent collection
+ *
+ * - Responses with a `Vary` header (other than Accept-Encoding) are not cached,
+ *   since the cache key does not cover the headers they vary on
+ *
+ * Entries are keyed by URL and access token, so users never see each other's
+ * responses: the raw token in a MemoryCacheStore, its SHA-256 digest in other
+ * stores so that tokens are not persisted. Without Web Crypto, authenticated
+ * requests bypass non-memory stores. Share one instance between clients
+ * (`ClientOptions.cache`) to invalidate across them.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly defaultMaxAge: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.defaultMaxAge = options.defaultMaxAge ?? 0;
+  }
+
+  /**
+   * Send a request through the cache
+   */
+  async handle(request: TransportRequest, next: CacheNextHandler): Promise<TransportResponse> {
+    if (MUTATING_METHODS.includes(request.method)) {
+      const response = await next(request);
+      if (response.status >= 200 && response.status < 400) {
+        await this.invalidate(resolveUrl(request.url, request.baseUrl));
+      }
+      return response;
+    }
+
+    if (request.method !== 'GET') {
+      return next(request);
+    }
+
+    const url = resolveUrl(request.url, request.baseUrl);
+    const key = await this.getKey(url, request.headers);
+    if (key === undefined) {
+      return next(request);
+    }
+
+    const cached = await this.store.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.toResponse(cached);
+    }
+
+    const conditional = cached ? this.withValidators(request, cached) : request;
+    const response = await next(conditional);
+
+    if (response.status === 304) {
+      if (!cached || conditional === request) {
+        return response;
+      }
+      const refreshed: CacheEntry = {
+        ...cached,
+        headers: { ...cached.headers, ...response.headers },
+        storedAt: Date.now(),
+        expiresAt: this.getExpiry(response.headers),
+      };
+      await this.store.set(key, refreshed);
+      return this.toResponse(refreshed);
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      await this.save(key, url, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Remove cached responses for a URL, its sub-resources and its parent collection
+   *
+   * E.g. invalidating `/resources/42` removes `/resources/42`,
+   * `/resources/42/structure?expand=all` and `/resources?page=2`.
+   */
+  async invalidate(url: string): Promise<void> {
+    const path = stripQuery(url).replace(/\/+$/, '');
+    const parent = path.replace(/\/[^/]*$/, '');
+
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key);
+      if (!entry) {
+        continue;
+      }
+      const entryPath = stripQuery(entry.url).replace(/\/+$/, '');
+      if (entryPath === path || entryPath.startsWith(`${path}/`) || entryPath === parent) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove every cached response
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private async save(key: string, url: string, response: TransportResponse): Promise<void> {
+    const cacheControl = parseCacheControl(response.headers['cache-control']);
+    if (cacheControl.noStore || !isCacheableVary(response.headers.vary)) {
+      return;
+    }
+
+    const expiresAt = this.getExpiry(response.headers);
+    const revalidatable = !!(response.headers.etag || response.headers['last-modified']);
+    if (expiresAt <= Date.now() && !revalidatable) {
+      return;
+    }
+
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(response.data ?? null);
+    } catch {
+      // Not serializable (e.g. a stream); not cacheable
+      return;
+    }
+
+    await this.store.set(key, {
+      url,
+      status: response.status,
+      headers: { ...response.headers },
+      // Store a copy; the caller receives the original response
+      data: JSON.parse(serialized),
+      size: serialized.length,
+      storedAt: Date.now(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Expiry time from Cache-Control max-age, Expires or the default max age
+   */
+  private getExpiry(headers: Record<string, string>): number {
+    const now = Date.now();
+    const cacheControl = parseCacheControl(headers['cache-control']);
+
+    if (cacheControl.noCache) {
+      return now;
+    }
+    if (cacheControl.maxAge !== undefined) {
+      const age = Number(headers.age) || 0;
+      return now + Math.max(0, cacheControl.maxAge - age) * 1000;
+    }
+    if (headers.expires) {
+      const expires = Date.parse(headers.expires);
+      return Number.isNaN(expires) ? now : expires;
+    }
+    return now + this.defaultMaxAge;
+  }
+
+  private withValidators(request: TransportRequest, entry: CacheEntry): TransportRequest {
+    const names = Object.keys(request.headers).map(name => name.toLowerCase());
+    if (names.includes('if-none-match') || names.includes('if-modified-since')) {
+      // The caller is revalidating on its own
+      return request;
+    }
+
+    const validators: Record<string, string> = {};
+    if (entry.headers.etag) {
+      validators['If-None-Match'] = entry.headers.etag;
+    }
+    if (entry.headers['last-modified']) {
+      validators['If-Modified-Since'] = entry.headers['last-modified'];
+    }
+
+    return Object.keys(validators).length > 0
+      ? { ...request, headers: { ...request.headers, ...validators } }
+      : request;
+  }
+
+  private toResponse(entry: CacheEntry): TransportResponse {
+    return {
+      status: entry.status,
+      statusText: 'OK',
+      headers: { ...entry.headers },
+      // Copy so that callers cannot modify the cached response
+      data: entry.data === undefined ? undefined : JSON.parse(JSON.stringify(entry.data)),
+    };
+  }
+
+  /**
+   * Cache key for a URL and the identity of the caller, or undefined when
+   * the request cannot be cached
+   *
+   * Outside memory the Authorization header is replaced by its SHA-256
+   * digest so that tokens are not written to persistent stores.
+   */
+  private async getKey(url: string, headers: Record<string, string>): Promise<string | undefined> {
+    const authorization = Object.entries(headers)
+      .find(([name]) => name.toLowerCase() === 'authorization')?.[1];
+    if (!authorization) {
+      return url;
+    }
+    if (this.store instanceof MemoryCacheStore) {
+      return `${url}#${authorization}`;
+    }
+
+    const crypto = getWebCrypto();
+    return crypto ? `${url}#${await sha256Hex(authorization, crypto)}` : undefined;
+  }
+}
+
+function parseCacheControl(value: string | undefined): CacheControl {
+  const directives = (value ?? '')
+    .toLowerCase()
+    .split(',')
+    .map(directive => directive.trim());
+  const maxAge = directives.find(directive => directive.startsWith('max-age='));
+  const seconds = maxAge ? Number(maxAge.slice('max-age='.length)) : NaN;
+
+  return {
+    noStore: directives.includes('no-store'),
+    noCache: directives.includes('no-cache'),
+    maxAge: Number.isFinite(seconds) ? seconds : undefined,
+  };
+}
+
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+/**
+ * Whether a response's Vary header allows caching it by URL alone
+ *
+ * Accept-Encoding is ignored: transports decode the body whatever the encoding.
+ */
+function isCacheableVary(vary: string | undefined): boolean {
+  return !vary || vary
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .every(name => name === '' || name === 'accept-encoding');
+}
@@ -0,0 +1,197 @@
+import { ApiType, ClientConfig } from '../config/environment';
+import { AbortedError } from '../errors/clientErrors';
+import { MemoryTransport } from '../transport/memoryTransport';
+import { BaseClient } from './baseClient';
+
+class TestClient extends BaseClient {
+  constructor(config: Partial<ClientConfig>) {
+    super({ environment: 'development', apiType: ApiType.EXTERNAL, baseUrl: 'https://api.test', retries: 0, ...config });
+  }
+}
+
+const meta = { requestId: 'req-1', timestamp: '2026-01-01T00:00:00.000Z' };
+
+/**
+ * Transport whose responses wait until `release` is called
+ */
+function createGatedTransport() {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const signals: AbortSignal[] = [];
+  const transport = new MemoryTransport().on('GET', '/library', async (request) => {
+    signals.push(request.signal!);
+    await gate;
+    return { data: { success: true, data: { url: request.url }, meta } };
+  });
+  return { transport, signals, release };
+}
+
+describe('BaseClient', () => {
+  describe('in-flight GET deduplication', () => {
+    it('shares one request between identical concurrent GETs', async () => {
+      const { transport, release } = createGatedTransport();
+      const client = new TestClient({ transport });
+
+      const pending = [client.get<any>('/library'), client.get<any>('/library'), client.get<any>('/library')];
+      release();
+      const responses = await Promise.all(pending);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(responses.every(response => response === responses[0])).toBe(true);
+    });
+
+    it('sends again once the shared request has settled', async () => {
+      const { transport, release } = createGatedTransport();
+      const client = new TestClient({ transport });
+      release();
+
+      await client.get('/library');
+      await client.get('/library');
+
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('keeps requests with another token, header or dedupe: false apart', async () => {
+      const { transport, release } = createGatedTransport();
+      const client = new TestClient({ transport });
+      client.setAccessToken('access-1');
+      const other = new TestClient({ transport });
+      other.setAccessToken('access-2');
+
+      const pending = [
+        client.get('/library'),
+        other.get('/library'),
+        client.get('/library', { headers: { 'Accept-Language': 'hi' } }),
+        client.get('/library', { dedupe: false }),
+        // Request ids and trace context differ per call and do not prevent sharing
+        client.get('/library', { requestId: 'req-2' }),
+      ];
+      release();
+      await Promise.all(pending);
+
+      expect(transport.requests).toHaveLength(4);
+    });
+
+    it('does not share mutations', async () => {
+      const transport = new MemoryTransport().on('POST', '/library', () => ({ data: { success: true, data: {}, meta } }));
+      const client = new TestClient({ transport });
+
+      await Promise.all([client.post('/library', {}), client.post('/library', {})]);
+
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('keeps the shared request running while a caller still waits', async () => {
+      const { transport, signals, release } = createGatedTransport();
+      const client = new TestClient({ transport });
+      const first = new AbortController();
+
+      const aborted = client.get('/library', { signal: first.signal });
+      const kept = client.get<any>('/library');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      first.abort();
+      await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+      expect(signals[0].aborted).toBe(false);
+
+      release();
+      await expect(kept).resolves.toMatchObject({ success: true });
+    });
+
+    it('cancels the shared request once every caller aborted', async () => {
+      const { transport, signals } = createGatedTransport();
+      const client = new TestClient({ transport });
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const pending = [
+        client.get('/library', { signal: first.signal }),
+        client.get('/library', { signal: second.signal }),
+      ];
+      await new Promise(resolve => setTimeout(resolve, 0));
+      first.abort();
+      second.abort();
+
+      const results = await Promise.allSettled(pending);
+      expect(results.map(result => result.status === 'rejected' && result.reason instanceof AbortedError)).toEqual([true, true]);
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    it('rejects every caller when the shared request fails', async () => {
+      const transport = new MemoryTransport().on('GET', '/library', async () => {
+        throw new Error('Connection reset');
+      });
+      const client = new TestClient({ transport });
+
+      const results = await Promise.allSettled([client.get('/library'), client.get('/library')]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(transport.requests).toHaveLength(1);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    /**
+     * Transport answering 503 (Retry-After: 0) to the first `failures` requests
+     */
+    function createFlakyTransport(failures: number): MemoryTransport {
+      return new MemoryTransport().on('*', '/resources', () => failures-- > 0
+        ? { status: 503, headers: { 'retry-after': '0' }, data: { success: false, error: { code: 'SERVICE_UNAVAILABLE', message: 'Down' }, meta } }
+        : { data: { success: true, data: {}, meta } });
+    }
+
+    const keysOf = (transport: MemoryTransport) => transport.requests.map(request => request.headers['Idempotency-Key']);
+
+    it('reuses the key of a POST across retries', async () => {
+      const transport = createFlakyTransport(2);
+      const client = new TestClient({ transport, retries: 2 });
+
+      const response = await client.post<any>('/resources', { title: 'Fractions' });
+
+      expect(response.success).toBe(true);
+      const keys = keysOf(transport);
+      expect(keys).toHaveLength(3);
+      expect(keys[0]).toEqual(expect.any(String));
+      expect(new Set(keys).size).toBe(1);
+    });
+
+    it('generates a new key per call', async () => {
+      const transport = createFlakyTransport(0);
+      const client = new TestClient({ transport });
+
+      await client.post('/resources', {});
+      await client.patch('/resources', {});
+
+      const [post, patch] = keysOf(transport);
+      expect(post).toEqual(expect.any(String));
+      expect(patch).toEqual(expect.any(String));
+      expect(post).not.toBe(patch);
+    });
+
+    it('sends no key with idempotent methods', async () => {
+      const transport = createFlakyTransport(0);
+      const client = new TestClient({ transport });
+
+      await client.get('/resources');
+      await client.put('/resources', {});
+      await client.delete('/resources');
+
+      expect(keysOf(transport)).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('uses the key of the caller, or none when disabled', async () => {
+      const transport = createFlakyTransport(1);
+      const client = new TestClient({ transport, retries: 1 });
+      const disabled = new TestClient({ transport, idempotencyKeys: false });
+
+      await client.post('/resources', {}, { idempotencyKey: 'order-42' });
+      await client.post('/resources', {}, { headers: { 'Idempotency-Key': 'order-43' } });
+      await client.post('/resources', {}, { idempotencyKey: false });
+      await disabled.post('/resources', {});
+
+      expect(keysOf(transport)).toEqual(['order-42', 'order-42', 'order-43', undefined, undefined]);
+    });
+  });
+});
@@ -2,51 +2,183 @@
  * Base client class with common functionality for all TuteNet service clients
  */
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError, AxiosRequestConfig } from 'axios';
+import type { AxiosRequestConfig } from 'axios';
 import { 
   ClientConfig, 
   Environment, 
   ApiType, 
-  getEndpoint, 
+  getEndpoints, 
+  normalizeBaseUrl,
+  toEndpoints,
   validateConfig, 
-  DEFAULT_CONFIG 
+  applyDefaults 
 } from '../config/environment';
 import { 
+  AbortedError,
   ClientError, 
   NetworkError, 
-  TimeoutError, 
+  ResponseValidationError,
   createErrorFromResponse,
   isRetryableError 
 } from '../errors/clientErrors';
-import { ApiResponse, RequestMetadata } from '../types/apiTypes';
+import { createErrorFromBody, isErrorResponse, toErrorResponse, unwrap } from '../errors/errorMode';
+import { ErrorCodeRegistry } from '../errors/errorCodes';
+import { ApiResponse, ErrorResponse, RequestMetadata, SuccessResponse } from '../types/apiTypes';
 import { retry } from '../utils/retry';
+import { raceAbort, throwIfAborted } from '../utils/abort';
+import { generateId, generateIdempotencyKey } from '../utils/ids';
+import { RateLimitInfo, parseRateLimitHeaders } from '../utils/rateLimit';
+import { CircuitBreaker, getRouteTemplate } from '../utils/circuitBreaker';
+import { EndpointFailover } from '../utils/endpointFailover';
+import { RequestPriority, RequestScheduler, getSharedScheduler } from '../utils/requestScheduler';
+import { ResponseCache } from '../cache/responseCache';
+import { NoopTracer, Span, Tracer } from '../tracing/tracer';
+import { Logger, createClientLogger } from '../logging/logger';
+import { CLIENT_METRICS, MetricsSink, getErrorCode, getRequestTags } from '../metrics/metrics';
+import {
+  TraceContext,
+  parseTraceparent,
+  toTraceContext,
+  traceContextHeaders,
+} from '../tracing/traceContext';
+import { Schema, validateSchema } from '../schema/schema';
+import { createTransport } from '../transport/factory';
+import { Middleware, MiddlewarePipeline } from '../middleware/middleware';
+import {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  resolveUrl,
+} from '../transport/transport';
+
+/**
+ * Headers that differ between otherwise identical requests
+ */
+const DEDUPE_IGNORED_HEADERS = ['x-request-id', 'x-correlation-id', 'traceparent', 'tracestate'];
+
+/**
+ * Methods that get an Idempotency-Key (PUT and DELETE are idempotent already)
+ */
+const IDEMPOTENT_KEY_METHODS: HttpMethod[] = ['POST', 'PATCH'];
+
+/**
+ * GET request shared by deduplicated callers
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
 
 /**
  * HTTP client interface
  */
 export interface HttpClient {
-  get<T>(url: string, config?: AxiosRequestConfig): Promise<T>;
-  post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T>;
-  put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T>;
-  patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T>;
-  delete<T>(url: string, config?: AxiosRequestConfig): Promise<T>;
+  get<T>(url: string, config?: RequestConfig): Promise<T>;
+  post<T>(url: string, data?: any, config?: RequestConfig): Promise<T>;
+  put<T>(url: string, data?: any, config?: RequestConfig): Promise<T>;
+  patch<T>(url: string, data?: any, config?: RequestConfig): Promise<T>;
+  delete<T>(url: string, config?: RequestConfig): Promise<T>;
 }
 
 /**
  * Request configuration
  */
-export interface RequestConfig extends AxiosRequestConfig {
+export interface RequestConfig {
+  /** Custom headers for this request */
+  headers?: Record<string, string>;
+
   /** Skip retry logic */
   skipRetry?: boolean;
+
+  /** Do not refresh the access token and replay the request after a 401 */
+  skipAuthRefresh?: boolean;
+
+  /** Send without the access token, e.g. to public endpoints that reject an expired one */
+  skipAuth?: boolean;
   
   /** Custom timeout for this request */
   timeout?: number;
+
+  /** Route template used to key the circuit breaker (default: derived from the URL) */
+  route?: string;
+
+  /** Read and store this GET in the response cache (default: true when the cache is enabled) */
+  cache?: boolean;
+
+  /**
+   * Idempotency-Key for a POST or PATCH (default: generated per call);
+   * false sends none
+   */
+  idempotencyKey?: string | false;
+
+  /** Cancels the request, including retries and backoff waits; rejects with AbortedError */
+  signal?: AbortSignal;
+
+  /** Share the response of an identical GET already in flight (default: true) */
+  dedupe?: boolean;
+
+  /** Scheduling priority; high priority requests overtake queued ones (default: 'normal') */
+  priority?: RequestPriority;
   
-  /** Request ID for tracing (shorthand for metadata.requestId) */
+  /**
+   * Parent trace context, as an object or a `traceparent` header value
+   * (default: a `traceparent` header of this request, then ClientOptions.traceContext)
+   */
+  traceContext?: TraceContext | string;
+
+  /** Schema of the response body, checked when ClientOptions.responseValidation is enabled */
+  schema?: Schema<any>;
+
+  /**
+   * Called with the response of every attempt, whatever the error mode,
+   * e.g. to read the status and Retry-After of a failure returned as a
+   * value. Requests using it are not deduplicated.
+   */
+  onResponse?: (response: TransportResponse) => void;
+
+  /** Request ID for tracing (shorthand for metadata.requestId; default: generated per call) */
   requestId?: string;
   
   /** Request metadata */
   metadata?: RequestMetadata;
+
+  /**
+   * Extra axios options such as `params`, `responseType` or `withCredentials`,
+   * for the axios transport only. Requests using them are neither cached nor
+   * deduplicated, since the options are not part of the request key.
+   */
+  axios?: AxiosRequestConfig;
+}
+
+/**
+ * Options for sending a single request
+ */
+export interface SendOptions {
+  /** Attempt number, starting at 1 */
+  attempt?: number;
+
+  /** Do not refresh the access token and replay the request after a 401 */
+  skipAuthRefresh?: boolean;
+
+  /** Send without the access token */
+  skipAuth?: boolean;
+
+  /** Scheduling priority (default: 'normal') */
+  priority?: RequestPriority;
+
+  /** Bypass the response cache for reads */
+  skipCache?: boolean;
+
+  /** Called with the response of every attempt and the request it answers */
+  onResponse?: (response: TransportResponse, request: TransportRequest) => void;
+
+  /** Schema of successful response bodies */
+  schema?: Schema<any>;
+
+  /** Route template reported by validation failures */
+  route?: string;
 }
 
 /**
@@ -63,32 +195,78 @@ export interface ResponseData<T> {
  * Base client class with common HTTP functionality
  */
 export abstract class BaseClient implements HttpClient {
-  protected readonly client: AxiosInstance;
+  protected readonly transport: Transport;
   protected readonly config: ClientConfig;
   protected readonly baseUrl: string;
+  protected readonly logger: Logger;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly pipeline: MiddlewarePipeline;
+  private readonly errorBodies = new WeakMap<object, unknown>();
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly scheduler?: RequestScheduler;
+  private readonly cache?: ResponseCache;
+  private readonly failover?: EndpointFailover;
+  private readonly tracer: Tracer;
+  private readonly metrics?: MetricsSink;
+  private rateLimit?: RateLimitInfo;
 
   constructor(config: ClientConfig) {
     // Validate configuration
     validateConfig(config);
     
     // Merge with defaults
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = applyDefaults(config);
     
-    // Get base URL for environment and API type
-    this.baseUrl = getEndpoint(config.environment, config.apiType);
+    // An explicit base URL wins over the environment's endpoints
+    const endpoints = config.baseUrl
+      ? toEndpoints(config.baseUrl).map(normalizeBaseUrl)
+      : getEndpoints(config.environment, config.apiType, this.constructor.name);
+    this.baseUrl = endpoints[0];
+    if (endpoints.length > 1) {
+      this.failover = new EndpointFailover(endpoints, (endpoint) => this.probe(endpoint), this.config.failover);
+    }
     
-    // Create axios instance
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: this.config.timeout,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': this.getUserAgent(),
-        ...this.config.headers,
-      },
-    });
+    // Child logger tagged with the client name; redacts secrets and emails
+    this.logger = createClientLogger(this.config, this.constructor.name);
+
+    // Create transport (axios, fetch or custom)
+    this.transport = createTransport(this.config.transport);
 
-    this.setupInterceptors();
+    // Use a shared pipeline as-is so that clients built from one config share middleware
+    this.pipeline = this.config.middleware instanceof MiddlewarePipeline
+      ? this.config.middleware
+      : new MiddlewarePipeline(this.config.middleware);
+
+    const { circuitBreaker } = this.config;
+    if (circuitBreaker instanceof CircuitBreaker) {
+      this.circuitBreaker = circuitBreaker;
+    } else if (circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker);
+    }
+
+    const { scheduler } = this.config;
+    if (scheduler) {
+      this.scheduler = scheduler instanceof RequestScheduler
+        ? scheduler
+        : getSharedScheduler(this.baseUrl, scheduler);
+    }
+
+    const { cache } = this.config;
+    if (cache instanceof ResponseCache) {
+      this.cache = cache;
+    } else if (cache) {
+      this.cache = new ResponseCache(cache === true ? {} : cache);
+    }
+
+    this.tracer = this.config.tracer ?? new NoopTracer();
+    this.metrics = this.config.metrics;
+
+    this.defaultHeaders = {
+      'Content-Type': 'application/json',
+      'User-Agent': this.getUserAgent(),
+      ...this.config.headers,
+    };
   }
 
   /**
@@ -126,21 +304,83 @@ export abstract class BaseClient implements HttpClient {
     return this.request<T>('DELETE', url, undefined, config);
   }
 
+  /**
+   * Register middleware
+   *
+   * Request stages run in registration order; response and error stages
+   * run in reverse order.
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   name: 'timing',
+   *   onRequest: (request, context) => { context.state.start = Date.now(); },
+   *   onResponse: (response, request, context) => {
+   *     console.log(request.url, Date.now() - (context.state.start as number));
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.pipeline.use(middleware);
+    return this;
+  }
+
+  /**
+   * Remove previously registered middleware
+   *
+   * @returns True if the middleware was registered
+   */
+  removeMiddleware(middleware: Middleware): boolean {
+    return this.pipeline.remove(middleware);
+  }
+
+  /**
+   * Set the access token of subsequent requests
+   *
+   * A configured tokenProvider takes precedence over this token.
+   */
+  setAccessToken(token: string): void {
+    this.config.authToken = token;
+  }
+
+  /**
+   * Clear the access token set with setAccessToken or `authToken`
+   */
+  clearAccessToken(): void {
+    delete this.config.authToken;
+  }
+
   /**
    * Health check
+   *
+   * Checks the active endpoint; with several endpoints configured, a failed
+   * check moves requests to the next one.
    */
   async healthCheck(): Promise<boolean> {
-    try {
-      const response = await this.client.get('/health', {
-        timeout: 2000,
-      });
-      return response.status === 200;
-    } catch (error) {
-      if (this.config.debug) {
-        console.warn(`[${this.constructor.name}] Health check failed:`, error);
-      }
-      return false;
+    const endpoint = this.getBaseUrl();
+    const healthy = await this.probe(endpoint);
+    if (!healthy) {
+      this.failover?.markUnhealthy(endpoint);
     }
+    return healthy;
+  }
+
+  /**
+   * Data of a success response, throwing this service's specific error class
+   * for an error response
+   *
+   * @throws ClientError built from the error response
+   */
+  unwrap<T>(response: SuccessResponse<T> | ErrorResponse | ApiResponse<T>): T {
+    return unwrap(response, this.getErrorCodes());
+  }
+
+  /**
+   * Error codes returned by this service, mapped to specific error classes
+   */
+  protected getErrorCodes(): ErrorCodeRegistry | undefined {
+    return undefined;
   }
 
   /**
@@ -152,100 +392,526 @@ export abstract class BaseClient implements HttpClient {
 
   /**
    * Get base URL
+   *
+   * With several endpoints configured, this is the endpoint currently
+   * receiving requests.
    */
   getBaseUrl(): string {
-    return this.baseUrl;
+    return this.failover?.getActiveEndpoint() ?? this.baseUrl;
+  }
+
+  /**
+   * Endpoint failover of this client, when several endpoints are configured
+   *
+   * Subscribe to `failover`, `recovered` and `served` to see which endpoint
+   * serves requests.
+   */
+  getFailover(): EndpointFailover | undefined {
+    return this.failover;
+  }
+
+  /**
+   * Latest rate limit quota reported by the API (X-RateLimit-* headers)
+   *
+   * Bulk jobs can use it to pace themselves before hitting 429s.
+   */
+  getRateLimit(): RateLimitInfo | undefined {
+    return this.rateLimit ? { ...this.rateLimit } : undefined;
+  }
+
+  /**
+   * Response cache of this client, if enabled
+   */
+  getCache(): ResponseCache | undefined {
+    return this.cache;
+  }
+
+  /**
+   * Circuit breaker guarding this client's requests, if enabled
+   *
+   * Subscribe to `stateChange` to observe circuits opening and closing.
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
   }
 
   /**
    * Make HTTP request with retry logic
    */
   private async request<T>(
-    method: string,
+    method: HttpMethod,
     url: string,
     data?: any,
     config?: RequestConfig
   ): Promise<T> {
-    const requestConfig: AxiosRequestConfig = {
+    const request: TransportRequest = {
       method,
       url,
+      baseUrl: this.baseUrl,
       data,
-      ...config,
-      // Properly merge headers from config with existing headers
+      timeout: config?.timeout ?? this.config.timeout,
+      signal: config?.signal,
       headers: {
         ...config?.headers,
       },
+      axios: config?.axios,
     };
 
     // Add request metadata
-    if (config?.metadata) {
-      requestConfig.headers = {
-        ...requestConfig.headers,
-        'X-Request-ID': config.metadata.requestId,
-        'X-Correlation-ID': config.metadata.correlationId,
-        'X-Client-Version': config.metadata.clientVersion,
-      };
+    request.headers = {
+      ...request.headers,
+      ...this.definedHeaders({
+        'X-Request-ID': config?.requestId ?? config?.metadata?.requestId,
+        'X-Correlation-ID': config?.metadata?.correlationId,
+        'X-Client-Version': config?.metadata?.clientVersion,
+      }),
+    };
+    if (!this.hasHeader(request.headers, 'X-Request-ID')) {
+      request.headers['X-Request-ID'] = generateId();
     }
 
-    // Log request in debug mode only
-    if (this.config.debug) {
-      console.debug(`[${this.constructor.name}] ${method} ${url}`);
+    // One key per logical operation, reused by every retry attempt
+    const idempotencyKey = this.getIdempotencyKey(method, request.headers, config);
+    if (idempotencyKey) {
+      request.headers['Idempotency-Key'] = idempotencyKey;
     }
 
-    const operation = () => this.executeRequest<T>(requestConfig);
+    this.logger.debug(`${method} ${url}`, { requestId: request.headers['X-Request-ID'] });
+
+    try {
+      throwIfAborted(config?.signal);
+
+      // Identical GETs already in flight share one network call
+      if (method === 'GET' && config?.dedupe !== false && !config?.axios && !config?.onResponse) {
+        return await this.deduplicate(request, (signal) => this.performRequest<T>({ ...request, signal }, config));
+      }
+
+      return await this.performRequest<T>(request, config);
+    } catch (error) {
+      if (this.config.errorMode === 'result') {
+        return toErrorResponse(error, this.getHeader(request.headers, 'X-Request-ID')) as T;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request through the circuit breaker and retry logic
+   */
+  private async performRequest<T>(request: TransportRequest, config?: RequestConfig): Promise<T> {
+    const route = config?.route ?? getRouteTemplate(request.method, request.url);
+    const span = this.startSpan(request, route, config);
+    const traced = this.withTraceContext(request, span.context);
+    const startedAt = Date.now();
+
+    let attempt = 0;
+    let status: number | undefined;
+    let errorCode: string | undefined;
+    const onResponse = (response: TransportResponse, served: TransportRequest) => {
+      status = response.status;
+      if (served.baseUrl) {
+        span.setAttribute('server.address', new URL(served.baseUrl).host);
+      }
+      errorCode = response.status >= 400 ? getErrorCode(response.data) : undefined;
+      span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 400) {
+        span.setStatus('error', `HTTP ${response.status}`);
+      } else {
+        span.setStatus('ok');
+      }
+      config?.onResponse?.(response);
+    };
+    const send = () => {
+      const options: SendOptions = {
+        attempt: ++attempt,
+        skipAuthRefresh: config?.skipAuthRefresh,
+        skipAuth: config?.skipAuth,
+        priority: config?.priority ?? this.config.priority,
+        skipCache: config?.cache === false || !!config?.axios,
+        onResponse,
+        schema: config?.schema,
+        route,
+      };
+      const failover = this.failover;
+      // Absolute URLs (e.g. presigned uploads) are not served by the API endpoints
+      return failover && !/^[a-z][a-z\d+\-.]*:\/\//i.test(traced.url)
+        ? failover.execute((baseUrl) => this.executeRequest<T>({ ...traced, baseUrl }, options))
+        : this.executeRequest<T>(traced, options);
+    };
+
+    // Every attempt goes through the circuit, so an open circuit also stops retries
+    const circuitBreaker = this.circuitBreaker;
+    const operation = circuitBreaker
+      ? () => circuitBreaker.execute(this.constructor.name, route, send)
+      : send;
+
+    try {
+      // Use retry logic unless explicitly disabled
+      if (config?.skipRetry || this.config.retries === 0) {
+        return await operation();
+      }
+
+      return await retry(operation, {
+        maxAttempts: this.config.retries! + 1,
+        signal: request.signal,
+        metrics: this.metrics,
+        metricTags: { service: this.constructor.name, route },
+        shouldRetry: isRetryableError,
+        onRetry: (error, attempt) => {
+          this.logger.warn(`Retry attempt ${attempt}`, {
+            method: request.method,
+            url: request.url,
+            errorMessage: error.message,
+          });
+        },
+      });
+    } catch (error) {
+      // API error bodies of retryable failures are returned as-is once retries are exhausted
+      if (typeof error === 'object' && error !== null && this.errorBodies.has(error)) {
+        return this.errorBodies.get(error) as T;
+      }
+      // Status of the error itself; a network error after a 503 has none
+      status = error instanceof ClientError ? error.statusCode : undefined;
+      errorCode = getErrorCode(error);
+      span.recordException(error);
+      span.setStatus('error', (error as Error)?.message);
+      throw error;
+    } finally {
+      span.setAttribute('http.request.resend_count', Math.max(0, attempt - 1));
+      span.end();
+      this.recordMetrics(route, status, errorCode, Date.now() - startedAt);
+    }
+  }
 
-    // Use retry logic unless explicitly disabled
-    if (config?.skipRetry || this.config.retries === 0) {
-      return operation();
+  /**
+   * Report a finished call to the metrics sink
+   */
+  private recordMetrics(route: string, status: number | undefined, errorCode: string | undefined, duration: number): void {
+    if (!this.metrics) {
+      return;
     }
+    const tags = getRequestTags(this.constructor.name, route, status, errorCode);
+    this.metrics.increment(CLIENT_METRICS.requests, tags);
+    this.metrics.observe(CLIENT_METRICS.duration, duration, tags);
+    if (status === undefined || status >= 400) {
+      this.metrics.increment(CLIENT_METRICS.errors, tags);
+    }
+  }
 
-    return retry(operation, {
-      maxAttempts: this.config.retries! + 1,
-      shouldRetry: isRetryableError,
-      onRetry: (error, attempt) => {
-        if (this.config.debug) {
-          console.warn(`[${this.constructor.name}] Retry attempt ${attempt}:`, error.message);
-        }
+  /**
+   * Start the span of a logical call, continuing the caller's trace if any
+   */
+  private startSpan(request: TransportRequest, route: string, config?: RequestConfig): Span {
+    const parent = toTraceContext(config?.traceContext)
+      ?? this.headerTraceContext(request.headers)
+      ?? toTraceContext(this.config.traceContext?.());
+    const prefix = `${request.method} `;
+
+    return this.tracer.startSpan(route, {
+      kind: 'client',
+      parent,
+      attributes: {
+        'http.request.method': request.method,
+        'http.route': route.startsWith(prefix) ? route.slice(prefix.length) : route,
+        'tutenet.client': this.constructor.name,
       },
     });
   }
 
+  /**
+   * Trace context from `traceparent` / `tracestate` request headers
+   */
+  private headerTraceContext(headers: Record<string, string>): TraceContext | undefined {
+    const traceparent = this.getHeader(headers, 'traceparent');
+    return traceparent ? parseTraceparent(traceparent, this.getHeader(headers, 'tracestate')) : undefined;
+  }
+
+  /**
+   * Request carrying a span's trace context headers
+   *
+   * The correlation ID defaults to the trace ID so that logs of one trace
+   * can be joined without a tracing backend.
+   */
+  private withTraceContext(request: TransportRequest, context: TraceContext): TransportRequest {
+    if (this.config.propagateTraceContext === false) {
+      return request;
+    }
+
+    const headers: Record<string, string> = {};
+    Object.entries(request.headers).forEach(([name, value]) => {
+      if (!['traceparent', 'tracestate'].includes(name.toLowerCase())) {
+        headers[name] = value;
+      }
+    });
+    if (!this.hasHeader(headers, 'X-Correlation-ID')) {
+      headers['X-Correlation-ID'] = context.traceId;
+    }
+
+    return { ...request, headers: { ...headers, ...traceContextHeaders(context) } };
+  }
+
+  /**
+   * Join an identical in-flight request, or start it
+   *
+   * Requests match on method, URL, access token and headers other than
+   * per-request IDs. Callers of a coalesced request receive the same result.
+   * A caller aborting only stops waiting; the shared request is aborted once
+   * every caller has aborted.
+   */
+  private async deduplicate<T>(
+    request: TransportRequest,
+    perform: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const accessToken = await this.getAccessToken();
+    const headers = Object.entries(request.headers)
+      .filter(([name]) => !DEDUPE_IGNORED_HEADERS.includes(name.toLowerCase()))
+      .map(([name, value]) => `${name.toLowerCase()}:${value}`)
+      .sort()
+      .join('\n');
+    const key = [request.method, resolveUrl(request.url, request.baseUrl), accessToken ?? '', headers].join('\n');
+
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      this.logger.debug(`Joining in-flight ${request.method} ${request.url}`);
+    } else {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: perform(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      // Handled by the waiters; avoids an unhandled rejection when all of them abort
+      created.promise.catch(() => undefined);
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.waiters++;
+    return raceAbort(shared.promise as Promise<T>, request.signal, () => {
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        shared.controller.abort();
+        this.inFlight.delete(key);
+      }
+    });
+  }
+
   /**
    * Execute HTTP request
    */
-  private async executeRequest<T>(config: AxiosRequestConfig): Promise<T> {
+  private async executeRequest<T>(request: TransportRequest, options: SendOptions): Promise<T> {
+    const response = await this.send<T>(request, options);
+
+    options.onResponse?.(response, request);
+
+    if (response.status >= 200 && response.status < 300) {
+      return this.handleResponse(response, options);
+    }
+
+    const error = this.handleError(response, request.url);
+
+    // If the response has the API format with success: false, return it as-is
+    // (in 'throw' mode the error is thrown instead)
+    const responseData: any = response.data;
+    if (this.config.errorMode !== 'throw' && isErrorResponse(responseData)) {
+      if (!isRetryableError(error)) {
+        return responseData as T;
+      }
+      // Retryable failures (429, 5xx) go through the retry loop first
+      this.errorBodies.set(error, responseData);
+    }
+
+    // For other HTTP errors, throw as before
+    throw error;
+  }
+
+  /**
+   * Send a request with default headers and authentication, refreshing the
+   * access token and replaying the request once after a 401
+   */
+  protected async send<T = any>(request: TransportRequest, options: SendOptions = {}): Promise<TransportResponse<T>> {
+    const accessToken = options.skipAuth ? undefined : await this.getAccessToken();
+    const response = await this.dispatch<T>(request, options, accessToken);
+
+    const tokenProvider = this.config.tokenProvider;
+    if (
+      response.status !== 401 ||
+      !accessToken ||
+      options.skipAuthRefresh ||
+      !tokenProvider?.refreshAccessToken
+    ) {
+      return response;
+    }
+
+    // Concurrent 401s wait on the provider's single refresh, then replay
+    const refreshedToken = await tokenProvider.refreshAccessToken(accessToken);
+    if (!refreshedToken) {
+      return response;
+    }
+
+    this.logger.debug(`Replaying ${request.method} ${request.url} with refreshed token`);
+
+    return this.dispatch<T>(request, options, refreshedToken);
+  }
+
+  /**
+   * Current access token from the token provider, falling back to the static auth token
+   */
+  protected async getAccessToken(): Promise<string | undefined> {
+    const token = this.config.tokenProvider
+      ? await this.config.tokenProvider.getAccessToken()
+      : undefined;
+    return token ?? this.config.authToken;
+  }
+
+  /**
+   * Send a request through the middleware pipeline and transport
+   */
+  private async dispatch<T>(
+    request: TransportRequest,
+    options: SendOptions,
+    accessToken: string | undefined
+  ): Promise<TransportResponse<T>> {
+    const outgoing: TransportRequest = {
+      ...request,
+      headers: {
+        ...this.defaultHeaders,
+        ...request.headers,
+      },
+    };
+
+    // Add authentication token if available
+    if (accessToken) {
+      outgoing.headers.Authorization = `Bearer ${accessToken}`;
+    }
+
+    this.logger.debug(`→ ${outgoing.method} ${outgoing.url}`, { attempt: options.attempt ?? 1 });
+
     try {
-      const response: AxiosResponse<T> = await this.client.request(config);
-      return this.handleResponse(response);
+      const response = await this.pipeline.execute(
+        outgoing,
+        { client: this.constructor.name, attempt: options.attempt ?? 1, state: {} },
+        (finalRequest) => this.cache && !(options.skipCache && finalRequest.method === 'GET')
+          ? this.cache.handle(finalRequest, (next) => this.schedule(next, options))
+          : this.schedule(finalRequest, options)
+      ) as TransportResponse<T>;
+
+      const rateLimit = parseRateLimitHeaders(response.headers);
+      if (rateLimit) {
+        this.rateLimit = rateLimit;
+      }
+
+      this.logger.debug(`← ${response.status} ${outgoing.url}`, { endpoint: outgoing.baseUrl });
+
+      return response;
     } catch (error) {
-      // Check if this is an HTTP error with a response body
-      const axiosError = error as AxiosError;
-      if (axiosError.response && axiosError.response.data) {
-        const responseData = axiosError.response.data;
-        
-        // If the response has the API format with success: false, return it as-is
-        if (typeof responseData === 'object' && responseData !== null && 'success' in responseData && !responseData.success) {
-          return responseData as T;
-        }
+      const fields = {
+        url: outgoing.url,
+        transport: this.transport.name,
+        errorMessage: (error as Error)?.message,
+      };
+      if (AbortedError.isAbortedError(error)) {
+        this.logger.debug('Request aborted', fields);
+      } else {
+        this.logger.error('Request failed', fields);
       }
-      
-      // For other errors (network, timeout, etc.), throw as before
-      throw this.handleError(error, config.url || '');
+      throw error;
+    }
+  }
+
+  /**
+   * Whether an endpoint answers its health check
+   */
+  private async probe(endpoint: string): Promise<boolean> {
+    try {
+      const response = await this.send({
+        method: 'GET',
+        url: '/health',
+        baseUrl: endpoint,
+        headers: {},
+        timeout: 2000,
+      });
+      return response.status === 200;
+    } catch (error) {
+      this.logger.warn('Health check failed', { endpoint, error });
+      return false;
+    }
+  }
+
+  /**
+   * Call the transport once the scheduler lets the request start
+   */
+  private schedule(request: TransportRequest, options: SendOptions): Promise<TransportResponse> {
+    return this.scheduler
+      ? this.scheduler.schedule(() => this.callTransport(request), options.priority, request.signal)
+      : this.callTransport(request);
+  }
+
+  /**
+   * Call the transport, converting unknown failures into client errors
+   */
+  private async callTransport(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const sentAt = Date.now();
+      const response = await this.transport.request(request);
+      this.observeServerTime(response, sentAt);
+      return response;
+    } catch (error) {
+      if (error instanceof ClientError) {
+        throw error;
+      }
+
+      // Unknown errors
+      throw new NetworkError(
+        `Request failed: ${(error as Error)?.message ?? String(error)}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Report the server time of an API response to the token provider
+   *
+   * Only responses received from the transport count: cached ones carry
+   * the time they were first served.
+   */
+  private observeServerTime(response: TransportResponse, sentAt: number): void {
+    const tokenProvider = this.config.tokenProvider;
+    const timestamp = response.data?.meta?.timestamp;
+    if (!tokenProvider?.observeServerTime || typeof timestamp !== 'string') {
+      return;
+    }
+
+    const serverTime = Date.parse(timestamp);
+    if (!Number.isNaN(serverTime)) {
+      tokenProvider.observeServerTime(serverTime, sentAt, Date.now());
     }
   }
 
   /**
    * Handle successful response
    */
-  private handleResponse<T>(response: AxiosResponse<T>): T {
-    const { data, status } = response;
-    const requestId = response.headers['x-request-id'];
+  private handleResponse<T>(response: TransportResponse<T>, options: SendOptions = {}): T {
+    const { data } = response;
+
+    if (options.schema) {
+      this.validateResponse(response, options.schema, options.route);
+    }
 
     // Handle non-JSON responses (like health checks)
     if (typeof data !== 'object' || data === null) {
       return data as unknown as T;
     }
 
+    if (this.config.errorMode === 'throw' && isErrorResponse(data)) {
+      throw createErrorFromBody(data, response.status, response.headers, this.getErrorCodes());
+    }
+
     // Handle API response format - return full response (including error responses)
     if ('success' in data) {
       // Return the full API response (both success and error responses)
@@ -258,93 +924,92 @@ export abstract class BaseClient implements HttpClient {
   }
 
   /**
-   * Handle request errors
+   * Check a response body against its schema according to the validation mode
+   *
+   * @throws ResponseValidationError in strict mode
    */
-  private handleError(error: any, url: string): ClientError {
-    const axiosError = error as AxiosError;
-
-    // Log errors in debug mode only
-    if (this.config.debug) {
-      console.error(`[${this.constructor.name}] Request failed:`, {
-        url: url,
-        status: axiosError.response?.status,
-        errorCode: axiosError.code,
-        errorMessage: axiosError.message,
-      });
+  private validateResponse(response: TransportResponse, responseSchema: Schema<any>, route?: string): void {
+    const mode = this.config.responseValidation ?? 'off';
+    if (mode === 'off') {
+      return;
     }
 
-    // Network errors
-    if (axiosError.code === 'ECONNREFUSED' || axiosError.code === 'ENOTFOUND') {
-      return new NetworkError(
-        `Unable to connect to ${this.baseUrl}`,
-        axiosError
-      );
+    const issues = validateSchema(responseSchema, response.data);
+    if (issues.length === 0) {
+      return;
     }
 
-    // Timeout errors
-    if (axiosError.code === 'ECONNABORTED') {
-      return new TimeoutError(this.config.timeout!);
+    if (mode === 'strict') {
+      throw new ResponseValidationError(issues, route, response.headers['x-request-id']);
     }
+    this.logger.warn('Response does not match its schema', { route, issues });
+  }
+
+  /**
+   * Handle HTTP error responses
+   */
+  private handleError(response: TransportResponse, url: string): ClientError {
+    const { status, data } = response;
+    const requestId = response.headers['x-request-id'];
 
-    // HTTP errors
-    if (axiosError.response) {
-      const { status, data } = axiosError.response;
-      const requestId = axiosError.response.headers['x-request-id'];
-      return createErrorFromResponse(status, data, requestId);
+    // Client errors are usually expected by the caller; server errors are not
+    const fields = { url, status, requestId };
+    if (status >= 500) {
+      this.logger.error('Response error', fields);
+    } else {
+      this.logger.warn('Response error', fields);
     }
 
-    // Unknown errors
-    return new NetworkError(
-      `Request failed: ${error.message}`,
-      axiosError
-    );
+    return createErrorFromResponse(status, data, requestId, response.headers, this.getErrorCodes());
   }
 
   /**
-   * Setup request/response interceptors
+   * Idempotency key for a request, unless the caller set one or opted out
    */
-  private setupInterceptors(): void {
-    // Request interceptor
-    this.client.interceptors.request.use(
-      (config) => {
-        if (this.config.debug) {
-          console.debug(`[${this.constructor.name}] → ${config.method?.toUpperCase()} ${config.url}`);
-        }
+  private getIdempotencyKey(
+    method: HttpMethod,
+    headers: Record<string, string>,
+    config?: RequestConfig
+  ): string | undefined {
+    if (config?.idempotencyKey === false) {
+      return undefined;
+    }
+    if (config?.idempotencyKey) {
+      return config.idempotencyKey;
+    }
+    if (
+      !IDEMPOTENT_KEY_METHODS.includes(method) ||
+      this.config.idempotencyKeys === false ||
+      this.hasHeader(headers, 'Idempotency-Key')
+    ) {
+      return undefined;
+    }
+    return generateIdempotencyKey();
+  }
 
-        // Add authentication token if available
-        if (this.config.authToken) {
-          config.headers.Authorization = `Bearer ${this.config.authToken}`;
-        }
+  /**
+   * Header value, matched case-insensitively
+   */
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : headers[key];
+  }
 
-        return config;
-      },
-      (error) => {
-        if (this.config.debug) {
-          console.error(`[${this.constructor.name}] Request interceptor error:`, error.message);
-        }
-        return Promise.reject(error);
-      }
-    );
-
-    // Response interceptor
-    this.client.interceptors.response.use(
-      (response) => {
-        if (this.config.debug) {
-          console.debug(`[${this.constructor.name}] ← ${response.status} ${response.config.url}`);
-        }
-        return response;
-      },
-      (error) => {
-        if (this.config.debug) {
-          console.error(`[${this.constructor.name}] Response error:`, {
-            status: error.response?.status,
-            url: error.config?.url,
-            message: error.message,
-          });
-        }
-        return Promise.reject(error);
+  private hasHeader(headers: Record<string, string>, name: string): boolean {
+    return this.getHeader(headers, name) !== undefined;
+  }
+
+  /**
+   * Drop headers whose value is not set
+   */
+  private definedHeaders(headers: Record<string, string | undefined>): Record<string, string> {
+    const defined: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      if (value !== undefined) {
+        defined[name] = value;
       }
-    );
+    });
+    return defined;
   }
 
   /**
@@ -0,0 +1,104 @@
+import { BaseClient } from '../client/baseClient';
+import { NetworkError } from '../errors/clientErrors';
+import { MemoryTransport } from '../transport/memoryTransport';
+import {
+  ApiType,
+  ClientConfig,
+  ENDPOINTS,
+  Environment,
+  getEndpoint,
+  getEndpoints,
+  getEnvironments,
+  registerEnvironment,
+  unregisterEnvironment,
+} from './environment';
+
+class TestClient extends BaseClient {
+  constructor(config: Partial<ClientConfig>) {
+    super({ environment: Environment.STAGING, apiType: ApiType.EXTERNAL, retries: 0, ...config });
+  }
+}
+
+const meta = { requestId: 'req-1', timestamp: '2026-01-01T00:00:00.000Z' };
+const STAGING = ENDPOINTS[Environment.STAGING][ApiType.EXTERNAL] as string;
+const STAGING_GULF = 'https://staging.me-central-1.api.tutenet.com/v1';
+
+describe('environments', () => {
+  afterEach(() => {
+    unregisterEnvironment(Environment.STAGING);
+    unregisterEnvironment('local');
+  });
+
+  it('resolves a built-in environment to its endpoint', () => {
+    expect(getEndpoints(Environment.STAGING, ApiType.EXTERNAL)).toEqual([STAGING]);
+    expect(getEndpoint(Environment.STAGING, ApiType.EXTERNAL)).toBe(STAGING);
+  });
+
+  it('adds failover regions to a built-in environment', () => {
+    registerEnvironment(Environment.STAGING, { endpoints: [STAGING, `${STAGING_GULF}/`] });
+
+    expect(getEndpoints(Environment.STAGING, ApiType.EXTERNAL)).toEqual([STAGING, STAGING_GULF]);
+    expect(getEnvironments().filter(name => name === Environment.STAGING)).toHaveLength(1);
+  });
+
+  it('restores the built-in endpoints once unregistered', () => {
+    registerEnvironment(Environment.STAGING, { endpoints: [STAGING, STAGING_GULF] });
+
+    expect(unregisterEnvironment(Environment.STAGING)).toBe(true);
+    expect(getEndpoints(Environment.STAGING, ApiType.EXTERNAL)).toEqual([STAGING]);
+  });
+
+  it('resolves per-service endpoints of a registered environment', () => {
+    registerEnvironment('local', {
+      endpoints: 'http://localhost:3000/v1',
+      services: { SearchClient: ['http://localhost:3004/v1', 'http://localhost:3005/v1'] },
+    });
+
+    expect(getEndpoints('local', ApiType.EXTERNAL)).toEqual(['http://localhost:3000/v1']);
+    expect(getEndpoints('local', ApiType.EXTERNAL, 'SearchClient')).toEqual([
+      'http://localhost:3004/v1',
+      'http://localhost:3005/v1',
+    ]);
+  });
+
+  it('rejects an environment without endpoints or with an invalid one', () => {
+    expect(() => registerEnvironment('local', { endpoints: [] })).toThrow('at least one endpoint');
+    expect(() => registerEnvironment(Environment.STAGING, { endpoints: [STAGING, 'ftp://files'] })).toThrow();
+    expect(getEndpoints(Environment.STAGING, ApiType.EXTERNAL)).toEqual([STAGING]);
+  });
+
+  it('fails a built-in environment over to its extra region', async () => {
+    registerEnvironment(Environment.STAGING, { endpoints: [STAGING, STAGING_GULF] });
+    const transport = new MemoryTransport().on('GET', '/library', (request) => {
+      if (request.baseUrl === STAGING) {
+        throw new NetworkError('Region unreachable');
+      }
+      return { data: { success: true, data: { servedBy: request.baseUrl }, meta } };
+    });
+    const client = new TestClient({ transport });
+    const served = jest.fn();
+    client.getFailover()!.on('served', served);
+
+    const response = await client.get<any>('/library');
+
+    expect(response.data).toEqual({ servedBy: STAGING_GULF });
+    expect(transport.requests.map(request => request.baseUrl)).toEqual([STAGING, STAGING_GULF]);
+    expect(client.getBaseUrl()).toBe(STAGING_GULF);
+    expect(served).toHaveBeenCalledWith({ endpoint: STAGING_GULF, primary: false });
+  });
+
+  it('fails over when the primary region answers 503', async () => {
+    registerEnvironment(Environment.STAGING, { endpoints: [STAGING, STAGING_GULF] });
+    const transport = new MemoryTransport().on('GET', '/library', (request) => (
+      request.baseUrl === STAGING
+        ? { status: 503, data: { success: false, error: { code: 'SERVICE_UNAVAILABLE', message: 'Down' }, meta } }
+        : { data: { success: true, data: { servedBy: request.baseUrl }, meta } }
+    ));
+    const client = new TestClient({ transport });
+
+    const response = await client.get<any>('/library');
+
+    expect(response).toMatchObject({ success: true, data: { servedBy: STAGING_GULF } });
+    expect(client.getBaseUrl()).toBe(STAGING_GULF);
+  });
+});
@@ -2,6 +2,21 @@
  * Environment configuration for TuteNet clients
  */
 
+import type { Transport, TransportType } from '../transport/transport';
+import type { Middleware, MiddlewarePipeline } from '../middleware/middleware';
+import type { TokenProvider } from '../auth/tokenProvider';
+import type { CircuitBreaker, CircuitBreakerOptions } from '../utils/circuitBreaker';
+import type { ResponseCache, ResponseCacheOptions } from '../cache/responseCache';
+import type { RequestPriority, RequestScheduler, RequestSchedulerOptions } from '../utils/requestScheduler';
+import type { Tracer } from '../tracing/tracer';
+import type { TraceContext } from '../tracing/traceContext';
+import type { Logger } from '../logging/logger';
+import type { RedactionOptions } from '../logging/redaction';
+import type { MetricsSink } from '../metrics/metrics';
+import type { EndpointFailoverOptions } from '../utils/endpointFailover';
+import type { ResponseValidationMode } from '../schema/schema';
+import type { ErrorMode } from '../errors/errorMode';
+
 /**
  * Supported environments
  */
@@ -11,6 +26,11 @@ export enum Environment {
   PRODUCTION = 'production',
 }
 
+/**
+ * Built-in environment or the name of a registered one (see registerEnvironment)
+ */
+export type EnvironmentName = Environment | (string & {});
+
 /**
  * API types
  */
@@ -18,12 +38,90 @@ export enum ApiType {
   EXTERNAL = 'external', // Public API Gateway
 }
 
+/**
+ * Optional client behaviour shared by every service client configuration
+ */
+export interface ClientOptions {
+  /** HTTP transport: 'axios', 'fetch' or a custom Transport (default: axios when installed, fetch otherwise) */
+  transport?: Transport | TransportType;
+
+  /** Middleware to install, or a pipeline shared with other clients */
+  middleware?: Middleware[] | MiddlewarePipeline;
+
+  /** Access token source with refresh support (takes precedence over authToken) */
+  tokenProvider?: TokenProvider;
+
+  /**
+   * Fail fast while a service route keeps failing: true for the defaults,
+   * options, or a breaker shared with other clients (default: disabled)
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreaker;
+
+  /**
+   * Concurrency cap and rate limit. Options configure the scheduler shared by
+   * all clients of the same base URL; pass a scheduler to share it explicitly
+   * (default: unlimited)
+   */
+  scheduler?: RequestSchedulerOptions | RequestScheduler;
+
+  /** Default scheduling priority of this client's requests, e.g. 'low' for background sync (default: 'normal') */
+  priority?: RequestPriority;
+
+  /**
+   * Cache GET responses: true for an in-memory cache, options, or a cache
+   * shared with other clients (default: disabled)
+   */
+  cache?: boolean | ResponseCacheOptions | ResponseCache;
+
+  /** Send an Idempotency-Key with POST and PATCH requests, reused across retries (default: true) */
+  idempotencyKeys?: boolean;
+
+  /** Receives one span per call (default: none; trace context is still propagated) */
+  tracer?: Tracer;
+
+  /**
+   * Parent trace context of calls that do not pass one, e.g. the incoming
+   * request's context kept in AsyncLocalStorage
+   */
+  traceContext?: () => TraceContext | string | undefined;
+
+  /** Send `traceparent` and `tracestate` headers (default: true) */
+  propagateTraceContext?: boolean;
+
+  /** Structured logger; each client logs through a child (default: console, silent unless debug is set) */
+  logger?: Logger;
+
+  /** Additional redaction rules; credentials, tokens, passwords and emails are always masked */
+  redaction?: RedactionOptions;
+
+  /** Receives request, error, latency and retry metrics (default: none) */
+  metrics?: MetricsSink;
+
+  /** Failover behaviour when several endpoints are configured */
+  failover?: EndpointFailoverOptions;
+
+  /**
+   * Check responses against their published schemas: 'strict' rejects
+   * mismatches with a ResponseValidationError, 'warn' logs them (default: 'off')
+   */
+  responseValidation?: ResponseValidationMode;
+
+  /**
+   * 'result' resolves every failure to an ErrorResponse, 'throw' rejects every
+   * failure with a ClientError (default: API error bodies resolve, other failures reject)
+   */
+  errorMode?: ErrorMode;
+}
+
 /**
  * Client configuration interface
  */
-export interface ClientConfig {
-  /** Target environment */
-  environment: Environment;
+export interface ClientConfig extends ClientOptions {
+  /** Target environment: built-in or registered */
+  environment: EnvironmentName;
+
+  /** Base URL of the API, or base URLs in failover order; takes precedence over the environment's endpoints */
+  baseUrl?: EndpointList;
   
   /** API type */
   apiType: ApiType;
@@ -34,7 +132,7 @@ export interface ClientConfig {
   /** Number of retry attempts */
   retries?: number;
   
-  /** Enable debug logging */
+  /** Log requests at debug level to the console when no logger is set */
   debug?: boolean;
   
   /** Authentication token */
@@ -47,8 +145,10 @@ export interface ClientConfig {
 /**
  * Environment-specific API endpoints
  * Updated with actual deployed AWS API Gateway endpoints
+ *
+ * An API type may list several endpoints in failover order (primary first).
  */
-export const ENDPOINTS = {
+export const ENDPOINTS: Record<Environment, Partial<Record<ApiType, EndpointList>>> = {
   [Environment.DEVELOPMENT]: {
     [ApiType.EXTERNAL]: 'https://dev-api.tutenet.com/v1',
   },
@@ -59,7 +159,99 @@ export const ENDPOINTS = {
   [Environment.PRODUCTION]: {
     [ApiType.EXTERNAL]: 'https://api.tutenet.com/v1',
   },
-} as const;
+};
+
+/**
+ * A base URL, or base URLs in failover order (primary first)
+ */
+export type EndpointList = string | string[];
+
+/**
+ * Endpoints of a registered environment
+ */
+export interface EnvironmentDefinition {
+  /** Base URLs per API type, or the same base URLs for all of them */
+  endpoints: EndpointList | Partial<Record<ApiType, EndpointList>>;
+
+  /**
+   * Base URLs of individual services, keyed by client class name
+   * (e.g. `{ SearchClient: 'http://localhost:3004/v1' }`)
+   */
+  services?: Record<string, EndpointList>;
+}
+
+const customEnvironments = new Map<string, EnvironmentDefinition>();
+
+/**
+ * Register a named environment, e.g. a local docker stack or a per-PR preview
+ *
+ * Registering a name again replaces its definition. Registering a built-in
+ * environment overrides its endpoints, e.g. to add failover regions;
+ * unregistering it restores the built-in endpoints.
+ *
+ * @example
+ * ```typescript
+ * registerEnvironment('local', {
+ *   endpoints: 'http://localhost:3000/v1',
+ *   services: { SearchClient: 'http://localhost:3004/v1' },
+ * });
+ *
+ * const search = new SearchClient({ environment: 'local' });
+ *
+ * // Fail staging over to a second region
+ * registerEnvironment(Environment.STAGING, {
+ *   endpoints: [
+ *     getEndpoint(Environment.STAGING, ApiType.EXTERNAL),
+ *     'https://staging.me-central-1.api.tutenet.com/v1',
+ *   ],
+ * });
+ * ```
+ */
+export function registerEnvironment(name: string, definition: EnvironmentDefinition): void {
+  if (!name.trim()) {
+    throw new Error('Environment name must not be empty');
+  }
+
+  const lists = isEndpointList(definition.endpoints)
+    ? [definition.endpoints]
+    : Object.values(definition.endpoints) as EndpointList[];
+  if (lists.length === 0 || lists.some(list => toEndpoints(list).length === 0)) {
+    throw new Error(`Environment "${name}" must define at least one endpoint`);
+  }
+  [...lists, ...Object.values(definition.services ?? {})].forEach(list => {
+    toEndpoints(list).forEach(validateBaseUrl);
+  });
+
+  customEnvironments.set(name, {
+    endpoints: isEndpointList(definition.endpoints)
+      ? definition.endpoints
+      : { ...definition.endpoints },
+    services: definition.services ? { ...definition.services } : undefined,
+  });
+}
+
+/**
+ * Remove a registered environment
+ *
+ * @returns True if the environment was registered
+ */
+export function unregisterEnvironment(name: string): boolean {
+  return customEnvironments.delete(name);
+}
+
+/**
+ * Names of all built-in and registered environments
+ */
+export function getEnvironments(): string[] {
+  return [...new Set<string>([...Object.values(Environment), ...customEnvironments.keys()])];
+}
+
+/**
+ * Whether an environment is built-in or registered
+ */
+export function isKnownEnvironment(name: string): boolean {
+  return getEnvironments().includes(name);
+}
 
 /**
  * Default client configuration
@@ -71,6 +263,22 @@ export const DEFAULT_CONFIG: Partial<ClientConfig> = {
   apiType: ApiType.EXTERNAL,
 };
 
+/**
+ * Merge client configuration with defaults
+ *
+ * Options explicitly set to undefined (e.g. `retries: config.retries` in
+ * service client constructors) fall back to their default value.
+ */
+export function applyDefaults(config: ClientConfig): ClientConfig {
+  const merged: Record<string, unknown> = { ...DEFAULT_CONFIG };
+  Object.entries(config).forEach(([key, value]) => {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+  return merged as unknown as ClientConfig;
+}
+
 /**
  * Auto-detect environment from process.env
  */
@@ -102,21 +310,99 @@ export function detectEnvironment(): Environment {
 
 /**
  * Get API endpoint for environment and type
+ *
+ * @param service - Client class name, for environments with per-service endpoints
+ * @throws Error if the environment is unknown or has no endpoint for the API type
  */
-export function getEndpoint(environment: Environment, apiType: ApiType): string {
-  const endpoint = ENDPOINTS[environment]?.[apiType];
-  if (!endpoint) {
+export function getEndpoint(environment: EnvironmentName, apiType: ApiType, service?: string): string {
+  return getEndpoints(environment, apiType, service)[0];
+}
+
+/**
+ * Get API endpoints for environment and type, in failover order
+ *
+ * @param service - Client class name, for environments with per-service endpoints
+ * @throws Error if the environment is unknown or has no endpoint for the API type
+ */
+export function getEndpoints(environment: EnvironmentName, apiType: ApiType, service?: string): string[] {
+  const custom = customEnvironments.get(environment);
+  if (custom) {
+    const serviceEndpoints = service ? custom.services?.[service] : undefined;
+    const endpoints = serviceEndpoints ?? (
+      isEndpointList(custom.endpoints) ? custom.endpoints : custom.endpoints[apiType]
+    );
+    if (!endpoints) {
+      throw new Error(`No endpoint configured for ${environment}/${apiType}`);
+    }
+    return toEndpoints(endpoints).map(normalizeBaseUrl);
+  }
+
+  if (!isKnownEnvironment(environment)) {
+    throw new Error(unknownEnvironmentMessage(environment));
+  }
+
+  const endpoints = ENDPOINTS[environment as Environment]?.[apiType];
+  if (!endpoints) {
     throw new Error(`No endpoint configured for ${environment}/${apiType}`);
   }
-  return endpoint;
+  return toEndpoints(endpoints).map(normalizeBaseUrl);
+}
+
+/**
+ * Endpoints of an endpoint list
+ */
+export function toEndpoints(list: EndpointList): string[] {
+  return typeof list === 'string' ? [list] : [...list];
+}
+
+function isEndpointList(value: unknown): value is EndpointList {
+  return typeof value === 'string' || Array.isArray(value);
+}
+
+/**
+ * Validate a base URL: absolute http(s) URL without query or fragment
+ *
+ * @throws Error describing what is wrong with the URL
+ */
+export function validateBaseUrl(baseUrl: string): void {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`Invalid base URL "${baseUrl}": must be an absolute URL such as https://api.example.com/v1`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Invalid base URL "${baseUrl}": protocol must be http or https`);
+  }
+  if (url.search || url.hash) {
+    throw new Error(`Invalid base URL "${baseUrl}": must not contain a query string or fragment`);
+  }
+}
+
+/**
+ * Base URL without trailing slashes, so that paths can be appended
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function unknownEnvironmentMessage(environment: string): string {
+  return `Unknown environment "${environment}". Known environments: ${getEnvironments().join(', ')}. ` +
+    'Register it with registerEnvironment() or set baseUrl.';
 }
 
 /**
  * Validate environment configuration
  */
 export function validateConfig(config: ClientConfig): void {
-  if (!Object.values(Environment).includes(config.environment)) {
-    throw new Error(`Invalid environment: ${config.environment}`);
+  if (config.baseUrl !== undefined) {
+    const endpoints = toEndpoints(config.baseUrl);
+    if (endpoints.length === 0) {
+      throw new Error('baseUrl must contain at least one URL');
+    }
+    endpoints.forEach(validateBaseUrl);
+  } else if (!isKnownEnvironment(config.environment)) {
+    throw new Error(unknownEnvironmentMessage(config.environment));
   }
   
   if (!Object.values(ApiType).includes(config.apiType)) {
@@ -2,6 +2,10 @@
  * Client error classes for consistent error handling across all TuteNet clients
  */
 
+import { RateLimitInfo, parseRateLimitHeaders, parseRetryAfter } from '../utils/rateLimit';
+import type { ValidationIssue } from '../schema/schema';
+import type { ErrorCodeRegistry } from './errorCodes';
+
 /**
  * Error response structure from TuteNet APIs
  */
@@ -71,12 +75,16 @@ export class NetworkError extends ClientError {
  * Validation errors (400 Bad Request)
  */
 export class ValidationError extends ClientError {
+  /**
+   * @param code - Error code (default: 'VALIDATION_ERROR'; subclasses pass the backend code)
+   */
   constructor(
     message: string,
     details?: Record<string, string>,
-    requestId?: string
+    requestId?: string,
+    code: string = 'VALIDATION_ERROR'
   ) {
-    super(message, 'VALIDATION_ERROR', 400, details, requestId);
+    super(message, code, 400, details, requestId);
   }
 
   static isValidationError(error: any): error is ValidationError {
@@ -88,8 +96,16 @@ export class ValidationError extends ClientError {
  * Authentication errors (401 Unauthorized)
  */
 export class AuthenticationError extends ClientError {
-  constructor(message: string = 'Authentication required', requestId?: string) {
-    super(message, 'AUTHENTICATION_ERROR', 401, undefined, requestId);
+  /**
+   * @param code - Error code (default: 'AUTHENTICATION_ERROR'; subclasses pass the backend code)
+   */
+  constructor(
+    message: string = 'Authentication required',
+    requestId?: string,
+    details?: Record<string, string>,
+    code: string = 'AUTHENTICATION_ERROR'
+  ) {
+    super(message, code, 401, details, requestId);
   }
 
   static isAuthenticationError(error: any): error is AuthenticationError {
@@ -101,8 +117,16 @@ export class AuthenticationError extends ClientError {
  * Authorization errors (403 Forbidden)
  */
 export class AuthorizationError extends ClientError {
-  constructor(message: string = 'Insufficient permissions', requestId?: string) {
-    super(message, 'AUTHORIZATION_ERROR', 403, undefined, requestId);
+  /**
+   * @param code - Error code (default: 'AUTHORIZATION_ERROR'; subclasses pass the backend code)
+   */
+  constructor(
+    message: string = 'Insufficient permissions',
+    requestId?: string,
+    details?: Record<string, string>,
+    code: string = 'AUTHORIZATION_ERROR'
+  ) {
+    super(message, code, 403, details, requestId);
   }
 
   static isAuthorizationError(error: any): error is AuthorizationError {
@@ -114,11 +138,11 @@ export class AuthorizationError extends ClientError {
  * Not found errors (404 Not Found)
  */
 export class NotFoundError extends ClientError {
-  constructor(resource: string, identifier?: string, requestId?: string) {
+  constructor(resource: string, identifier?: string, requestId?: string, details?: Record<string, string>) {
     const message = identifier 
       ? `${resource} not found: ${identifier}`
       : `${resource} not found`;
-    super(message, 'NOT_FOUND_ERROR', 404, undefined, requestId);
+    super(message, 'NOT_FOUND_ERROR', 404, details, requestId);
   }
 
   static isNotFoundError(error: any): error is NotFoundError {
@@ -130,8 +154,16 @@ export class NotFoundError extends ClientError {
  * Conflict errors (409 Conflict)
  */
 export class ConflictError extends ClientError {
-  constructor(message: string, requestId?: string) {
-    super(message, 'CONFLICT_ERROR', 409, undefined, requestId);
+  /**
+   * @param code - Error code (default: 'CONFLICT_ERROR'; subclasses pass the backend code)
+   */
+  constructor(
+    message: string,
+    requestId?: string,
+    details?: Record<string, string>,
+    code: string = 'CONFLICT_ERROR'
+  ) {
+    super(message, code, 409, details, requestId);
   }
 
   static isConflictError(error: any): error is ConflictError {
@@ -143,10 +175,15 @@ export class ConflictError extends ClientError {
  * Rate limit errors (429 Too Many Requests)
  */
 export class RateLimitError extends ClientError {
+  /**
+   * @param retryAfter - Seconds to wait before retrying (from Retry-After)
+   * @param rateLimit - Server quota (from X-RateLimit-* headers)
+   */
   constructor(
     message: string = 'Rate limit exceeded',
     public readonly retryAfter?: number,
-    requestId?: string
+    requestId?: string,
+    public readonly rateLimit?: RateLimitInfo
   ) {
     super(message, 'RATE_LIMIT_ERROR', 429, undefined, requestId);
   }
@@ -177,7 +214,10 @@ export class ServerError extends ClientError {
  * Service unavailable errors (503)
  */
 export class ServiceUnavailableError extends ClientError {
-  constructor(serviceName: string, requestId?: string) {
+  /**
+   * @param retryAfter - Seconds to wait before retrying (from Retry-After)
+   */
+  constructor(serviceName: string, requestId?: string, public readonly retryAfter?: number) {
     super(`${serviceName} is temporarily unavailable`, 'SERVICE_UNAVAILABLE_ERROR', 503, undefined, requestId);
   }
 
@@ -199,33 +239,162 @@ export class TimeoutError extends ClientError {
   }
 }
 
+/**
+ * Aborted request errors (the caller's AbortSignal fired)
+ */
+export class AbortedError extends ClientError {
+  /**
+   * @param reason - The signal's abort reason
+   */
+  constructor(message: string = 'Request was aborted', public readonly reason?: unknown, requestId?: string) {
+    super(message, 'ABORTED_ERROR', undefined, undefined, requestId);
+  }
+
+  static isAbortedError(error: any): error is AbortedError {
+    return error instanceof AbortedError;
+  }
+}
+
+/**
+ * Circuit open errors (request rejected without calling the service)
+ */
+export class CircuitOpenError extends ClientError {
+  /**
+   * @param service - Client whose circuit is open (e.g. 'LibraryClient')
+   * @param route - Route template of the circuit (e.g. 'GET /library/collections/:id')
+   * @param retryAfter - Seconds until the circuit lets a trial request through
+   */
+  constructor(
+    public readonly service: string,
+    public readonly route: string,
+    public readonly retryAfter?: number
+  ) {
+    super(`Circuit open for ${service} ${route}`, 'CIRCUIT_OPEN_ERROR', undefined, undefined, undefined);
+  }
+
+  static isCircuitOpenError(error: any): error is CircuitOpenError {
+    return error instanceof CircuitOpenError;
+  }
+}
+
+/**
+ * Response validation errors (a response does not match its documented schema)
+ */
+export class ResponseValidationError extends ClientError {
+  /**
+   * @param issues - Offending paths with what was expected and received
+   * @param route - Route of the request (e.g. 'GET /library/collections')
+   */
+  constructor(
+    public readonly issues: ValidationIssue[],
+    public readonly route?: string,
+    requestId?: string
+  ) {
+    super(
+      `Response${route ? ` of ${route}` : ''} does not match its schema: ${formatIssues(issues)}`,
+      'RESPONSE_VALIDATION_ERROR',
+      undefined,
+      undefined,
+      requestId
+    );
+  }
+
+  /**
+   * Offending paths, e.g. ['data.items[0].resourceId']
+   */
+  get paths(): string[] {
+    return this.issues.map(issue => issue.path || '(root)');
+  }
+
+  toJSON(): Record<string, any> {
+    return { ...super.toJSON(), route: this.route, issues: this.issues };
+  }
+
+  static isResponseValidationError(error: any): error is ResponseValidationError {
+    return error instanceof ResponseValidationError;
+  }
+}
+
+/**
+ * Request with no matching entry in a replayed cassette
+ */
+export class CassetteMismatchError extends ClientError {
+  /**
+   * @param method - HTTP method of the unmatched request
+   * @param url - Path and query of the unmatched request
+   * @param cassette - Name of the cassette being replayed
+   */
+  constructor(
+    public readonly method: string,
+    public readonly url: string,
+    public readonly cassette?: string
+  ) {
+    super(
+      `No ${cassette ? `entry in cassette '${cassette}'` : 'cassette entry'} matches ${method} ${url}`,
+      'CASSETTE_MISMATCH_ERROR',
+      undefined,
+      undefined,
+      undefined
+    );
+  }
+
+  static isCassetteMismatchError(error: any): error is CassetteMismatchError {
+    return error instanceof CassetteMismatchError;
+  }
+}
+
+/**
+ * List issues in an error message, up to a few
+ */
+function formatIssues(issues: ValidationIssue[], limit = 5): string {
+  const listed = issues
+    .slice(0, limit)
+    .map(issue => `${issue.path || '(root)'}: ${issue.message}`)
+    .join('; ');
+  return issues.length > limit ? `${listed}; and ${issues.length - limit} more` : listed;
+}
+
 /**
  * Create appropriate error from HTTP response
+ *
+ * A backend `error.code` found in the service's registry selects its specific
+ * error class; otherwise the HTTP status does.
+ *
+ * @param headers - Response headers with lower-cased names, used for Retry-After and X-RateLimit-*
+ * @param errorCodes - Error codes of the service that answered
  */
 export function createErrorFromResponse(
   status: number,
   data: any,
-  requestId?: string
+  requestId?: string,
+  headers: Record<string, string> = {},
+  errorCodes?: ErrorCodeRegistry
 ): ClientError {
   const errorData = data?.error;
   const message = errorData?.message || `HTTP ${status} error`;
   const details = errorData?.details;
+  const retryAfter = parseRetryAfter(headers['retry-after']);
+
+  const coded = errorCodes?.create(errorData?.code, message, details, requestId);
+  if (coded) {
+    return coded;
+  }
 
   switch (status) {
     case 400:
       return new ValidationError(message, details, requestId);
     case 401:
-      return new AuthenticationError(message, requestId);
+      return new AuthenticationError(message, requestId, details);
     case 403:
-      return new AuthorizationError(message, requestId);
+      return new AuthorizationError(message, requestId, details);
     case 404:
-      return new NotFoundError(message, undefined, requestId);
+      return new NotFoundError(message, undefined, requestId, details);
     case 409:
-      return new ConflictError(message, requestId);
+      return new ConflictError(message, requestId, details);
     case 429:
-      return new RateLimitError(message, undefined, requestId);
+      return new RateLimitError(message, retryAfter, requestId, parseRateLimitHeaders(headers));
     case 503:
-      return new ServiceUnavailableError(message, requestId);
+      return new ServiceUnavailableError(message, requestId, retryAfter);
     default:
       if (status >= 500) {
         return new ServerError(message, status, requestId);
@@ -245,9 +414,12 @@ export function isClientError(error: any): error is ClientError {
  * Type guard to check if error should be retried
  */
 export function isRetryableError(error: any): boolean {
+  // The caller cancelled; never retry
+  if (AbortedError.isAbortedError(error)) return false;
   if (NetworkError.isNetworkError(error)) return true;
   if (TimeoutError.isTimeoutError(error)) return true;
   if (RateLimitError.isRateLimitError(error)) return true;
+  if (ServiceUnavailableError.isServiceUnavailableError(error)) return true;
   if (ServerError.isServerError(error) && error.statusCode && error.statusCode >= 500) return true;
   return false;
 }
\ No newline at end of file
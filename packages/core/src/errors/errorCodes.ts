@@ -0,0 +1,78 @@
+/**
+ * Registries of backend error codes mapped to specific error classes
+ *
+ * Each service declares the `error.code` values its API returns and the
+ * ClientError subclass for each. Clients consult their service's registry
+ * before falling back to the HTTP status.
+ */
+
+import { ClientError } from './clientErrors';
+
+/**
+ * Error class built from an error response body
+ */
+export type CodedErrorClass<E extends ClientError = ClientError> = new (
+  message: string,
+  details?: Record<string, string>,
+  requestId?: string
+) => E;
+
+/**
+ * Error codes of one service and their error classes
+ *
+ * @example
+ * ```typescript
+ * export const LIBRARY_ERROR_CODES = new ErrorCodeRegistry('library', {
+ *   DUPLICATE_LIBRARY_ITEM: DuplicateLibraryItemError,
+ *   DUPLICATE_COLLECTION_NAME: DuplicateCollectionNameError,
+ * });
+ *
+ * LIBRARY_ERROR_CODES.create('DUPLICATE_LIBRARY_ITEM', 'Already saved'); // DuplicateLibraryItemError
+ * ```
+ */
+export class ErrorCodeRegistry<TError extends ClientError = ClientError> {
+  private readonly classes: Map<string, CodedErrorClass<TError>>;
+
+  /**
+   * @param service - Service name, for diagnostics
+   * @param classes - Error class for each backend error code
+   */
+  constructor(readonly service: string, classes: Record<TError['code'], CodedErrorClass<TError>>) {
+    this.classes = new Map(Object.entries(classes) as Array<[string, CodedErrorClass<TError>]>);
+  }
+
+  /**
+   * Error codes in the registry
+   */
+  get codes(): Array<TError['code']> {
+    return [...this.classes.keys()] as Array<TError['code']>;
+  }
+
+  /**
+   * Whether an error code is in the registry
+   */
+  has(code: unknown): code is TError['code'] {
+    return typeof code === 'string' && this.classes.has(code);
+  }
+
+  /**
+   * Error for a code in the registry, or undefined for unknown codes
+   */
+  create(
+    code: string,
+    message: string,
+    details?: Record<string, string>,
+    requestId?: string
+  ): TError | undefined {
+    const ErrorClass = this.classes.get(code);
+    return ErrorClass ? new ErrorClass(message, details, requestId) : undefined;
+  }
+
+  /**
+   * Whether an error was created from a code in the registry
+   */
+  isError(error: unknown): error is TError {
+    const ErrorClass = error instanceof ClientError ? this.classes.get(error.code) : undefined;
+    return ErrorClass !== undefined && error instanceof ErrorClass;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Error handling modes and helpers for API response envelopes
+ */
+
+import type { ApiResponse, ErrorResponse, SuccessResponse } from '../types/apiTypes';
+import { ClientError, createErrorFromResponse, isClientError } from './clientErrors';
+import type { ErrorCodeRegistry } from './errorCodes';
+
+/**
+ * How a client reports failures
+ *
+ * - 'result': every failure, including network errors and timeouts, resolves
+ *   to an ErrorResponse
+ * - 'throw': every failure, including `success: false` bodies, rejects with a
+ *   ClientError subclass
+ *
+ * Without a mode, API error bodies resolve as values and other failures reject.
+ */
+export type ErrorMode = 'result' | 'throw';
+
+/**
+ * Whether a response is an error envelope (success: false)
+ */
+export function isErrorResponse(response: unknown): response is ErrorResponse {
+  return typeof response === 'object' && response !== null && (response as { success?: unknown }).success === false;
+}
+
+/**
+ * Whether a response is a success envelope (success: true)
+ */
+export function isSuccessResponse<T>(
+  response: SuccessResponse<T> | ErrorResponse | ApiResponse<T>
+): response is SuccessResponse<T> {
+  return response.success === true;
+}
+
+/**
+ * Error envelope describing a thrown error
+ *
+ * @param requestId - Request ID to report when the error carries none
+ */
+export function toErrorResponse(error: unknown, requestId?: string): ErrorResponse {
+  const clientError = isClientError(error) ? error : undefined;
+  const response: ErrorResponse = {
+    success: false,
+    error: {
+      code: clientError?.code ?? 'UNKNOWN_ERROR',
+      message: error instanceof Error ? error.message : String(error),
+    },
+    meta: {
+      requestId: clientError?.requestId ?? requestId ?? '',
+      timestamp: new Date().toISOString(),
+    },
+  };
+  if (clientError?.details) {
+    response.error.details = clientError.details;
+  }
+  return response;
+}
+
+/**
+ * Client error for an error envelope
+ *
+ * @param status - HTTP status of the response; error statuses select the
+ * matching ClientError subclass
+ * @param headers - Response headers with lower-cased names
+ * @param errorCodes - Error codes of the service; known codes select their own subclass
+ */
+export function createErrorFromBody(
+  response: ErrorResponse,
+  status?: number,
+  headers?: Record<string, string>,
+  errorCodes?: ErrorCodeRegistry
+): ClientError {
+  const requestId = response.meta?.requestId;
+  if (status !== undefined && status >= 400) {
+    return createErrorFromResponse(status, response, requestId, headers, errorCodes);
+  }
+  const coded = errorCodes?.create(response.error?.code, response.error?.message, response.error?.details, requestId);
+  if (coded) {
+    return coded;
+  }
+  return new ClientError(
+    response.error?.message ?? 'Request failed',
+    response.error?.code ?? 'UNKNOWN_ERROR',
+    status,
+    response.error?.details,
+    requestId
+  );
+}
+
+/**
+ * Data of a success envelope
+ *
+ * @example
+ * ```typescript
+ * const { items } = unwrap(await library.getCollections(), LIBRARY_ERROR_CODES);
+ * ```
+ *
+ * @param errorCodes - Error codes of the service, to throw their specific subclasses
+ * @throws ClientError built from the envelope when it is an error response
+ */
+export function unwrap<T>(
+  response: SuccessResponse<T> | ErrorResponse | ApiResponse<T>,
+  errorCodes?: ErrorCodeRegistry
+): T {
+  if (isErrorResponse(response)) {
+    throw createErrorFromBody(response, undefined, undefined, errorCodes);
+  }
+  return response.data as T;
+}
@@ -5,12 +5,166 @@
  */
 
 // Environment and configuration
-export { Environment, ApiType, detectEnvironment } from './config/environment';
-export type { ClientConfig } from './config/environment';
+export {
+  Environment,
+  ApiType,
+  detectEnvironment,
+  getEndpoint,
+  getEndpoints,
+  getEnvironments,
+  isKnownEnvironment,
+  registerEnvironment,
+  unregisterEnvironment,
+  validateBaseUrl,
+} from './config/environment';
+export type {
+  ClientConfig,
+  ClientOptions,
+  EndpointList,
+  EnvironmentDefinition,
+  EnvironmentName,
+} from './config/environment';
 
 // Base client and HTTP utilities
 export { BaseClient } from './client/baseClient';
-export type { HttpClient, RequestConfig, ResponseData } from './client/baseClient';
+export type { HttpClient, RequestConfig, ResponseData, SendOptions } from './client/baseClient';
+
+// Authentication
+export { AuthSession } from './auth/authSession';
+export type {
+  AuthSessionEvent,
+  AuthSessionEvents,
+  AuthSessionOptions,
+  RefreshHandler,
+  SessionInfo,
+  SessionTokens,
+  SignOutReason
+} from './auth/authSession';
+export { decodeJwt, getJwtExpiry } from './auth/jwt';
+export type { JwtClaims } from './auth/jwt';
+export type { TokenProvider } from './auth/tokenProvider';
+export {
+  CookieTokenStore,
+  FileTokenStore,
+  MemoryTokenStore,
+  StorageTokenStore
+} from './auth/tokenStore';
+export type {
+  CookieDocument,
+  CookieTokenStoreOptions,
+  PersistentTokenStoreOptions,
+  StorageTokenStoreOptions,
+  TokenStore
+} from './auth/tokenStore';
+export { AesGcmTokenEncryption } from './auth/tokenEncryption';
+export type { TokenEncryption } from './auth/tokenEncryption';
+
+// Transports
+export { createTransport } from './transport/factory';
+export { AxiosTransport } from './transport/axiosTransport';
+export { FetchTransport } from './transport/fetchTransport';
+export { MemoryTransport } from './transport/memoryTransport';
+export { CASSETTE_VERSION, RecordingTransport, ReplayTransport } from './transport/cassette';
+export { resolveUrl } from './transport/transport';
+export type {
+  HttpMethod,
+  Transport,
+  TransportType,
+  TransportRequest,
+  TransportResponse
+} from './transport/transport';
+export type { FetchFunction } from './transport/fetchTransport';
+export type {
+  MemoryRequestContext,
+  MemoryResponse,
+  MemoryRouteHandler
+} from './transport/memoryTransport';
+export type {
+  Cassette,
+  CassetteEntry,
+  CassetteMatchField,
+  CassetteMatcher,
+  CassetteRequest,
+  CassetteResponse,
+  RecordingTransportOptions,
+  ReplayTransportOptions
+} from './transport/cassette';
+
+// Middleware
+export { MiddlewarePipeline, isTransportResponse } from './middleware/middleware';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareHandler
+} from './middleware/middleware';
+
+// Response cache
+export { ResponseCache } from './cache/responseCache';
+export type { CacheNextHandler, ResponseCacheOptions } from './cache/responseCache';
+export { MemoryCacheStore, StorageCacheStore } from './cache/cacheStore';
+export type {
+  CacheEntry,
+  CacheStore,
+  KeyValueStorage,
+  MemoryCacheStoreOptions,
+  StorageCacheStoreOptions
+} from './cache/cacheStore';
+
+// Tracing
+export { NoopTracer } from './tracing/tracer';
+export type {
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanOptions,
+  SpanStatus,
+  Tracer,
+} from './tracing/tracer';
+export {
+  TRACE_FLAG_SAMPLED,
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+  toTraceContext,
+  traceContextHeaders,
+} from './tracing/traceContext';
+export type { TraceContext } from './tracing/traceContext';
+
+// Logging
+export { ConsoleLogger, RedactingLogger, createClientLogger } from './logging/logger';
+export type {
+  ClientLoggerOptions,
+  ConsoleLike,
+  ConsoleLoggerOptions,
+  LogEntryLevel,
+  LogFields,
+  LogLevel,
+  Logger,
+} from './logging/logger';
+export { createRedactor, redact } from './logging/redaction';
+export type { RedactionOptions } from './logging/redaction';
+
+// Metrics
+export { CLIENT_METRICS, getErrorCode, getRequestTags, getStatusClass } from './metrics/metrics';
+export type { MetricTags, MetricsSink } from './metrics/metrics';
+export { DEFAULT_HISTOGRAM_BUCKETS, InMemoryMetrics } from './metrics/inMemoryMetrics';
+export type {
+  CounterSnapshot,
+  HistogramSnapshot,
+  InMemoryMetricsOptions,
+  MetricsSnapshot,
+} from './metrics/inMemoryMetrics';
+
+// Response validation
+export { schema, validateSchema } from './schema/schema';
+export type { ResponseValidationMode, Schema, SchemaShape, ValidationIssue } from './schema/schema';
+export {
+  ErrorResponseSchema,
+  MessageApiResponseSchema,
+  ResponseMetaSchema,
+  apiResponseSchema,
+  paginatedResponseSchema,
+} from './schema/apiSchemas';
 
 // Error handling
 export { 
@@ -25,10 +179,24 @@ export {
   RateLimitError,
   ServiceUnavailableError,
   TimeoutError,
+  AbortedError,
+  CircuitOpenError,
+  ResponseValidationError,
+  CassetteMismatchError,
   createErrorFromResponse,
   isClientError,
   isRetryableError
 } from './errors/clientErrors';
+export {
+  createErrorFromBody,
+  isErrorResponse,
+  isSuccessResponse,
+  toErrorResponse,
+  unwrap,
+} from './errors/errorMode';
+export type { ErrorMode } from './errors/errorMode';
+export { ErrorCodeRegistry } from './errors/errorCodes';
+export type { CodedErrorClass } from './errors/errorCodes';
 
 // Common types
 export type { 
@@ -77,6 +245,34 @@ export {
 } from './types/teachingTypes';
 
 // Utilities
-export { retry, exponentialBackoff } from './utils/retry';
+export { retry, exponentialBackoff, getRetryAfterDelay, sleep } from './utils/retry';
+export { throwIfAborted, raceAbort } from './utils/abort';
+export { generateId, generateIdempotencyKey, randomHex } from './utils/ids';
+export type { RetryConfig } from './utils/retry';
+export { parseRetryAfter, parseRateLimitHeaders } from './utils/rateLimit';
+export type { RateLimitInfo } from './utils/rateLimit';
+export { CircuitBreaker, getRouteTemplate, isCircuitFailure } from './utils/circuitBreaker';
+export type {
+  CircuitBreakerEvents,
+  CircuitBreakerOptions,
+  CircuitSnapshot,
+  CircuitState
+} from './utils/circuitBreaker';
+export { RequestScheduler, getSharedScheduler } from './utils/requestScheduler';
+export { EndpointFailover, isFailoverError } from './utils/endpointFailover';
+export type {
+  EndpointFailoverEvents,
+  EndpointFailoverOptions,
+  EndpointProbe,
+} from './utils/endpointFailover';
+export type {
+  RequestPriority,
+  RequestSchedulerOptions,
+  RequestSchedulerStats
+} from './utils/requestScheduler';
 export { validateEmail, validateRequired } from './utils/validation';
-export { sanitizeString, sanitizeArray } from './utils/sanitization';
\ No newline at end of file
+export { sanitizeString, sanitizeArray } from './utils/sanitization';
+export { ClockSkew } from './utils/clockSkew';
+export type { ClockSkewOptions } from './utils/clockSkew';
+export { TypedEventEmitter } from './utils/events';
+export type { AnyEvent, EventListener, Unsubscribe } from './utils/events';
\ No newline at end of file
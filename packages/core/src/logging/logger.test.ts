@@ -0,0 +1,61 @@
+import { ConsoleLike, ConsoleLogger, Logger, RedactingLogger, createClientLogger } from './logger';
+
+function createConsole(): jest.Mocked<ConsoleLike> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('RedactingLogger', () => {
+  it('redacts messages, fields and child fields', () => {
+    const output = createConsole();
+    const logger = new RedactingLogger(new ConsoleLogger({ level: 'debug', console: output }))
+      .child({ client: 'AuthClient', token: 'abc' });
+
+    logger.info('Signed in jane@example.com', { headers: { Authorization: 'Bearer abc.def' } });
+
+    expect(output.info).toHaveBeenCalledWith('[AuthClient] Signed in j***@example.com', {
+      token: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+    });
+  });
+
+  it('does not read the fields of entries the wrapped logger filters out', () => {
+    const output = createConsole();
+    const logger = new RedactingLogger(new ConsoleLogger({ level: 'warn', console: output }));
+    const fields = {
+      get error(): unknown {
+        throw new Error('fields were redacted');
+      },
+    };
+
+    expect(() => logger.debug('Request', fields)).not.toThrow();
+    expect(() => logger.info('Request', fields)).not.toThrow();
+    expect(() => logger.warn('Request', fields)).toThrow('fields were redacted');
+  });
+
+  it('skips redaction for the silent default client logger', () => {
+    const logger = createClientLogger({}, 'AuthClient');
+    const fields = {
+      get error(): unknown {
+        throw new Error('fields were redacted');
+      },
+    };
+
+    expect(logger.isLevelEnabled?.('error')).toBe(false);
+    expect(() => logger.error('Request failed', fields)).not.toThrow();
+  });
+
+  it('redacts every entry for loggers without isLevelEnabled', () => {
+    const custom: jest.Mocked<Logger> = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const logger = new RedactingLogger(custom);
+
+    logger.debug('Request', { password: 'hunter2' });
+
+    expect(custom.debug).toHaveBeenCalledWith('Request', { password: '[REDACTED]' });
+  });
+});
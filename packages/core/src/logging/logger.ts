@@ -0,0 +1,192 @@
+/**
+ * Pluggable structured logging for TuteNet clients
+ */
+
+import { RedactionOptions, createRedactor } from './redaction';
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured log fields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Levels an entry can be written at
+ */
+export type LogEntryLevel = Exclude<LogLevel, 'silent'>;
+
+/**
+ * Logger used by the clients
+ *
+ * Adapt pino, winston, bunyan or a custom backend by implementing these five
+ * methods; `child` returns a logger that adds its fields to every entry.
+ * Implement `isLevelEnabled` too so that filtered entries skip redaction.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+
+  /** Whether entries at this level are written (default: assumed true) */
+  isLevelEnabled?(level: LogEntryLevel): boolean;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Console methods used by ConsoleLogger
+ */
+export type ConsoleLike = Pick<Console, 'debug' | 'info' | 'warn' | 'error'>;
+
+/**
+ * ConsoleLogger configuration
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level written (default: 'info') */
+  level?: LogLevel;
+
+  /** Fields added to every entry */
+  fields?: LogFields;
+
+  /** Console to write to (default: the global console) */
+  console?: ConsoleLike;
+}
+
+/**
+ * Logger writing to the console
+ *
+ * Entries are written as `[client] message` followed by the remaining fields.
+ */
+export class ConsoleLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly fields: LogFields;
+  private readonly output: ConsoleLike;
+
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.fields = options.fields ?? {};
+    this.output = options.console ?? console;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isLevelEnabled(level: LogEntryLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.level];
+  }
+
+  child(fields: LogFields): Logger {
+    return new ConsoleLogger({
+      level: this.level,
+      fields: { ...this.fields, ...fields },
+      console: this.output,
+    });
+  }
+
+  private write(level: LogEntryLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const { client, ...rest } = { ...this.fields, ...fields };
+    const line = typeof client === 'string' ? `[${client}] ${message}` : message;
+    if (Object.keys(rest).length > 0) {
+      this.output[level](line, rest);
+    } else {
+      this.output[level](line);
+    }
+  }
+}
+
+/**
+ * Logger that redacts sensitive values before passing entries on
+ *
+ * Messages and fields (including nested objects and child logger fields)
+ * are redacted, so the wrapped logger never sees secrets. Entries at levels
+ * the wrapped logger filters out are dropped before redaction.
+ */
+export class RedactingLogger implements Logger {
+  private readonly redact: <T>(value: T) => T;
+
+  constructor(private readonly logger: Logger, private readonly options: RedactionOptions = {}) {
+    this.redact = createRedactor(options);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isLevelEnabled(level: LogEntryLevel): boolean {
+    return this.logger.isLevelEnabled?.(level) ?? true;
+  }
+
+  child(fields: LogFields): Logger {
+    return new RedactingLogger(this.logger.child(this.redact(fields)), this.options);
+  }
+
+  private write(level: LogEntryLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    this.logger[level](this.redact(message), fields && this.redact(fields));
+  }
+}
+
+/**
+ * Logger options shared by client configurations
+ */
+export interface ClientLoggerOptions {
+  /** Custom logger (default: console, silent unless debug is set) */
+  logger?: Logger;
+
+  /** Log every request at debug level to the console when no logger is set */
+  debug?: boolean;
+
+  /** Additional redaction rules */
+  redaction?: RedactionOptions;
+}
+
+/**
+ * Redacting child logger for one client
+ */
+export function createClientLogger(options: ClientLoggerOptions, client: string): Logger {
+  const logger = options.logger ?? new ConsoleLogger({ level: options.debug ? 'debug' : 'silent' });
+  return new RedactingLogger(logger, options.redaction).child({ client });
+}
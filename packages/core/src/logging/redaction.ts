@@ -0,0 +1,118 @@
+/**
+ * Redaction of secrets and personal data in log entries
+ */
+
+/**
+ * Redaction configuration
+ */
+export interface RedactionOptions {
+  /**
+   * Additional field names to redact; strings match case-insensitively,
+   * ignoring '-' and '_'
+   */
+  keys?: Array<string | RegExp>;
+
+  /** Mask email addresses in values and messages (default: true) */
+  emails?: boolean;
+
+  /** Replacement for redacted values (default: '[REDACTED]') */
+  replacement?: string;
+
+  /**
+   * Keep the shape of sensitive fields: replace only their strings, inside
+   * objects and arrays too, and leave numbers and booleans (default: false)
+   */
+  keepStructure?: boolean;
+}
+
+/**
+ * Field names redacted by default: credentials, tokens, passwords and
+ * verification codes (SignInRequest, ResetPasswordRequest, AuthTokens, ...)
+ */
+const SENSITIVE_KEY_PATTERN = /authorization|cookie|password|passwd|secret|token|apikey|credential|^code$|^otp$/;
+
+// Also matches URL-encoded addresses (`jane%40example.com`)
+const EMAIL_PATTERN = /([a-z0-9._%+-])[a-z0-9._%+-]*?(@|%40)([a-z0-9.-]+\.[a-z]{2,})/gi;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+
+const MAX_DEPTH = 8;
+
+/**
+ * Create a function that returns a redacted copy of a value
+ *
+ * Objects and arrays are copied with sensitive fields replaced; strings have
+ * bearer tokens, JWTs and (unless disabled) email addresses masked.
+ * Emails keep their first character and domain (`j***@example.com`).
+ */
+export function createRedactor(options: RedactionOptions = {}): <T>(value: T) => T {
+  const replacement = options.replacement ?? '[REDACTED]';
+  const extraKeys = (options.keys ?? []).map(key =>
+    typeof key === 'string' ? normalizeKey(key) : key
+  );
+
+  const isSensitiveKey = (key: string): boolean => {
+    const normalized = normalizeKey(key);
+    return SENSITIVE_KEY_PATTERN.test(normalized) || extraKeys.some(extra =>
+      typeof extra === 'string' ? extra === normalized : extra.test(key)
+    );
+  };
+
+  const redactString = (value: string): string => {
+    let redacted = value
+      .replace(BEARER_PATTERN, (_match, scheme: string) => `${scheme} ${replacement}`)
+      .replace(JWT_PATTERN, replacement);
+    if (options.emails !== false) {
+      redacted = redacted.replace(EMAIL_PATTERN, (_match, first: string, at: string, domain: string) => `${first}***${at}${domain}`);
+    }
+    return redacted;
+  };
+
+  const visit = (value: unknown, depth: number, seen: WeakSet<object>, masked = false): unknown => {
+    if (typeof value === 'string') {
+      return masked ? replacement : redactString(value);
+    }
+    if (typeof value !== 'object' || value === null || value instanceof Date) {
+      return value;
+    }
+    if (seen.has(value) || depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      const items = value.map(item => visit(item, depth + 1, seen, masked));
+      seen.delete(value);
+      return items;
+    }
+
+    // Errors carry their details in non-enumerable properties
+    const source: Record<string, unknown> = value instanceof Error
+      ? { ...value, name: value.name, message: value.message }
+      : value as Record<string, unknown>;
+
+    const copy: Record<string, unknown> = {};
+    Object.entries(source).forEach(([key, item]) => {
+      const sensitive = isSensitiveKey(key) && item !== undefined && item !== null;
+      copy[key] = sensitive && !options.keepStructure
+        ? replacement
+        : visit(item, depth + 1, seen, masked || sensitive);
+    });
+    // Only cycles are truncated; the same object may appear in several places
+    seen.delete(value);
+    return copy;
+  };
+
+  return <T>(value: T): T => visit(value, 0, new WeakSet()) as T;
+}
+
+/**
+ * Redact a value with the default rules
+ */
+export function redact<T>(value: T, options?: RedactionOptions): T {
+  return createRedactor(options)(value);
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
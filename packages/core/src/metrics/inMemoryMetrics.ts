@@ -0,0 +1,150 @@
+/**
+ * In-memory metrics aggregator
+ */
+
+import { MetricTags, MetricsSink } from './metrics';
+
+/**
+ * Default histogram bucket upper bounds, suited to latencies in milliseconds
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * InMemoryMetrics configuration
+ */
+export interface InMemoryMetricsOptions {
+  /** Histogram bucket upper bounds, ascending (default: DEFAULT_HISTOGRAM_BUCKETS) */
+  buckets?: number[];
+}
+
+/**
+ * Counter value for one name and tag set
+ */
+export interface CounterSnapshot {
+  name: string;
+  tags: MetricTags;
+  value: number;
+}
+
+/**
+ * Histogram summary for one name and tag set
+ */
+export interface HistogramSnapshot {
+  name: string;
+  tags: MetricTags;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+
+  /** Observations per bucket upper bound; the last entry (Infinity) counts the rest */
+  buckets: Array<{ le: number; count: number }>;
+}
+
+/**
+ * Copy of all aggregated metrics
+ */
+export interface MetricsSnapshot {
+  counters: CounterSnapshot[];
+  histograms: HistogramSnapshot[];
+}
+
+/**
+ * Metrics sink aggregating counters and histograms in memory
+ *
+ * Snapshot it in tests or serve it from an admin page.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new InMemoryMetrics();
+ * const library = new LibraryClient({ metrics });
+ *
+ * await library.getCollections();
+ * metrics.getCounter(CLIENT_METRICS.requests, { status_class: '2xx' }); // 1
+ * ```
+ */
+export class InMemoryMetrics implements MetricsSink {
+  private readonly bucketBounds: number[];
+  private readonly counters = new Map<string, CounterSnapshot>();
+  private readonly histograms = new Map<string, HistogramSnapshot>();
+
+  constructor(options: InMemoryMetricsOptions = {}) {
+    this.bucketBounds = [...(options.buckets ?? DEFAULT_HISTOGRAM_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  increment(name: string, tags: MetricTags, value: number = 1): void {
+    const key = this.key(name, tags);
+    const counter = this.counters.get(key);
+    if (counter) {
+      counter.value += value;
+    } else {
+      this.counters.set(key, { name, tags: { ...tags }, value });
+    }
+  }
+
+  observe(name: string, value: number, tags: MetricTags): void {
+    const key = this.key(name, tags);
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        name,
+        tags: { ...tags },
+        count: 0,
+        sum: 0,
+        min: value,
+        max: value,
+        buckets: [...this.bucketBounds, Infinity].map(le => ({ le, count: 0 })),
+      };
+      this.histograms.set(key, histogram);
+    }
+
+    histogram.count++;
+    histogram.sum += value;
+    histogram.min = Math.min(histogram.min, value);
+    histogram.max = Math.max(histogram.max, value);
+    histogram.buckets.find(bucket => value <= bucket.le)!.count++;
+  }
+
+  /**
+   * Sum of a counter over every tag set containing the given tags
+   */
+  getCounter(name: string, tags: MetricTags = {}): number {
+    return [...this.counters.values()]
+      .filter(counter => counter.name === name && this.matches(counter.tags, tags))
+      .reduce((total, counter) => total + counter.value, 0);
+  }
+
+  /**
+   * Copy of all counters and histograms
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      counters: [...this.counters.values()].map(counter => ({ ...counter, tags: { ...counter.tags } })),
+      histograms: [...this.histograms.values()].map(histogram => ({
+        ...histogram,
+        tags: { ...histogram.tags },
+        buckets: histogram.buckets.map(bucket => ({ ...bucket })),
+      })),
+    };
+  }
+
+  /**
+   * Drop all aggregated metrics
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private matches(tags: MetricTags, filter: MetricTags): boolean {
+    return Object.entries(filter).every(([name, value]) => tags[name] === value);
+  }
+
+  private key(name: string, tags: MetricTags): string {
+    const tagKey = Object.keys(tags)
+      .sort()
+      .map(tag => `${tag}=${tags[tag]}`)
+      .join(',');
+    return `${name}{${tagKey}}`;
+  }
+}
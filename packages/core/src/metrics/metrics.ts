@@ -0,0 +1,83 @@
+/**
+ * Client metrics: sink interface, metric names and tag helpers
+ */
+
+import { ClientError } from '../errors/clientErrors';
+
+/**
+ * Metric tags (dimensions)
+ */
+export type MetricTags = Record<string, string>;
+
+/**
+ * Receives client metrics
+ *
+ * Adapt StatsD, Prometheus, CloudWatch EMF or OpenTelemetry metrics by
+ * implementing these two methods.
+ */
+export interface MetricsSink {
+  /** Add to a counter */
+  increment(name: string, tags: MetricTags, value?: number): void;
+
+  /** Record a histogram observation */
+  observe(name: string, value: number, tags: MetricTags): void;
+}
+
+/**
+ * Metrics reported by the clients
+ *
+ * Every metric is tagged with `service` (client name) and `route` (route
+ * template or Lambda operation). Request metrics add `status_class` ('2xx',
+ * '4xx', 'none' when no response was received, ...) and `error_code` for
+ * failures; retries add the `error_code` that caused them.
+ */
+export const CLIENT_METRICS = {
+  /** Counter of logical calls, retries included once */
+  requests: 'tutenet.client.requests',
+
+  /** Counter of failed calls (thrown errors and error responses) */
+  errors: 'tutenet.client.errors',
+
+  /** Histogram of call latency in milliseconds, retries and backoff included */
+  duration: 'tutenet.client.request.duration',
+
+  /** Counter of retry attempts */
+  retries: 'tutenet.client.retries',
+} as const;
+
+/**
+ * Status class tag of an HTTP status ('2xx', '4xx', ...), 'none' without one
+ */
+export function getStatusClass(status?: number): string {
+  return status === undefined ? 'none' : `${Math.floor(status / 100)}xx`;
+}
+
+/**
+ * Error code tag of an error or API error body
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (error instanceof ClientError) {
+    return error.code;
+  }
+  const candidate = error as { code?: unknown; error?: { code?: unknown } } | null | undefined;
+  if (typeof candidate?.error?.code === 'string') {
+    return candidate.error.code;
+  }
+  return typeof candidate?.code === 'string' ? candidate.code : undefined;
+}
+
+/**
+ * Tags of a finished call
+ */
+export function getRequestTags(
+  service: string,
+  route: string,
+  status: number | undefined,
+  errorCode: string | undefined
+): MetricTags {
+  const tags: MetricTags = { service, route, status_class: getStatusClass(status) };
+  if (errorCode) {
+    tags.error_code = errorCode;
+  }
+  return tags;
+}
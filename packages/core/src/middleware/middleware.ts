@@ -0,0 +1,186 @@
+/**
+ * Middleware pipeline for TuteNet service clients
+ *
+ * Middleware run around every transport call made by BaseClient. The request
+ * stage runs in registration order; the response and error stages run in
+ * reverse order, so the first middleware registered is the outermost layer.
+ */
+
+import { TransportRequest, TransportResponse } from '../transport/transport';
+
+/**
+ * Context shared by the stages of one request
+ */
+export interface MiddlewareContext {
+  /** Name of the client issuing the request (e.g. 'LibraryClient') */
+  client: string;
+
+  /** Attempt number for this request, starting at 1 */
+  attempt: number;
+
+  /** Per-request state shared between the stages of all middleware */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Client middleware
+ *
+ * HTTP error statuses arrive at the response stage as responses; the error
+ * stage sees transport failures (network, timeout) and errors thrown by
+ * inner middleware.
+ */
+export interface Middleware {
+  /** Middleware name (for debugging) */
+  name?: string;
+
+  /**
+   * Request stage. Return a request to rewrite it, or a response to
+   * short-circuit the rest of the pipeline and the transport.
+   */
+  onRequest?(
+    request: TransportRequest,
+    context: MiddlewareContext
+  ): TransportRequest | TransportResponse | void | Promise<TransportRequest | TransportResponse | void>;
+
+  /**
+   * Response stage. Return a response to replace it.
+   */
+  onResponse?(
+    response: TransportResponse,
+    request: TransportRequest,
+    context: MiddlewareContext
+  ): TransportResponse | void | Promise<TransportResponse | void>;
+
+  /**
+   * Error stage. Return a response to recover, return (or throw) an error
+   * to replace the failure, or return nothing to pass it on.
+   */
+  onError?(
+    error: Error,
+    request: TransportRequest,
+    context: MiddlewareContext
+  ): TransportResponse | Error | void | Promise<TransportResponse | Error | void>;
+}
+
+/**
+ * Final handler invoked after the request stage of all middleware
+ */
+export type MiddlewareHandler = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Check whether a middleware result is a response rather than a request
+ */
+export function isTransportResponse(value: unknown): value is TransportResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TransportResponse).status === 'number' &&
+    !('method' in value)
+  );
+}
+
+/**
+ * Ordered middleware stack
+ *
+ * A pipeline can be passed to several clients through `ClientOptions.middleware`
+ * so that they share one stack.
+ */
+export class MiddlewarePipeline {
+  private readonly middleware: Middleware[] = [];
+
+  constructor(middleware: Middleware[] = []) {
+    middleware.forEach(entry => this.use(entry));
+  }
+
+  /**
+   * Append middleware to the stack
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Remove middleware from the stack
+   *
+   * @returns True if the middleware was registered
+   */
+  remove(middleware: Middleware): boolean {
+    const index = this.middleware.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Registered middleware, outermost first
+   */
+  list(): readonly Middleware[] {
+    return [...this.middleware];
+  }
+
+  /**
+   * Run a request through the middleware stack
+   */
+  execute(
+    request: TransportRequest,
+    context: MiddlewareContext,
+    handler: MiddlewareHandler
+  ): Promise<TransportResponse> {
+    // Snapshot so that changes made mid-request do not affect it
+    return this.dispatch([...this.middleware], 0, request, context, handler);
+  }
+
+  private async dispatch(
+    stack: Middleware[],
+    index: number,
+    request: TransportRequest,
+    context: MiddlewareContext,
+    handler: MiddlewareHandler
+  ): Promise<TransportResponse> {
+    const middleware = stack[index];
+    if (!middleware) {
+      return handler(request);
+    }
+
+    let next = request;
+    if (middleware.onRequest) {
+      const result = await middleware.onRequest(request, context);
+      if (isTransportResponse(result)) {
+        return result;
+      }
+      if (result) {
+        next = result;
+      }
+    }
+
+    let response: TransportResponse;
+    try {
+      response = await this.dispatch(stack, index + 1, next, context, handler);
+    } catch (error) {
+      if (!middleware.onError) {
+        throw error;
+      }
+      const failure = error instanceof Error ? error : new Error(String(error));
+      const handled = await middleware.onError(failure, next, context);
+      if (handled instanceof Error) {
+        throw handled;
+      }
+      if (!handled) {
+        throw error;
+      }
+      return handled;
+    }
+
+    if (middleware.onResponse) {
+      const replaced = await middleware.onResponse(response, next, context);
+      if (replaced) {
+        response = replaced;
+      }
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Schemas of the response envelopes shared by all TuteNet APIs
+ */
+
+import type { ErrorResponse, MessageResponse, PaginatedResponse, SuccessResponse } from '../types/apiTypes';
+import { Schema, schema } from './schema';
+
+/**
+ * Response metadata (meta)
+ */
+export const ResponseMetaSchema = schema.object({
+  requestId: schema.string(),
+  timestamp: schema.string(),
+  version: schema.optional(schema.string()),
+});
+
+/**
+ * Error response (success: false)
+ */
+export const ErrorResponseSchema = schema.object({
+  success: schema.literal(false),
+  error: schema.object({
+    code: schema.string(),
+    message: schema.string(),
+    details: schema.optional(schema.record(schema.string())),
+  }),
+  meta: ResponseMetaSchema,
+});
+
+/**
+ * Envelope of a response whose data matches a schema
+ *
+ * Error responses (success: false) are checked against the error envelope,
+ * since services return them from the same calls.
+ */
+export function apiResponseSchema<T>(data: Schema<T>): Schema<SuccessResponse<T> | ErrorResponse> {
+  const success = schema.object({
+    success: schema.literal(true),
+    data,
+    meta: ResponseMetaSchema,
+  });
+
+  return {
+    optional: false,
+    check(value, path, issues) {
+      const failed = typeof value === 'object' && value !== null && (value as { success?: unknown }).success === false;
+      (failed ? ErrorResponseSchema : success).check(value, path, issues);
+    },
+  };
+}
+
+/**
+ * Envelope of a cursor-paginated list of items
+ */
+export function paginatedResponseSchema<T>(item: Schema<T>): Schema<PaginatedResponse<T> | ErrorResponse> {
+  return apiResponseSchema(schema.object({
+    items: schema.array(item),
+    nextCursor: schema.optional(schema.string()),
+    previousCursor: schema.optional(schema.string()),
+    hasNext: schema.boolean(),
+    hasPrevious: schema.boolean(),
+    totalCount: schema.optional(schema.number()),
+  })) as Schema<PaginatedResponse<T> | ErrorResponse>;
+}
+
+/**
+ * Response carrying only a message
+ */
+export const MessageApiResponseSchema = apiResponseSchema(schema.object<MessageResponse>({
+  message: schema.string(),
+}));
@@ -0,0 +1,244 @@
+/**
+ * Minimal runtime schemas for validating API responses
+ *
+ * Schemas describe the documented shape of a response: required and
+ * optional fields, primitive types, literals, arrays and records. Fields not
+ * described by a schema are allowed, so the API can add fields without
+ * breaking clients.
+ */
+
+/**
+ * How clients treat responses that do not match their schema
+ *
+ * - 'strict': reject with a ResponseValidationError
+ * - 'warn': log a warning and return the response
+ * - 'off': skip validation
+ */
+export type ResponseValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * One validation failure
+ */
+export interface ValidationIssue {
+  /** Path of the offending value (e.g. 'data.items[0].resourceId'; '' for the root) */
+  path: string;
+
+  /** What was expected and what was received */
+  message: string;
+}
+
+/**
+ * Runtime schema for values of type T
+ */
+export interface Schema<T = unknown> {
+  /** Whether the value may be missing (undefined) */
+  readonly optional: boolean;
+
+  /** Append the issues of a value at a path */
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+
+  /** Type carried by the schema (never set at runtime) */
+  readonly __type?: T;
+}
+
+/**
+ * Object schema fields: one schema per property of T, so a schema that
+ * drifts from its type fails to compile. Optional properties take
+ * `schema.optional(...)`.
+ */
+export type SchemaShape<T = Record<string, unknown>> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns Issues found, empty when the value is valid
+ */
+export function validateSchema(schemaToCheck: Schema<any>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schemaToCheck.check(value, '', issues);
+  return issues;
+}
+
+/**
+ * Describe a received value for issue messages
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return value.length > 40 ? 'string' : JSON.stringify(value);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function create<T>(check: Schema<T>['check'], optional = false): Schema<T> {
+  return { optional, check };
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return create<T>((value, path, issues) => {
+    if (!test(value)) {
+      issues.push({ path, message: `expected ${expected}, received ${describe(value)}` });
+    }
+  });
+}
+
+/**
+ * Schema builders
+ *
+ * @example
+ * ```typescript
+ * const CollectionSchema = schema.object({
+ *   collectionId: schema.string(),
+ *   description: schema.nullable(schema.string()),
+ *   itemCount: schema.number(),
+ * });
+ * ```
+ */
+export const schema = {
+  string(): Schema<string> {
+    return primitive('string', value => typeof value === 'string');
+  },
+
+  number(): Schema<number> {
+    return primitive('number', value => typeof value === 'number' && !Number.isNaN(value));
+  },
+
+  boolean(): Schema<boolean> {
+    return primitive('boolean', value => typeof value === 'boolean');
+  },
+
+  /** ISO 8601 date-time string */
+  dateString(): Schema<string> {
+    return primitive('ISO date string', value => typeof value === 'string' && !Number.isNaN(Date.parse(value)));
+  },
+
+  /** Any value, including undefined */
+  unknown(): Schema<unknown> {
+    return create(() => undefined, true);
+  },
+
+  /** One of the given primitive values */
+  literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+    return primitive(
+      values.map(value => JSON.stringify(value)).join(' | '),
+      value => values.includes(value as T)
+    );
+  },
+
+  /** A value of a TypeScript enum */
+  enumOf<T extends Record<string, string | number>>(values: T): Schema<T[keyof T]> {
+    return schema.literal(...(Object.values(values) as Array<string | number>)) as Schema<T[keyof T]>;
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return create<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, received ${describe(value)}` });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, childPath(path, index), issues));
+    });
+  },
+
+  object<T = Record<string, unknown>>(shape: SchemaShape<T>): Schema<T> {
+    return create<T>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, received ${describe(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      Object.entries<Schema<unknown>>(shape).forEach(([key, field]) => {
+        const fieldValue = record[key];
+        if (fieldValue === undefined) {
+          if (!field.optional) {
+            issues.push({ path: childPath(path, key), message: 'required field is missing' });
+          }
+          return;
+        }
+        field.check(fieldValue, childPath(path, key), issues);
+      });
+    });
+  },
+
+  /** Object with arbitrary keys whose values match a schema */
+  record<T>(values: Schema<T>): Schema<Record<string, T>> {
+    return create<Record<string, T>>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, received ${describe(value)}` });
+        return;
+      }
+      Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+        values.check(entry, childPath(path, key), issues);
+      });
+    });
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return create<T | undefined>((value, path, issues) => {
+      if (value !== undefined) {
+        inner.check(value, path, issues);
+      }
+    }, true);
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return create<T | null>((value, path, issues) => {
+      if (value !== null) {
+        inner.check(value, path, issues);
+      }
+    }, inner.optional);
+  },
+
+  /**
+   * Value matching at least one schema
+   *
+   * Reports the issues of the closest match (fewest issues).
+   */
+  union<T>(...options: Array<Schema<any>>): Schema<T> {
+    return create<T>((value, path, issues) => {
+      let closest: ValidationIssue[] | undefined;
+      for (const option of options) {
+        const optionIssues: ValidationIssue[] = [];
+        option.check(value, path, optionIssues);
+        if (optionIssues.length === 0) {
+          return;
+        }
+        if (!closest || optionIssues.length < closest.length) {
+          closest = optionIssues;
+        }
+      }
+      issues.push(...(closest ?? []));
+    }, options.some(option => option.optional));
+  },
+
+  /** Intersection: the value must match every schema */
+  allOf<T>(...parts: Array<Schema<any>>): Schema<T> {
+    return create<T>((value, path, issues) => {
+      parts.forEach(part => part.check(value, path, issues));
+    }, parts.every(part => part.optional));
+  },
+
+  /** Schema resolved on first use, for recursive types */
+  lazy<T>(resolve: () => Schema<T>): Schema<T> {
+    let resolved: Schema<T> | undefined;
+    return create<T>((value, path, issues) => {
+      resolved = resolved ?? resolve();
+      resolved.check(value, path, issues);
+    });
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * W3C Trace Context (`traceparent` / `tracestate`) parsing and generation
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+import { randomHex } from '../utils/ids';
+
+/**
+ * Position of one call in a distributed trace
+ */
+export interface TraceContext {
+  /** 32 lowercase hex characters, shared by every span of the trace */
+  traceId: string;
+
+  /** 16 lowercase hex characters identifying this span */
+  spanId: string;
+
+  /** Trace flags; bit 0 is "sampled" */
+  traceFlags: number;
+
+  /** Vendor-specific `tracestate` header value, passed through unchanged */
+  traceState?: string;
+}
+
+/**
+ * Sampled trace flag
+ */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parse a `traceparent` header (and optional `tracestate`)
+ *
+ * @returns The context, or undefined when the header is malformed
+ */
+export function parseTraceparent(traceparent: string, tracestate?: string): TraceContext | undefined {
+  const parts = traceparent.trim().split('-');
+  if (parts.length < 4) {
+    return undefined;
+  }
+
+  const [version, traceId, spanId, flags] = parts;
+  if (
+    !/^[0-9a-f]{2}$/.test(version) ||
+    version === 'ff' ||
+    // Version 00 has exactly four fields; later versions may append more
+    (version === '00' && parts.length !== 4) ||
+    !TRACE_ID_PATTERN.test(traceId) ||
+    traceId === INVALID_TRACE_ID ||
+    !SPAN_ID_PATTERN.test(spanId) ||
+    spanId === INVALID_SPAN_ID ||
+    !/^[0-9a-f]{2}$/.test(flags)
+  ) {
+    return undefined;
+  }
+
+  const traceState = tracestate?.trim();
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    traceState: traceState || undefined,
+  };
+}
+
+/**
+ * Format a context as a version 00 `traceparent` header
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Create the context of a new span
+ *
+ * Continues the parent's trace (same trace ID, flags and tracestate) with a
+ * new span ID, or starts a new sampled trace without a parent.
+ */
+export function createTraceContext(parent?: TraceContext): TraceContext {
+  if (!parent) {
+    return {
+      traceId: randomId(16, INVALID_TRACE_ID),
+      spanId: randomId(8, INVALID_SPAN_ID),
+      traceFlags: TRACE_FLAG_SAMPLED,
+    };
+  }
+
+  return {
+    traceId: parent.traceId,
+    spanId: randomId(8, INVALID_SPAN_ID),
+    traceFlags: parent.traceFlags,
+    traceState: parent.traceState,
+  };
+}
+
+/**
+ * Resolve a context given as a `traceparent` header value or an object
+ */
+export function toTraceContext(context: TraceContext | string | undefined): TraceContext | undefined {
+  return typeof context === 'string' ? parseTraceparent(context) : context;
+}
+
+/**
+ * Trace context headers for a context
+ */
+export function traceContextHeaders(context: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = { traceparent: formatTraceparent(context) };
+  if (context.traceState) {
+    headers.tracestate = context.traceState;
+  }
+  return headers;
+}
+
+/**
+ * Random hex ID that is never the all-zero (invalid) value
+ */
+function randomId(byteLength: number, invalid: string): string {
+  let id = randomHex(byteLength);
+  while (id === invalid) {
+    id = randomHex(byteLength);
+  }
+  return id;
+}
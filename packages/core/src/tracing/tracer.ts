@@ -0,0 +1,109 @@
+/**
+ * Vendor-neutral tracer interface
+ *
+ * Clients report one span per logical call through a Tracer. The interface
+ * is small enough to adapt to OpenTelemetry, Datadog, X-Ray or a custom
+ * collector without the SDK depending on any of them.
+ */
+
+import { TraceContext, createTraceContext } from './traceContext';
+
+/**
+ * Span attribute values
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Outcome of a span
+ */
+export type SpanStatus = 'ok' | 'error';
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** Span kind; client calls are always 'client' */
+  kind: 'client' | 'internal';
+
+  /** Context of the parent span, if the call continues a trace */
+  parent?: TraceContext;
+
+  /** Initial attributes */
+  attributes?: SpanAttributes;
+}
+
+/**
+ * A span in progress
+ */
+export interface Span {
+  /** Context propagated to the service (`traceparent` / `tracestate`) */
+  readonly context: TraceContext;
+
+  setAttribute(key: string, value: SpanAttributeValue): void;
+
+  setStatus(status: SpanStatus, message?: string): void;
+
+  recordException(error: unknown): void;
+
+  /** Finish the span; later calls are ignored */
+  end(): void;
+}
+
+/**
+ * Creates spans
+ *
+ * @example OpenTelemetry adapter
+ * ```typescript
+ * const otel = trace.getTracer('tutenet');
+ * const tracer: Tracer = {
+ *   startSpan(name, { parent, attributes }) {
+ *     const parentContext = parent
+ *       ? trace.setSpanContext(context.active(), {
+ *           traceId: parent.traceId,
+ *           spanId: parent.spanId,
+ *           traceFlags: parent.traceFlags,
+ *           isRemote: true,
+ *         })
+ *       : context.active();
+ *     const span = otel.startSpan(name, { kind: SpanKind.CLIENT, attributes }, parentContext);
+ *     const { traceId, spanId, traceFlags } = span.spanContext();
+ *     return {
+ *       context: { traceId, spanId, traceFlags, traceState: parent?.traceState },
+ *       setAttribute: (key, value) => span.setAttribute(key, value),
+ *       setStatus: (status, message) => span.setStatus({
+ *         code: status === 'ok' ? SpanStatusCode.OK : SpanStatusCode.ERROR,
+ *         message,
+ *       }),
+ *       recordException: (error) => span.recordException(error as Error),
+ *       end: () => span.end(),
+ *     };
+ *   },
+ * };
+ * ```
+ */
+export interface Tracer {
+  startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * Tracer that records nothing
+ *
+ * Still creates span contexts, so trace context is propagated to services
+ * when no tracer is configured.
+ */
+export class NoopTracer implements Tracer {
+  startSpan(_name: string, options: SpanOptions): Span {
+    return {
+      context: createTraceContext(options.parent),
+      setAttribute: () => undefined,
+      setStatus: () => undefined,
+      recordException: () => undefined,
+      end: () => undefined,
+    };
+  }
+}
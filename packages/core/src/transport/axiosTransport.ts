@@ -0,0 +1,91 @@
+/**
+ * Axios-based transport
+ *
+ * axios is loaded lazily so that applications using another transport
+ * never evaluate it.
+ */
+
+import type { AxiosError, AxiosInstance, AxiosStatic } from 'axios';
+import { AbortedError, NetworkError, TimeoutError } from '../errors/clientErrors';
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  normalizeHeaders,
+  resolveUrl,
+} from './transport';
+
+/**
+ * Load the axios module, or return undefined when it is not installed
+ */
+export function loadAxios(): AxiosStatic | undefined {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const axiosModule = require('axios');
+    return axiosModule.default ?? axiosModule;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Transport backed by an axios instance
+ */
+export class AxiosTransport implements Transport {
+  readonly name = 'axios';
+  private readonly instance: AxiosInstance;
+
+  constructor(instance?: AxiosInstance) {
+    const axiosInstance = instance ?? loadAxios()?.create();
+    if (!axiosInstance) {
+      throw new Error('AxiosTransport requires the "axios" package to be installed');
+    }
+    this.instance = axiosInstance;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.instance.request<T>({
+        ...request.axios,
+        method: request.method,
+        url: request.url,
+        baseURL: request.baseUrl,
+        headers: { ...request.axios?.headers, ...request.headers },
+        data: request.data,
+        timeout: request.timeout,
+        signal: request.signal,
+        // Every status is a response; BaseClient decides what is an error
+        validateStatus: () => true,
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: normalizeHeaders(response.headers as Record<string, unknown>),
+        data: response.data,
+      };
+    } catch (error) {
+      throw this.handleError(error as AxiosError, request);
+    }
+  }
+
+  /**
+   * Convert axios failures into client errors
+   */
+  private handleError(error: AxiosError, request: TransportRequest): Error {
+    if (request.signal?.aborted || error.code === 'ERR_CANCELED') {
+      return new AbortedError(undefined, request.signal?.reason);
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(request.timeout ?? 0);
+    }
+
+    if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+      const target = request.baseUrl ?? resolveUrl(request.url);
+      return new NetworkError(`Unable to connect to ${target}`, error);
+    }
+
+    return new NetworkError(`Request failed: ${error.message}`, error);
+  }
+}
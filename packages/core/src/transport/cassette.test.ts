@@ -0,0 +1,111 @@
+import { BaseClient } from '../client/baseClient';
+import { ApiType, ClientConfig } from '../config/environment';
+import { CassetteMismatchError } from '../errors/clientErrors';
+import { Cassette, RecordingTransport, ReplayTransport } from './cassette';
+import { MemoryTransport } from './memoryTransport';
+import { TransportRequest } from './transport';
+
+class TestClient extends BaseClient {
+  constructor(config: Partial<ClientConfig>) {
+    super({ environment: 'development', apiType: ApiType.EXTERNAL, baseUrl: 'https://api.test', retries: 0, ...config });
+  }
+}
+
+const meta = { requestId: 'req-1', timestamp: '2026-01-01T00:00:00.000Z' };
+
+function createBackend(): MemoryTransport {
+  return new MemoryTransport()
+    .on('GET', '/resources/:resourceId', (_request, { params }) => ({
+      data: { success: true, data: { resourceId: params.resourceId, title: 'Fractions' }, meta },
+    }))
+    .on('POST', '/auth/signin', () => ({
+      data: { success: true, data: { tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' } }, meta },
+    }));
+}
+
+function request(method: TransportRequest['method'], url: string, data?: unknown): TransportRequest {
+  return { method, url, baseUrl: 'https://api.test', headers: { Authorization: 'Bearer access-1' }, data };
+}
+
+async function record(): Promise<Cassette> {
+  const recorder = new RecordingTransport(createBackend(), { name: 'resources' });
+  const client = new TestClient({ transport: recorder });
+  client.setAccessToken('access-1');
+
+  await client.get('/resources/res-1?include=structure');
+  await client.post('/auth/signin', { email: 'jane@example.com', password: 'Password123' });
+  return JSON.parse(JSON.stringify(recorder.cassette));
+}
+
+describe('cassettes', () => {
+  it('records redacted requests and responses', async () => {
+    const cassette = await record();
+
+    expect(cassette.name).toBe('resources');
+    expect(cassette.entries).toHaveLength(2);
+
+    const [get, signIn] = cassette.entries;
+    expect(get.request).toMatchObject({ method: 'GET', path: '/resources/res-1', query: { include: 'structure' } });
+    expect(get.request.headers.authorization).toBe('[REDACTED]');
+    expect(get.request.headers['x-request-id']).toBeUndefined();
+    expect(get.response.data.data).toEqual({ resourceId: 'res-1', title: 'Fractions' });
+
+    expect(signIn.request.body).toEqual({ email: 'j***@example.com', password: '[REDACTED]' });
+    expect(signIn.response.data.data.tokens).toEqual({ accessToken: '[REDACTED]', refreshToken: '[REDACTED]' });
+  });
+
+  it('replays recorded responses to matching requests', async () => {
+    const replay = new ReplayTransport(await record());
+    const client = new TestClient({ transport: replay });
+    client.setAccessToken('access-2');
+
+    const resource = await client.get<any>('/resources/res-1?include=structure');
+    const signIn = await client.post<any>('/auth/signin', { email: 'jane@example.com', password: 'Password123' });
+
+    expect(resource.data).toEqual({ resourceId: 'res-1', title: 'Fractions' });
+    expect(signIn.data.tokens.accessToken).toBe('[REDACTED]');
+    expect(() => replay.assertAllPlayed()).not.toThrow();
+  });
+
+  it('rejects requests that match no entry with CassetteMismatchError', async () => {
+    const replay = new ReplayTransport(await record());
+
+    const mismatch = replay.request(request('GET', '/resources/res-2?include=structure'));
+
+    await expect(mismatch).rejects.toBeInstanceOf(CassetteMismatchError);
+    await expect(mismatch).rejects.toMatchObject({
+      method: 'GET',
+      url: '/resources/res-2?include=structure',
+      cassette: 'resources',
+    });
+  });
+
+  it('compares query and body unless told otherwise', async () => {
+    const cassette = await record();
+    const strict = new ReplayTransport(cassette);
+    const byPath = new ReplayTransport(cassette, { match: ['method', 'path'] });
+    const otherBody = { email: 'jane@example.com', password: 'Other123' };
+
+    await expect(strict.request(request('GET', '/resources/res-1'))).rejects.toThrow(CassetteMismatchError);
+    await expect(byPath.request(request('GET', '/resources/res-1'))).resolves.toMatchObject({ status: 200 });
+    // Passwords are redacted on both sides, so a different password still matches
+    await expect(strict.request(request('POST', '/auth/signin', otherBody))).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('plays each entry once unless repeat is set', async () => {
+    const cassette = await record();
+    const once = new ReplayTransport(cassette, { match: ['method', 'path'] });
+    const repeating = new ReplayTransport(cassette, { match: ['method', 'path'], repeat: true });
+
+    await once.request(request('GET', '/resources/res-1'));
+    await expect(once.request(request('GET', '/resources/res-1'))).rejects.toThrow(CassetteMismatchError);
+    expect(() => once.assertAllPlayed()).toThrow('1 cassette entries were not played: POST /auth/signin');
+
+    await repeating.request(request('GET', '/resources/res-1'));
+    await expect(repeating.request(request('GET', '/resources/res-1'))).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('rejects cassettes of another version', () => {
+    expect(() => new ReplayTransport({ version: 2, recordedAt: meta.timestamp, entries: [] })).toThrow('Unsupported cassette version: 2');
+  });
+});
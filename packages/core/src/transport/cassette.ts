@@ -0,0 +1,414 @@
+/**
+ * Record-and-replay transports
+ *
+ * RecordingTransport captures the requests sent through another transport,
+ * with their responses, into a redacted JSON cassette. ReplayTransport
+ * serves a cassette back without touching the network, so tests can assert
+ * against the exact payloads a real backend returned.
+ */
+
+import { CassetteMismatchError } from '../errors/clientErrors';
+import { RedactionOptions, createRedactor } from '../logging/redaction';
+import { throwIfAborted } from '../utils/abort';
+import {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  isRawBody,
+} from './transport';
+
+/**
+ * Cassette format version written by RecordingTransport
+ */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * Request headers left out of cassettes by default: they differ between
+ * otherwise identical requests
+ */
+const VOLATILE_HEADERS = ['x-request-id', 'x-correlation-id', 'traceparent', 'tracestate', 'idempotency-key'];
+
+/**
+ * Stand-in for request bodies that cannot be stored as JSON (FormData, Blob, ...)
+ */
+const RAW_BODY = '[raw body]';
+
+/**
+ * Recorded request
+ */
+export interface CassetteRequest {
+  /** HTTP method */
+  method: HttpMethod;
+
+  /** Request path (origin included for absolute URLs) */
+  path: string;
+
+  /** Query string parameters; repeated names hold every value */
+  query: Record<string, string | string[]>;
+
+  /** Request headers with lower-cased names */
+  headers: Record<string, string>;
+
+  /** Request body */
+  body?: any;
+}
+
+/**
+ * Recorded response
+ */
+export interface CassetteResponse {
+  /** HTTP status code */
+  status: number;
+
+  /** HTTP status text */
+  statusText: string;
+
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+
+  /** Parsed response body */
+  data?: any;
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface CassetteEntry {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/**
+ * Recorded exchanges, in the order their responses arrived
+ */
+export interface Cassette {
+  /** Format version (CASSETTE_VERSION) */
+  version: number;
+
+  /** Cassette name, used in mismatch errors */
+  name?: string;
+
+  /** When recording started (ISO 8601) */
+  recordedAt: string;
+
+  entries: CassetteEntry[];
+}
+
+/**
+ * Request parts compared when replaying
+ */
+export type CassetteMatchField = 'method' | 'path' | 'query' | 'body';
+
+/**
+ * Custom replay matcher: whether an incoming request matches a recorded one
+ *
+ * The incoming request is redacted the same way as the cassette.
+ */
+export type CassetteMatcher = (request: CassetteRequest, recorded: CassetteRequest) => boolean;
+
+/**
+ * RecordingTransport configuration
+ */
+export interface RecordingTransportOptions {
+  /** Cassette name */
+  name?: string;
+
+  /** Redaction of headers, bodies and responses (log redaction rules, keeping structure by default) */
+  redaction?: RedactionOptions;
+
+  /** Request headers not recorded (default: request ids, trace context and Idempotency-Key) */
+  omitHeaders?: string[];
+}
+
+/**
+ * ReplayTransport configuration
+ */
+export interface ReplayTransportOptions {
+  /** Request parts that must be equal, or a custom matcher (default: method, path, query and body) */
+  match?: CassetteMatchField[] | CassetteMatcher;
+
+  /** Redaction used when recording, so redacted bodies still match (default: the recording default) */
+  redaction?: RedactionOptions;
+
+  /**
+   * Serve entries more than once (default: false); unplayed matches are
+   * still served first, in order
+   */
+  repeat?: boolean;
+}
+
+/**
+ * Transport recording every response received through another transport
+ *
+ * Requests that get no response (connection failures, timeouts) are not
+ * recorded.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new RecordingTransport(new FetchTransport(), { name: 'resource-structure' });
+ * const client = new UploadClient({ environment: Environment.STAGING, transport: recorder });
+ *
+ * await client.getResourceStructure('res-123');
+ * fs.writeFileSync('resource-structure.json', JSON.stringify(recorder.cassette, null, 2));
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  readonly name: string;
+
+  private entries: CassetteEntry[] = [];
+  private recordedAt = new Date().toISOString();
+  private readonly redact: <T>(value: T) => T;
+  private readonly omitHeaders: string[];
+
+  /**
+   * @param transport - Transport that performs the requests
+   */
+  constructor(
+    private readonly transport: Transport,
+    private readonly options: RecordingTransportOptions = {}
+  ) {
+    this.name = `recording(${transport.name})`;
+    this.redact = createCassetteRedactor(options.redaction);
+    this.omitHeaders = (options.omitHeaders ?? VOLATILE_HEADERS).map(name => name.toLowerCase());
+  }
+
+  /**
+   * Cassette of the exchanges recorded so far
+   */
+  get cassette(): Cassette {
+    return {
+      version: CASSETTE_VERSION,
+      ...(this.options.name && { name: this.options.name }),
+      recordedAt: this.recordedAt,
+      entries: [...this.entries],
+    };
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const recorded = toCassetteRequest(request, this.redact, this.omitHeaders);
+    const response = await this.transport.request<T>(request);
+
+    this.entries.push({
+      request: recorded,
+      response: this.redact({
+        status: response.status,
+        statusText: response.statusText,
+        headers: { ...response.headers },
+        data: clone(response.data),
+      }),
+    });
+    return response;
+  }
+
+  /**
+   * Discard recorded exchanges and restart the recording clock
+   */
+  reset(): void {
+    this.entries = [];
+    this.recordedAt = new Date().toISOString();
+  }
+
+  toJSON(): Cassette {
+    return this.cassette;
+  }
+}
+
+/**
+ * Transport serving responses from a cassette
+ *
+ * Each request is answered with the first matching entry not played yet.
+ * Requests matching no entry reject with CassetteMismatchError.
+ *
+ * @example
+ * ```typescript
+ * const cassette = JSON.parse(fs.readFileSync('resource-structure.json', 'utf8'));
+ * const replay = new ReplayTransport(cassette);
+ * const client = new UploadClient({ transport: replay });
+ *
+ * const structure = await client.getResourceStructure('res-123');
+ * replay.assertAllPlayed();
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  readonly name = 'replay';
+
+  private readonly played = new Set<number>();
+  private readonly redact: <T>(value: T) => T;
+  private readonly matcher: CassetteMatcher;
+
+  constructor(
+    readonly cassette: Cassette,
+    private readonly options: ReplayTransportOptions = {}
+  ) {
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version: ${cassette.version}`);
+    }
+    this.redact = createCassetteRedactor(options.redaction);
+    this.matcher = typeof options.match === 'function'
+      ? options.match
+      : matchFields(options.match ?? ['method', 'path', 'query', 'body']);
+  }
+
+  /**
+   * Entries not played yet
+   */
+  get unplayed(): CassetteEntry[] {
+    return this.cassette.entries.filter((_entry, index) => !this.played.has(index));
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    throwIfAborted(request.signal);
+
+    // Headers are compared only by custom matchers, so keep them all
+    const incoming = toCassetteRequest(request, this.redact, []);
+    const index = this.findEntry(incoming);
+    if (index === -1) {
+      throw new CassetteMismatchError(incoming.method, formatUrl(incoming), this.cassette.name);
+    }
+
+    this.played.add(index);
+    const { response } = this.cassette.entries[index];
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { ...response.headers },
+      data: clone(response.data),
+    };
+  }
+
+  /**
+   * Throw when some entries were never played
+   */
+  assertAllPlayed(): void {
+    const unplayed = this.unplayed;
+    if (unplayed.length > 0) {
+      const requests = unplayed.map(({ request }) => `${request.method} ${formatUrl(request)}`).join(', ');
+      throw new Error(`${unplayed.length} cassette entries were not played: ${requests}`);
+    }
+  }
+
+  /**
+   * Mark every entry as unplayed
+   */
+  reset(): void {
+    this.played.clear();
+  }
+
+  /**
+   * Index of the entry answering a request, or -1
+   */
+  private findEntry(incoming: CassetteRequest): number {
+    let lastMatch = -1;
+    for (let index = 0; index < this.cassette.entries.length; index++) {
+      if (!this.matcher(incoming, this.cassette.entries[index].request)) {
+        continue;
+      }
+      if (!this.played.has(index)) {
+        return index;
+      }
+      lastMatch = index;
+    }
+    return this.options.repeat ? lastMatch : -1;
+  }
+}
+
+/**
+ * Redactor for cassettes: replayed responses keep the shape clients and
+ * response schemas expect (`tokens: { accessToken: '[REDACTED]', ... }`)
+ */
+function createCassetteRedactor(options?: RedactionOptions): <T>(value: T) => T {
+  return createRedactor({ keepStructure: true, ...options });
+}
+
+/**
+ * Matcher comparing the given request parts
+ */
+function matchFields(fields: CassetteMatchField[]): CassetteMatcher {
+  return (request, recorded) => fields.every(field => {
+    switch (field) {
+      case 'method':
+        return request.method === recorded.method;
+      case 'path':
+        return request.path === recorded.path;
+      case 'query':
+        return canonicalJson(request.query) === canonicalJson(recorded.query);
+      case 'body':
+        return canonicalJson(request.body) === canonicalJson(recorded.body);
+    }
+  });
+}
+
+/**
+ * Redacted, JSON-safe copy of a transport request
+ */
+function toCassetteRequest(
+  request: TransportRequest,
+  redact: <T>(value: T) => T,
+  omitHeaders: string[]
+): CassetteRequest {
+  const parsed = new URL(request.url, 'cassette://local');
+  const path = parsed.protocol === 'cassette:' ? parsed.pathname : `${parsed.origin}${parsed.pathname}`;
+
+  const query: Record<string, string | string[]> = {};
+  parsed.searchParams.forEach((value, name) => {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [...([] as string[]).concat(existing), value];
+  });
+
+  const headers: Record<string, string> = {};
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (!omitHeaders.includes(name.toLowerCase())) {
+      headers[name.toLowerCase()] = value;
+    }
+  });
+
+  const body = request.data !== undefined && request.data !== null && isRawBody(request.data) && typeof request.data !== 'string'
+    ? RAW_BODY
+    : clone(request.data);
+
+  return redact({
+    method: request.method,
+    path,
+    query,
+    headers,
+    ...(body !== undefined && { body }),
+  });
+}
+
+/**
+ * Path and query of a recorded request, for messages
+ */
+function formatUrl(request: CassetteRequest): string {
+  const query = new URLSearchParams();
+  Object.entries(request.query).forEach(([name, value]) => {
+    ([] as string[]).concat(value).forEach(item => query.append(name, item));
+  });
+  const search = query.toString();
+  return `${request.path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * JSON with object keys sorted, so equal values serialize identically
+ */
+function canonicalJson(value: any): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      return item;
+    }
+    return Object.keys(item).sort().reduce<Record<string, any>>((sorted, key) => {
+      sorted[key] = item[key];
+      return sorted;
+    }, {});
+  }) ?? '';
+}
+
+/**
+ * Copy a JSON body so cassettes never share object references with callers
+ */
+function clone(data: any): any {
+  if (data === undefined || data === null || isRawBody(data)) {
+    return data;
+  }
+  return JSON.parse(JSON.stringify(data));
+}
@@ -0,0 +1,30 @@
+/**
+ * Transport selection
+ */
+
+import { AxiosTransport, loadAxios } from './axiosTransport';
+import { FetchTransport } from './fetchTransport';
+import { Transport, TransportType } from './transport';
+
+/**
+ * Create the transport selected in client configuration
+ *
+ * Without an explicit choice, axios is used when it is installed and
+ * fetch otherwise.
+ */
+export function createTransport(transport?: Transport | TransportType): Transport {
+  if (transport && typeof transport === 'object') {
+    return transport;
+  }
+
+  switch (transport) {
+    case 'axios':
+      return new AxiosTransport();
+    case 'fetch':
+      return new FetchTransport();
+    case undefined:
+      return loadAxios() ? new AxiosTransport() : new FetchTransport();
+    default:
+      throw new Error(`Unknown transport: ${transport}`);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Fetch-based transport
+ *
+ * Works wherever a WHATWG fetch implementation is available: browsers,
+ * Node.js 18+, edge/worker runtimes and React Native.
+ */
+
+import { AbortedError, NetworkError, TimeoutError } from '../errors/clientErrors';
+import { throwIfAborted } from '../utils/abort';
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  isRawBody,
+  resolveUrl,
+} from './transport';
+
+/**
+ * Fetch function signature accepted by FetchTransport
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Transport backed by the fetch API
+ */
+export class FetchTransport implements Transport {
+  readonly name = 'fetch';
+
+  /**
+   * @param fetchFn - Custom fetch implementation (defaults to the global fetch)
+   */
+  constructor(private readonly fetchFn?: FetchFunction) {}
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const fetchFn = this.fetchFn ?? (typeof fetch !== 'undefined' ? fetch : undefined);
+    if (!fetchFn) {
+      throw new Error('FetchTransport requires a global fetch implementation or a custom fetch function');
+    }
+
+    const url = resolveUrl(request.url, request.baseUrl);
+    const headers = { ...request.headers };
+    const body = this.serializeBody(request.data, headers);
+
+    throwIfAborted(request.signal);
+
+    // One controller for both the caller's signal and the timeout
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    const timer = request.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+
+    try {
+      const response = await fetchFn(url, {
+        method: request.method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        data: await this.parseBody(response, responseHeaders['content-type']),
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new AbortedError(undefined, request.signal.reason);
+      }
+      if (timedOut) {
+        throw new TimeoutError(request.timeout!);
+      }
+      const target = request.baseUrl ?? url;
+      throw new NetworkError(
+        `Unable to connect to ${target}: ${(error as Error).message}`,
+        error as Error
+      );
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Serialize the request body, adjusting headers to match
+   */
+  private serializeBody(data: any, headers: Record<string, string>): any {
+    if (data === undefined || data === null) {
+      return undefined;
+    }
+
+    if (isRawBody(data)) {
+      // Let fetch set the multipart boundary itself
+      if (typeof FormData !== 'undefined' && data instanceof FormData) {
+        Object.keys(headers)
+          .filter(name => name.toLowerCase() === 'content-type')
+          .forEach(name => delete headers[name]);
+      }
+      return data;
+    }
+
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Parse the response body as JSON when possible, text otherwise
+   */
+  private async parseBody(response: Response, contentType?: string): Promise<any> {
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    if (!contentType || contentType.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * In-memory transport
+ *
+ * Serves requests from registered route handlers without touching the
+ * network. Useful for tests, storybooks and offline development.
+ */
+
+import { raceAbort, throwIfAborted } from '../utils/abort';
+import {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  isRawBody,
+} from './transport';
+
+/**
+ * Context passed to in-memory route handlers
+ */
+export interface MemoryRequestContext {
+  /** Request path without query string */
+  path: string;
+
+  /** Path parameters captured from the route pattern (e.g. `:resourceId`) */
+  params: Record<string, string>;
+
+  /** Query string parameters */
+  query: URLSearchParams;
+}
+
+/**
+ * Response produced by an in-memory route handler
+ */
+export interface MemoryResponse {
+  /** HTTP status code (default: 200) */
+  status?: number;
+
+  /** HTTP status text */
+  statusText?: string;
+
+  /** Response headers */
+  headers?: Record<string, string>;
+
+  /** Response body */
+  data?: any;
+}
+
+/**
+ * In-memory route handler
+ */
+export type MemoryRouteHandler = (
+  request: TransportRequest,
+  context: MemoryRequestContext
+) => MemoryResponse | Promise<MemoryResponse>;
+
+interface MemoryRoute {
+  method: HttpMethod | '*';
+  pattern: RegExp;
+  keys: string[];
+  handler: MemoryRouteHandler;
+}
+
+/**
+ * Transport serving requests from in-memory route handlers
+ *
+ * @example
+ * ```typescript
+ * const transport = new MemoryTransport()
+ *   .on('GET', '/resources/:resourceId', (request, { params }) => ({
+ *     data: { success: true, data: { id: params.resourceId }, meta },
+ *   }));
+ *
+ * const client = new UploadClient({ transport });
+ * ```
+ */
+export class MemoryTransport implements Transport {
+  readonly name = 'memory';
+
+  /** Requests received, in order */
+  readonly requests: TransportRequest[] = [];
+
+  private routes: MemoryRoute[] = [];
+
+  /**
+   * @param fallback - Handler for requests matching no route (default: 404)
+   */
+  constructor(private readonly fallback?: MemoryRouteHandler) {}
+
+  /**
+   * Register a route handler; path segments starting with ':' are captured as params
+   */
+  on(method: HttpMethod | '*', path: string, handler: MemoryRouteHandler): this {
+    const keys: string[] = [];
+    const source = path
+      .replace(/\/+$/, '')
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          keys.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+    return this;
+  }
+
+  /**
+   * Register a route that always returns the same response
+   */
+  reply(method: HttpMethod | '*', path: string, response: MemoryResponse): this {
+    return this.on(method, path, () => response);
+  }
+
+  /**
+   * Remove all routes and recorded requests
+   */
+  reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    throwIfAborted(request.signal);
+    return raceAbort(this.handle<T>(request), request.signal);
+  }
+
+  /**
+   * Dispatch a request to the matching route handler
+   */
+  private async handle<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const received: TransportRequest = {
+      ...request,
+      headers: { ...request.headers },
+      data: this.clone(request.data),
+    };
+    this.requests.push(received);
+
+    const { path, query } = this.parseUrl(request.url);
+
+    for (const route of this.routes) {
+      if (route.method !== '*' && route.method !== request.method) {
+        continue;
+      }
+
+      const match = route.pattern.exec(path);
+      if (!match) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      return this.toResponse(await route.handler(received, { path, params, query }));
+    }
+
+    if (this.fallback) {
+      return this.toResponse(await this.fallback(received, { path, params: {}, query }));
+    }
+
+    return this.toResponse({
+      status: 404,
+      data: {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `No in-memory route for ${request.method} ${path}`,
+        },
+        meta: {
+          requestId: 'memory',
+          timestamp: new Date().toISOString(),
+        },
+      },
+    });
+  }
+
+  /**
+   * Split a request URL into its path and query
+   */
+  private parseUrl(url: string): { path: string; query: URLSearchParams } {
+    const parsed = new URL(url, 'memory://local');
+    return { path: parsed.pathname, query: parsed.searchParams };
+  }
+
+  /**
+   * Build a transport response from a handler result
+   */
+  private toResponse<T>(response: MemoryResponse): TransportResponse<T> {
+    const headers: Record<string, string> = {};
+    Object.entries(response.headers ?? {}).forEach(([name, value]) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    const status = response.status ?? 200;
+    return {
+      status,
+      statusText: response.statusText ?? String(status),
+      headers,
+      data: this.clone(response.data),
+    };
+  }
+
+  /**
+   * Copy JSON bodies so handlers and callers never share object references
+   */
+  private clone(data: any): any {
+    if (data === undefined || data === null || isRawBody(data)) {
+      return data;
+    }
+    return JSON.parse(JSON.stringify(data));
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Transport abstraction used by BaseClient to perform HTTP requests
+ *
+ * A transport sends a single request and resolves with the raw response,
+ * whatever its status code. It only rejects when no response was received
+ * (connection failures, timeouts), and then with a ClientError subclass.
+ */
+
+import type { AxiosRequestConfig } from 'axios';
+
+/**
+ * Supported HTTP methods
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+/**
+ * Built-in transport implementations selectable by name
+ */
+export type TransportType = 'axios' | 'fetch';
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  /** HTTP method */
+  method: HttpMethod;
+
+  /** Request path (resolved against baseUrl) or absolute URL */
+  url: string;
+
+  /** Base URL the path is resolved against */
+  baseUrl?: string;
+
+  /** Request headers */
+  headers: Record<string, string>;
+
+  /** Request body (plain objects are sent as JSON) */
+  data?: any;
+
+  /** Request timeout in milliseconds */
+  timeout?: number;
+
+  /** Cancels the request; transports reject with AbortedError */
+  signal?: AbortSignal;
+
+  /** Extra axios options (AxiosTransport only; other transports ignore them) */
+  axios?: AxiosRequestConfig;
+}
+
+/**
+ * Response returned by a transport
+ */
+export interface TransportResponse<T = any> {
+  /** HTTP status code */
+  status: number;
+
+  /** HTTP status text */
+  statusText: string;
+
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+
+  /** Parsed response body */
+  data: T;
+}
+
+/**
+ * HTTP transport interface
+ */
+export interface Transport {
+  /** Transport name (for logging) */
+  readonly name: string;
+
+  /** Send a request and resolve with the response, whatever its status */
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Resolve a request path against a base URL (absolute URLs are returned unchanged)
+ */
+export function resolveUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+    return url;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Normalize response headers to a plain object with lower-cased names
+ */
+export function normalizeHeaders(headers: Record<string, unknown> | undefined | null): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  if (!headers) {
+    return normalized;
+  }
+
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  });
+
+  return normalized;
+}
+
+/**
+ * Check whether a request body must be sent as-is rather than serialized to JSON
+ */
+export function isRawBody(data: unknown): boolean {
+  if (typeof data === 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return true;
+  }
+  return (
+    (typeof Blob !== 'undefined' && data instanceof Blob) ||
+    (typeof FormData !== 'undefined' && data instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) ||
+    (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream)
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * AbortSignal helpers
+ */
+
+import { AbortedError } from '../errors/clientErrors';
+
+/**
+ * Throw AbortedError if the signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new AbortedError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Settle with a promise, or reject with AbortedError as soon as the signal aborts
+ *
+ * The promise itself keeps running; pass the signal to the operation as well
+ * to stop the underlying work.
+ *
+ * @param onAbort - Called when the signal aborts before the promise settles
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    onAbort?.();
+    return Promise.reject(new AbortedError(undefined, signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(new AbortedError(undefined, signal.reason));
+    };
+    signal.addEventListener('abort', abort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,107 @@
+import { CircuitOpenError, ServerError, ValidationError } from '../errors/clientErrors';
+import { CircuitBreaker, getRouteTemplate } from './circuitBreaker';
+
+const SERVICE = 'LibraryClient';
+const ROUTE = 'GET /library';
+
+const fail = () => Promise.reject(new ServerError('Unavailable', 503));
+const succeed = () => Promise.resolve('ok');
+
+async function failTimes(breaker: CircuitBreaker, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await expect(breaker.execute(SERVICE, ROUTE, fail)).rejects.toBeInstanceOf(ServerError);
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and rejects without calling the operation', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 10000 });
+    const rejected = jest.fn();
+    breaker.on('rejected', rejected);
+
+    await failTimes(breaker, 2);
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('closed');
+    await failTimes(breaker, 1);
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('open');
+
+    const operation = jest.fn(succeed);
+    const error = await breaker.execute(SERVICE, ROUTE, operation).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfter).toBe(10);
+    expect(operation).not.toHaveBeenCalled();
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets the failure count on success and ignores non-service failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    await failTimes(breaker, 1);
+    await breaker.execute(SERVICE, ROUTE, succeed);
+    await failTimes(breaker, 1);
+    await expect(breaker.execute(SERVICE, ROUTE, () => Promise.reject(new ValidationError('Bad request'))))
+      .rejects.toBeInstanceOf(ValidationError);
+
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('closed');
+  });
+
+  it('moves to half-open after the reset timeout and closes on a successful trial', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 5000 });
+    const transitions: string[] = [];
+    breaker.on('stateChange', ({ previousState, state }) => transitions.push(`${previousState}->${state}`));
+
+    await failTimes(breaker, 1);
+    jest.advanceTimersByTime(4999);
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('open');
+    jest.advanceTimersByTime(1);
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('half-open');
+
+    await expect(breaker.execute(SERVICE, ROUTE, succeed)).resolves.toBe('ok');
+
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('closed');
+    expect(transitions).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('reopens when a half-open trial fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 5000 });
+
+    await failTimes(breaker, 1);
+    jest.advanceTimersByTime(5000);
+    await failTimes(breaker, 1);
+
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('open');
+    await expect(breaker.execute(SERVICE, ROUTE, succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('admits only halfOpenMaxCalls concurrent trials', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, halfOpenMaxCalls: 1 });
+    await failTimes(breaker, 1);
+    jest.advanceTimersByTime(1000);
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(SERVICE, ROUTE, () => new Promise<string>(resolve => {
+      finishTrial = resolve;
+    }));
+
+    await expect(breaker.execute(SERVICE, ROUTE, succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState(SERVICE, ROUTE)).toBe('closed');
+  });
+
+  it('keeps separate circuits per route template', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await failTimes(breaker, 1);
+
+    expect(breaker.getState(SERVICE, 'GET /search')).toBe('closed');
+    expect(getRouteTemplate('GET', 'https://api.test/library/collections/42?page=2')).toBe('GET /library/collections/:id');
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Circuit breaker for TuteNet service clients
+ *
+ * Tracks failures per service and route. After repeated failures the circuit
+ * opens and requests fail fast with CircuitOpenError instead of adding load
+ * to a failing backend. Once the reset timeout has passed, a limited number of
+ * trial requests are let through (half-open); their outcome closes the
+ * circuit again or re-opens it.
+ */
+
+import {
+  AbortedError,
+  CircuitOpenError,
+  RateLimitError,
+  isRetryableError
+} from '../errors/clientErrors';
+import { EventListener, TypedEventEmitter, Unsubscribe } from './events';
+
+/**
+ * Circuit states
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+
+  /** Milliseconds the circuit stays open before trial requests are allowed (default: 30000) */
+  resetTimeout?: number;
+
+  /** Concurrent trial requests allowed while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+
+  /** Successful trial requests needed to close the circuit (default: 1) */
+  successThreshold?: number;
+
+  /**
+   * Whether an error counts as a service failure (default: network errors,
+   * timeouts and 5xx; client errors and 429s do not)
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Snapshot of one circuit
+ */
+export interface CircuitSnapshot {
+  /** Client name (e.g. 'LibraryClient') */
+  service: string;
+
+  /** Route template (e.g. 'GET /library/collections/:id') */
+  route: string;
+
+  state: CircuitState;
+
+  /** Consecutive failures while closed */
+  failures: number;
+
+  /** When the circuit last opened (epoch milliseconds) */
+  openedAt?: number;
+}
+
+/**
+ * Events emitted by a CircuitBreaker
+ */
+export interface CircuitBreakerEvents {
+  /** A circuit changed state */
+  stateChange: CircuitSnapshot & {
+    previousState: CircuitState;
+  };
+
+  /** A request was rejected because its circuit is open */
+  rejected: CircuitSnapshot;
+}
+
+interface Circuit {
+  service: string;
+  route: string;
+  state: CircuitState;
+  failures: number;
+  successes: number;
+  trials: number;
+  openedAt?: number;
+}
+
+/**
+ * Default failure classification: the service is unhealthy, not the request
+ */
+export function isCircuitFailure(error: unknown): boolean {
+  return isRetryableError(error) && !RateLimitError.isRateLimitError(error);
+}
+
+/**
+ * Route template for a request URL
+ *
+ * Drops the query string and replaces path segments that look like
+ * identifiers (containing digits) with `:id`, so that all requests for
+ * `/library/collections/42` and `/library/collections/43` share a circuit.
+ */
+export function getRouteTemplate(method: string, url: string): string {
+  const path = url.split(/[?#]/)[0]
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '');
+  const template = path
+    .split('/')
+    .map(segment => (/\d/.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${method.toUpperCase()} ${template || '/'}`;
+}
+
+/**
+ * Circuit breaker keyed by service and route
+ *
+ * Pass one instance to several clients through `ClientOptions.circuitBreaker`
+ * to observe them from a single place.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 10000 });
+ * breaker.on('stateChange', ({ service, route, state }) => {
+ *   console.warn(`${service} ${route} is now ${state}`);
+ * });
+ *
+ * const library = new LibraryClient({ circuitBreaker: breaker });
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly options: Required<CircuitBreakerOptions>;
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly events = new TypedEventEmitter<CircuitBreakerEvents>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeout: options.resetTimeout ?? 30000,
+      halfOpenMaxCalls: options.halfOpenMaxCalls ?? 1,
+      successThreshold: options.successThreshold ?? 1,
+      isFailure: options.isFailure ?? isCircuitFailure,
+    };
+  }
+
+  /**
+   * Run an operation through the circuit for a service and route
+   *
+   * @throws CircuitOpenError when the circuit is open
+   */
+  async execute<T>(service: string, route: string, operation: () => Promise<T>): Promise<T> {
+    const circuit = this.acquire(service, route);
+    const trial = circuit.state === 'half-open';
+
+    try {
+      const result = await operation();
+      this.recordSuccess(circuit);
+      return result;
+    } catch (error) {
+      if (AbortedError.isAbortedError(error)) {
+        // Cancelled by the caller; says nothing about the service
+        throw error;
+      }
+      if (this.options.isFailure(error)) {
+        this.recordFailure(circuit);
+      } else {
+        this.recordSuccess(circuit);
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        circuit.trials--;
+      }
+    }
+  }
+
+  /**
+   * Current state of a circuit
+   */
+  getState(service: string, route: string): CircuitState {
+    const circuit = this.circuits.get(this.key(service, route));
+    return circuit ? this.refresh(circuit).state : 'closed';
+  }
+
+  /**
+   * Snapshot of every known circuit
+   */
+  getCircuits(): CircuitSnapshot[] {
+    return [...this.circuits.values()].map(circuit => this.snapshot(this.refresh(circuit)));
+  }
+
+  /**
+   * Close circuits, for one service and route or all of them
+   */
+  reset(service?: string, route?: string): void {
+    const circuits = service !== undefined && route !== undefined
+      ? [this.circuits.get(this.key(service, route))]
+      : [...this.circuits.values()].filter(circuit => service === undefined || circuit.service === service);
+
+    circuits.forEach(circuit => {
+      if (circuit) {
+        this.transition(circuit, 'closed');
+      }
+    });
+  }
+
+  /**
+   * Subscribe to a circuit breaker event
+   */
+  on<K extends keyof CircuitBreakerEvents>(event: K, listener: EventListener<CircuitBreakerEvents[K]>): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a circuit breaker event
+   */
+  off<K extends keyof CircuitBreakerEvents>(event: K, listener: EventListener<CircuitBreakerEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Admit a request, or throw CircuitOpenError
+   */
+  private acquire(service: string, route: string): Circuit {
+    const key = this.key(service, route);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { service, route, state: 'closed', failures: 0, successes: 0, trials: 0 };
+      this.circuits.set(key, circuit);
+    }
+
+    this.refresh(circuit);
+
+    if (circuit.state === 'closed') {
+      return circuit;
+    }
+
+    if (circuit.state === 'half-open' && circuit.trials < this.options.halfOpenMaxCalls) {
+      circuit.trials++;
+      return circuit;
+    }
+
+    this.events.emit('rejected', this.snapshot(circuit));
+    throw new CircuitOpenError(service, route, this.secondsUntilTrial(circuit));
+  }
+
+  /**
+   * Move an open circuit to half-open once its reset timeout has passed
+   */
+  private refresh(circuit: Circuit): Circuit {
+    if (
+      circuit.state === 'open' &&
+      circuit.openedAt !== undefined &&
+      Date.now() - circuit.openedAt >= this.options.resetTimeout
+    ) {
+      this.transition(circuit, 'half-open');
+    }
+    return circuit;
+  }
+
+  private recordSuccess(circuit: Circuit): void {
+    if (circuit.state === 'half-open') {
+      circuit.successes++;
+      if (circuit.successes >= this.options.successThreshold) {
+        this.transition(circuit, 'closed');
+      }
+      return;
+    }
+
+    circuit.failures = 0;
+  }
+
+  private recordFailure(circuit: Circuit): void {
+    if (circuit.state === 'half-open') {
+      this.transition(circuit, 'open');
+      return;
+    }
+
+    if (circuit.state === 'closed') {
+      circuit.failures++;
+      if (circuit.failures >= this.options.failureThreshold) {
+        this.transition(circuit, 'open');
+      }
+    }
+  }
+
+  private transition(circuit: Circuit, state: CircuitState): void {
+    const previousState = circuit.state;
+
+    circuit.state = state;
+    circuit.successes = 0;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+    } else if (state === 'closed') {
+      circuit.failures = 0;
+      circuit.openedAt = undefined;
+    }
+
+    if (previousState !== state) {
+      this.events.emit('stateChange', { ...this.snapshot(circuit), previousState });
+    }
+  }
+
+  private secondsUntilTrial(circuit: Circuit): number | undefined {
+    if (circuit.state !== 'open' || circuit.openedAt === undefined) {
+      return undefined;
+    }
+    const remaining = circuit.openedAt + this.options.resetTimeout - Date.now();
+    return Math.max(0, Math.ceil(remaining / 1000));
+  }
+
+  private snapshot(circuit: Circuit): CircuitSnapshot {
+    return {
+      service: circuit.service,
+      route: circuit.route,
+      state: circuit.state,
+      failures: circuit.failures,
+      openedAt: circuit.openedAt,
+    };
+  }
+
+  private key(service: string, route: string): string {
+    return `${service} ${route}`;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Clock skew estimation from server timestamps
+ */
+
+/**
+ * Clock skew estimator configuration
+ */
+export interface ClockSkewOptions {
+  /** Number of recent samples the estimate is based on (default: 5) */
+  samples?: number;
+}
+
+/**
+ * Estimate of the offset between the server clock and the local clock
+ *
+ * Each sample compares a server timestamp (e.g. `meta.timestamp` of an API
+ * response) with the midpoint of the request's round trip. The estimate is
+ * the median of the latest samples, so a single slow response does not move it.
+ *
+ * @example
+ * ```typescript
+ * const skew = new ClockSkew();
+ * skew.observe(Date.parse(response.meta.timestamp), sentAt, Date.now());
+ * const serverNow = skew.now();
+ * ```
+ */
+export class ClockSkew {
+  private readonly maxSamples: number;
+  private samples: number[] = [];
+
+  constructor(options: ClockSkewOptions = {}) {
+    this.maxSamples = Math.max(1, options.samples ?? 5);
+  }
+
+  /**
+   * Server clock minus local clock in milliseconds (0 without samples)
+   */
+  get offset(): number {
+    if (this.samples.length === 0) {
+      return 0;
+    }
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+  }
+
+  /**
+   * Record a server timestamp
+   *
+   * @param serverTime - Server time of the response (epoch milliseconds)
+   * @param sentAt - Local time the request was sent (epoch milliseconds)
+   * @param receivedAt - Local time the response was received (epoch milliseconds)
+   */
+  observe(serverTime: number, sentAt: number, receivedAt: number = Date.now()): void {
+    if (!Number.isFinite(serverTime) || receivedAt < sentAt) {
+      return;
+    }
+    this.samples.push(serverTime - (sentAt + receivedAt) / 2);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Current time on the server clock (epoch milliseconds)
+   */
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /**
+   * Forget all samples
+   */
+  reset(): void {
+    this.samples = [];
+  }
+}
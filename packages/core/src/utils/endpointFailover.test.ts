@@ -0,0 +1,200 @@
+import {
+  AbortedError,
+  NetworkError,
+  ServiceUnavailableError,
+  ValidationError
+} from '../errors/clientErrors';
+import { EndpointFailover } from './endpointFailover';
+
+const PRIMARY = 'https://api.tutenet.com/v1';
+const SECONDARY = 'https://me-central-1.api.tutenet.com/v1';
+const TERTIARY = 'https://eu-west-1.api.tutenet.com/v1';
+
+/**
+ * Operation failing with `error` on the given endpoints and echoing the endpoint otherwise
+ */
+function failOn(endpoints: string[], error: () => Error = () => new NetworkError('Unreachable')) {
+  return jest.fn(async (endpoint: string) => {
+    if (endpoints.includes(endpoint)) {
+      throw error();
+    }
+    return endpoint;
+  });
+}
+
+const healthy = () => Promise.resolve(true);
+const unhealthy = () => Promise.resolve(false);
+
+/** Let background probes settle */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('EndpointFailover', () => {
+  it('fails over to the next endpoint on a NetworkError', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    const onFailover = jest.fn();
+    failover.on('failover', onFailover);
+    const operation = failOn([PRIMARY]);
+
+    await expect(failover.execute(operation)).resolves.toBe(SECONDARY);
+
+    expect(operation.mock.calls.map(([endpoint]) => endpoint)).toEqual([PRIMARY, SECONDARY]);
+    expect(onFailover).toHaveBeenCalledWith({
+      from: PRIMARY,
+      to: SECONDARY,
+      error: expect.any(NetworkError),
+    });
+  });
+
+  it('fails over to the next endpoint on a ServiceUnavailableError', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    const operation = failOn([PRIMARY], () => new ServiceUnavailableError('Down'));
+
+    await expect(failover.execute(operation)).resolves.toBe(SECONDARY);
+    expect(failover.getActiveEndpoint()).toBe(SECONDARY);
+  });
+
+  it('does not fail over on other errors or aborts', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+
+    await expect(failover.execute(failOn([PRIMARY], () => new ValidationError('Bad request'))))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(failover.execute(failOn([PRIMARY], () => new AbortedError())))
+      .rejects.toBeInstanceOf(AbortedError);
+    expect(failover.getActiveEndpoint()).toBe(PRIMARY);
+  });
+
+  it('throws the last error once every endpoint failed', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    const operation = failOn([PRIMARY, SECONDARY]);
+
+    await expect(failover.execute(operation)).rejects.toBeInstanceOf(NetworkError);
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(failover.getActiveEndpoint()).toBe(PRIMARY);
+  });
+
+  it('keeps sending to the endpoint it failed over to', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    await failover.execute(failOn([PRIMARY]));
+
+    const operation = failOn([]);
+    await expect(failover.execute(operation)).resolves.toBe(SECONDARY);
+    expect(operation.mock.calls.map(([endpoint]) => endpoint)).toEqual([SECONDARY]);
+  });
+
+  it('wraps around to the preferred endpoints when the active one fails', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY, TERTIARY], healthy);
+    await failover.execute(failOn([PRIMARY, SECONDARY]));
+    expect(failover.getActiveEndpoint()).toBe(TERTIARY);
+
+    await expect(failover.execute(failOn([TERTIARY]))).resolves.toBe(PRIMARY);
+  });
+
+  it('moves away from an endpoint marked unhealthy', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    const onFailover = jest.fn();
+    failover.on('failover', onFailover);
+
+    failover.markUnhealthy(SECONDARY);
+    expect(failover.getActiveEndpoint()).toBe(PRIMARY);
+    failover.markUnhealthy(PRIMARY);
+
+    expect(failover.getActiveEndpoint()).toBe(SECONDARY);
+    expect(onFailover).toHaveBeenCalledWith({ from: PRIMARY, to: SECONDARY, error: undefined });
+  });
+
+  it('reports which endpoint served each response', async () => {
+    const failover = new EndpointFailover([PRIMARY, SECONDARY], healthy);
+    const served = jest.fn();
+    failover.on('served', served);
+
+    await failover.execute(failOn([]));
+    await failover.execute(failOn([PRIMARY]));
+
+    expect(served.mock.calls).toEqual([
+      [{ endpoint: PRIMARY, primary: true }],
+      [{ endpoint: SECONDARY, primary: false }],
+    ]);
+  });
+
+  describe('probing back to the primary', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('returns to the primary once its probe passes after the interval', async () => {
+      const probe = jest.fn(healthy);
+      const failover = new EndpointFailover([PRIMARY, SECONDARY], probe, { probeInterval: 30000 });
+      const recovered = jest.fn();
+      failover.on('recovered', recovered);
+      await failover.execute(failOn([PRIMARY]));
+
+      jest.advanceTimersByTime(29999);
+      await failover.execute(failOn([]));
+      await flush();
+      expect(probe).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      await expect(failover.execute(failOn([]))).resolves.toBe(SECONDARY);
+      await flush();
+
+      expect(probe).toHaveBeenCalledWith(PRIMARY);
+      expect(recovered).toHaveBeenCalledWith({ from: SECONDARY, to: PRIMARY });
+      await expect(failover.execute(failOn([]))).resolves.toBe(PRIMARY);
+    });
+
+    it('stays failed over while the primary is unhealthy', async () => {
+      const probe = jest.fn(unhealthy);
+      const failover = new EndpointFailover([PRIMARY, SECONDARY], probe, { probeInterval: 1000 });
+      await failover.execute(failOn([PRIMARY]));
+
+      jest.advanceTimersByTime(1000);
+      await failover.execute(failOn([]));
+      await flush();
+      expect(probe).toHaveBeenCalledTimes(1);
+      expect(failover.getActiveEndpoint()).toBe(SECONDARY);
+
+      // The next probe waits for another interval
+      await failover.execute(failOn([]));
+      await flush();
+      expect(probe).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns to the first healthy preferred endpoint', async () => {
+      const probe = jest.fn(async (endpoint: string) => endpoint === SECONDARY);
+      const failover = new EndpointFailover([PRIMARY, SECONDARY, TERTIARY], probe, { probeInterval: 1000 });
+      await failover.execute(failOn([PRIMARY, SECONDARY]));
+
+      jest.advanceTimersByTime(1000);
+      await failover.execute(failOn([]));
+      await flush();
+
+      expect(probe.mock.calls.map(([endpoint]) => endpoint)).toEqual([PRIMARY, SECONDARY]);
+      expect(failover.getActiveEndpoint()).toBe(SECONDARY);
+    });
+
+    it('does not probe while on the primary', async () => {
+      const probe = jest.fn(healthy);
+      const failover = new EndpointFailover([PRIMARY, SECONDARY], probe, { probeInterval: 0 });
+
+      jest.advanceTimersByTime(60000);
+      await failover.execute(failOn([]));
+      await flush();
+
+      expect(probe).not.toHaveBeenCalled();
+    });
+  });
+
+  it('requires at least one endpoint and a non-negative probe interval', () => {
+    expect(() => new EndpointFailover([], healthy)).toThrow('At least one endpoint is required');
+    expect(() => new EndpointFailover([PRIMARY], healthy, { probeInterval: -1 }))
+      .toThrow('probeInterval must not be negative');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Failover between endpoints of the same API, e.g. in several regions
+ *
+ * Requests go to the active endpoint. When it fails with a network error,
+ * timeout or 503, the request moves on to the next endpoint in order and
+ * that endpoint stays active (sticky). While failed over, endpoints ahead of
+ * the active one are probed periodically and traffic returns to the first
+ * one that is healthy again.
+ */
+
+import {
+  AbortedError,
+  NetworkError,
+  ServiceUnavailableError,
+  TimeoutError
+} from '../errors/clientErrors';
+import { EventListener, TypedEventEmitter, Unsubscribe } from './events';
+
+/**
+ * Endpoint failover configuration
+ */
+export interface EndpointFailoverOptions {
+  /** Milliseconds between probes of preferred endpoints while failed over (default: 30000) */
+  probeInterval?: number;
+
+  /**
+   * Whether an error moves the request to the next endpoint
+   * (default: NetworkError, TimeoutError and ServiceUnavailableError)
+   */
+  shouldFailover?: (error: unknown) => boolean;
+}
+
+/**
+ * Events emitted by an EndpointFailover
+ */
+export interface EndpointFailoverEvents {
+  /** The active endpoint failed and another one took over */
+  failover: {
+    from: string;
+    to: string;
+    error?: unknown;
+  };
+
+  /** A preferred endpoint passed its probe and is active again */
+  recovered: {
+    from: string;
+    to: string;
+  };
+
+  /** An endpoint served a response */
+  served: {
+    endpoint: string;
+
+    /** Whether the endpoint is the primary (first) one */
+    primary: boolean;
+  };
+}
+
+/**
+ * Checks whether an endpoint is healthy
+ */
+export type EndpointProbe = (endpoint: string) => Promise<boolean>;
+
+/**
+ * Default failover classification: the endpoint is unreachable or unavailable
+ */
+export function isFailoverError(error: unknown): boolean {
+  return (
+    NetworkError.isNetworkError(error) ||
+    TimeoutError.isTimeoutError(error) ||
+    ServiceUnavailableError.isServiceUnavailableError(error)
+  );
+}
+
+/**
+ * Ordered endpoints with sticky failover and probing back to the primary
+ *
+ * @example
+ * ```typescript
+ * const failover = new EndpointFailover(
+ *   ['https://api.tutenet.com/v1', 'https://me-central-1.api.tutenet.com/v1'],
+ *   (endpoint) => fetch(`${endpoint}/health`).then(response => response.ok)
+ * );
+ * failover.on('failover', ({ from, to }) => console.warn(`${from} failed, using ${to}`));
+ *
+ * const data = await failover.execute(endpoint => callApi(endpoint));
+ * ```
+ */
+export class EndpointFailover {
+  private readonly endpoints: string[];
+  private readonly probeInterval: number;
+  private readonly shouldFailover: (error: unknown) => boolean;
+  private readonly events = new TypedEventEmitter<EndpointFailoverEvents>();
+  private active = 0;
+  private lastProbe = 0;
+  private probing = false;
+
+  constructor(endpoints: string[], private readonly probe: EndpointProbe, options: EndpointFailoverOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one endpoint is required');
+    }
+    if (options.probeInterval !== undefined && options.probeInterval < 0) {
+      throw new Error('probeInterval must not be negative');
+    }
+
+    this.endpoints = [...endpoints];
+    this.probeInterval = options.probeInterval ?? 30000;
+    this.shouldFailover = options.shouldFailover ?? isFailoverError;
+  }
+
+  /**
+   * Run an operation against the active endpoint, failing over in order
+   *
+   * @throws The last failover error when every endpoint failed, or the first
+   * error that does not trigger failover
+   */
+  async execute<T>(operation: (endpoint: string) => Promise<T>): Promise<T> {
+    this.probeIfDue();
+
+    const start = this.active;
+    let lastError: unknown;
+
+    for (let offset = 0; offset < this.endpoints.length; offset++) {
+      const index = (start + offset) % this.endpoints.length;
+      const endpoint = this.endpoints[index];
+
+      try {
+        const result = await operation(endpoint);
+        if (index !== this.active) {
+          this.activate(index, lastError);
+        }
+        this.events.emit('served', { endpoint, primary: index === 0 });
+        return result;
+      } catch (error) {
+        if (AbortedError.isAbortedError(error) || !this.shouldFailover(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Move away from an endpoint found unhealthy outside a request (e.g. by a health check)
+   */
+  markUnhealthy(endpoint: string): void {
+    if (this.endpoints[this.active] === endpoint && this.endpoints.length > 1) {
+      this.activate((this.active + 1) % this.endpoints.length);
+    }
+  }
+
+  /**
+   * Endpoint currently receiving requests
+   */
+  getActiveEndpoint(): string {
+    return this.endpoints[this.active];
+  }
+
+  /**
+   * All endpoints in failover order
+   */
+  getEndpoints(): string[] {
+    return [...this.endpoints];
+  }
+
+  /**
+   * Subscribe to a failover event
+   */
+  on<K extends keyof EndpointFailoverEvents>(event: K, listener: EventListener<EndpointFailoverEvents[K]>): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a failover event
+   */
+  off<K extends keyof EndpointFailoverEvents>(event: K, listener: EventListener<EndpointFailoverEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  private activate(index: number, error?: unknown): void {
+    const from = this.endpoints[this.active];
+    this.active = index;
+    // Give the new endpoint a full interval before probing back
+    this.lastProbe = Date.now();
+    this.events.emit('failover', { from, to: this.endpoints[index], error });
+  }
+
+  /**
+   * Probe preferred endpoints in the background once the interval has passed
+   *
+   * Probing is driven by traffic, so an idle client keeps no timers.
+   */
+  private probeIfDue(): void {
+    if (this.active === 0 || this.probing || Date.now() - this.lastProbe < this.probeInterval) {
+      return;
+    }
+
+    this.probing = true;
+    this.lastProbe = Date.now();
+    this.probePreferred()
+      .catch(() => undefined)
+      .finally(() => {
+        this.probing = false;
+      });
+  }
+
+  private async probePreferred(): Promise<void> {
+    const current = this.active;
+    for (let index = 0; index < current; index++) {
+      const healthy = await this.probe(this.endpoints[index]).catch(() => false);
+      if (healthy) {
+        // Requests may have failed over further while probing
+        if (index < this.active) {
+          const from = this.endpoints[this.active];
+          this.active = index;
+          this.events.emit('recovered', { from, to: this.endpoints[index] });
+        }
+        return;
+      }
+    }
+  }
+}
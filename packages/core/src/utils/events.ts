@@ -0,0 +1,127 @@
+/**
+ * Typed event emitter utilities
+ *
+ * Runtime-agnostic (no dependency on Node's `events` module) so that it works
+ * in browsers, React Native and workers alike.
+ */
+
+/**
+ * Event listener for a payload type
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Function that removes a listener when called
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Any event of an event map, as a `{ type, payload }` union
+ */
+export type AnyEvent<Events extends object> = {
+  [K in keyof Events]: { type: K; payload: Events[K] };
+}[keyof Events];
+
+/**
+ * Minimal typed event emitter
+ *
+ * `Events` maps each event name to its payload type.
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ changed: { value: number } }>();
+ * const unsubscribe = emitter.on('changed', ({ value }) => console.log(value));
+ * emitter.emit('changed', { value: 1 });
+ * unsubscribe();
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<any>>>();
+  private readonly anyListeners = new Set<EventListener<AnyEvent<Events>>>();
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Subscribe to every event
+   */
+  onAny(listener: EventListener<AnyEvent<Events>>): Unsubscribe {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Emit an event to all current listeners
+   *
+   * Listener errors are isolated so that one failing listener cannot break
+   * the emitter or the other listeners.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      [...listeners].forEach(listener => callListener(listener, payload));
+    }
+
+    if (this.anyListeners.size > 0) {
+      const anyEvent = { type: event, payload } as AnyEvent<Events>;
+      [...this.anyListeners].forEach(listener => callListener(listener, anyEvent));
+    }
+  }
+
+  /**
+   * Number of listeners for an event
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove all listeners, optionally for one event only
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.listeners.clear();
+      this.anyListeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
+
+function callListener<T>(listener: EventListener<T>, payload: T): void {
+  try {
+    listener(payload);
+  } catch {
+    // Ignore listener failures
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Identifier generation utilities
+ */
+
+/**
+ * Subset of the Web Crypto API used here
+ */
+interface RandomSource {
+  randomUUID?(): string;
+  getRandomValues?(array: Uint8Array): Uint8Array;
+}
+
+/**
+ * Generate a random UUID (v4)
+ *
+ * Uses `crypto.randomUUID` where available (browsers, Node.js 19+, workers),
+ * falling back to `crypto.getRandomValues` and finally to Math.random.
+ */
+export function generateId(): string {
+  const cryptoApi = (globalThis as { crypto?: RandomSource }).crypto;
+  if (typeof cryptoApi?.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  const bytes = randomBytes(16);
+
+  // Version 4, RFC 4122 variant
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = toHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Generate an idempotency key for one logical operation
+ *
+ * Reuse the key for every attempt of the operation so that the API can
+ * recognise retries.
+ */
+export function generateIdempotencyKey(): string {
+  return generateId();
+}
+
+/**
+ * Random lowercase hex string of the given number of bytes
+ */
+export function randomHex(byteLength: number): string {
+  return toHex(randomBytes(byteLength));
+}
+
+/**
+ * Random bytes from `crypto.getRandomValues`, falling back to Math.random
+ */
+function randomBytes(length: number): Uint8Array {
+  const cryptoApi = (globalThis as { crypto?: RandomSource }).crypto;
+  const bytes = new Uint8Array(length);
+  if (typeof cryptoApi?.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,81 @@
+/**
+ * Rate limit header parsing utilities
+ */
+
+/**
+ * Server rate limit quota, from X-RateLimit-* headers
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window */
+  limit?: number;
+
+  /** Requests remaining in the current window */
+  remaining?: number;
+
+  /** When the current window resets (epoch milliseconds) */
+  resetAt?: number;
+
+  /** When this information was received (epoch milliseconds) */
+  updatedAt: number;
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * Accepts both forms allowed by RFC 9110: delay in seconds or an HTTP date.
+ *
+ * @returns Delay in seconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Parse X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers
+ *
+ * X-RateLimit-Reset may be either epoch seconds or seconds until the reset.
+ *
+ * @param headers - Response headers with lower-cased names
+ * @returns Quota information, or undefined if no rate limit header is present
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): RateLimitInfo | undefined {
+  const limit = toNumber(headers['x-ratelimit-limit']);
+  const remaining = toNumber(headers['x-ratelimit-remaining']);
+  const reset = toNumber(headers['x-ratelimit-reset']);
+
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return undefined;
+  }
+
+  let resetAt: number | undefined;
+  if (reset !== undefined) {
+    // Values this large can only be epoch seconds
+    resetAt = reset > 1e9 ? reset * 1000 : now + reset * 1000;
+  }
+
+  return { limit, remaining, resetAt, updatedAt: now };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
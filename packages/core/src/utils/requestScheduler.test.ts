@@ -0,0 +1,101 @@
+import { AbortedError } from '../errors/clientErrors';
+import { RequestPriority, RequestScheduler } from './requestScheduler';
+
+/**
+ * Task that stays running until released
+ */
+function deferredTask(log: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const task = async () => {
+    log.push(`start ${name}`);
+    await done;
+    return name;
+  };
+  return { task, release };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  it('never runs more than maxConcurrent tasks at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(task)));
+
+    expect(peak).toBe(2);
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: { high: 0, normal: 0, low: 0 } });
+  });
+
+  it('starts waiting tasks highest priority first, FIFO within a lane', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const log: string[] = [];
+    const blocker = deferredTask(log, 'blocker');
+    const running = [scheduler.schedule(blocker.task)];
+
+    const queued: Array<[string, RequestPriority]> = [
+      ['low-1', 'low'], ['normal-1', 'normal'], ['high-1', 'high'], ['low-2', 'low'], ['high-2', 'high'],
+    ];
+    queued.forEach(([name, priority]) => {
+      running.push(scheduler.schedule(async () => {
+        log.push(`start ${name}`);
+        return name;
+      }, priority));
+    });
+
+    await flush();
+    expect(scheduler.getStats().queued).toEqual({ high: 2, normal: 1, low: 2 });
+
+    blocker.release();
+    await Promise.all(running);
+
+    expect(log).toEqual(['start blocker', 'start high-1', 'start high-2', 'start normal-1', 'start low-1', 'start low-2']);
+  });
+
+  it('removes an aborted task from the queue', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const log: string[] = [];
+    const blocker = deferredTask(log, 'blocker');
+    const first = scheduler.schedule(blocker.task);
+    const controller = new AbortController();
+    const skipped = jest.fn(async () => 'skipped');
+
+    const aborted = scheduler.schedule(skipped, 'normal', controller.signal);
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+    blocker.release();
+    await first;
+    expect(skipped).not.toHaveBeenCalled();
+    expect(scheduler.getStats().queued.normal).toBe(0);
+  });
+
+  it('paces task starts with the token bucket', async () => {
+    jest.useFakeTimers();
+    try {
+      const scheduler = new RequestScheduler({ requestsPerSecond: 2, burst: 1 });
+      const started: number[] = [];
+      const startedAt = Date.now();
+      const tasks = Array.from({ length: 3 }, () => scheduler.schedule(async () => {
+        started.push(Date.now() - startedAt);
+      }));
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(tasks);
+
+      expect(started).toEqual([0, 500, 1000]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Client-side request scheduling: concurrency cap, token bucket rate limit
+ * and priority lanes
+ */
+
+import { AbortedError } from '../errors/clientErrors';
+import { throwIfAborted } from './abort';
+
+/**
+ * Priority lanes, served in this order
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Request scheduler configuration
+ */
+export interface RequestSchedulerOptions {
+  /** Maximum requests in flight at once (default: unlimited) */
+  maxConcurrent?: number;
+
+  /** Token bucket refill rate in requests per second (default: unlimited) */
+  requestsPerSecond?: number;
+
+  /** Token bucket capacity, i.e. the largest burst allowed (default: requestsPerSecond, at least 1) */
+  burst?: number;
+}
+
+/**
+ * Scheduler load
+ */
+export interface RequestSchedulerStats {
+  /** Requests currently running */
+  active: number;
+
+  /** Requests waiting, per priority lane */
+  queued: Record<RequestPriority, number>;
+}
+
+/**
+ * Limits how many requests run at once and how fast they start
+ *
+ * Waiting requests are started highest priority first, FIFO within a lane,
+ * so interactive calls overtake queued background work.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new RequestScheduler({ maxConcurrent: 6, requestsPerSecond: 10 });
+ * const result = await scheduler.schedule(() => fetchSomething(), 'low');
+ * ```
+ */
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly requestsPerSecond?: number;
+  private readonly burst: number;
+  private readonly queues: Record<RequestPriority, Array<() => void>> = { high: [], normal: [], low: [] };
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    if (options.maxConcurrent !== undefined && options.maxConcurrent < 1) {
+      throw new Error('maxConcurrent must be at least 1');
+    }
+    if (options.requestsPerSecond !== undefined && options.requestsPerSecond <= 0) {
+      throw new Error('requestsPerSecond must be greater than 0');
+    }
+
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.burst = Math.max(1, options.burst ?? options.requestsPerSecond ?? 1);
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Run a task once a slot (and a rate limit token) is available
+   *
+   * @param signal - Removes the task from the queue while it is waiting
+   */
+  async schedule<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    await new Promise<void>((resolve, reject) => {
+      const queue = this.queues[priority];
+      const abort = () => {
+        const index = queue.indexOf(start);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(new AbortedError(undefined, signal?.reason));
+        }
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', abort, { once: true });
+      queue.push(start);
+      this.drain();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Current load
+   */
+  getStats(): RequestSchedulerStats {
+    return {
+      active: this.active,
+      queued: {
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length,
+      },
+    };
+  }
+
+  /**
+   * Start as many waiting tasks as the limits allow
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.active < this.maxConcurrent) {
+      const lane = PRIORITIES.find(priority => this.queues[priority].length > 0);
+      if (!lane) {
+        return;
+      }
+
+      if (this.requestsPerSecond !== undefined) {
+        if (this.tokens < 1) {
+          this.waitForToken();
+          return;
+        }
+        this.tokens--;
+      }
+
+      this.active++;
+      this.queues[lane].shift()!();
+    }
+  }
+
+  private refill(): void {
+    if (this.requestsPerSecond === undefined) {
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private waitForToken(): void {
+    if (this.timer || this.requestsPerSecond === undefined) {
+      return;
+    }
+    const delay = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
+
+const sharedSchedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Scheduler shared by every client of a base URL
+ *
+ * The first call for a base URL creates the scheduler with its options;
+ * later calls return the same instance.
+ */
+export function getSharedScheduler(baseUrl: string, options: RequestSchedulerOptions = {}): RequestScheduler {
+  let scheduler = sharedSchedulers.get(baseUrl);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(options);
+    sharedSchedulers.set(baseUrl, scheduler);
+  }
+  return scheduler;
+}
@@ -2,6 +2,10 @@
  * Retry utilities with exponential backoff
  */
 
+import { AbortedError } from '../errors/clientErrors';
+import { throwIfAborted } from './abort';
+import { CLIENT_METRICS, MetricTags, MetricsSink, getErrorCode } from '../metrics/metrics';
+
 /**
  * Retry configuration
  */
@@ -26,12 +30,28 @@ export interface RetryConfig {
   
   /** Callback called before each retry */
   onRetry?: (error: any, attempt: number) => void;
+  
+  /**
+   * Server-specified delay in milliseconds for an error, used instead of the
+   * backoff delay (default: the error's Retry-After). When it exceeds maxDelay
+   * the operation is not retried.
+   */
+  retryAfter?: (error: any) => number | undefined;
+
+  /** Stops retrying: pending and later attempts and backoff sleeps reject with AbortedError */
+  signal?: AbortSignal;
+
+  /** Counts each retry (CLIENT_METRICS.retries), tagged with the error code that caused it */
+  metrics?: MetricsSink;
+
+  /** Tags of the retry counter, e.g. service and route */
+  metricTags?: MetricTags;
 }
 
 /**
  * Default retry configuration
  */
-const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'signal' | 'metrics' | 'metricTags'>> = {
   maxAttempts: 3,
   initialDelay: 1000,
   maxDelay: 30000,
@@ -39,6 +59,7 @@ const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
   jitter: true,
   shouldRetry: () => true,
   onRetry: () => {},
+  retryAfter: getRetryAfterDelay,
 };
 
 /**
@@ -52,6 +73,8 @@ export async function retry<T>(
   let lastError: any;
   
   for (let attempt = 1; attempt <= finalConfig.maxAttempts; attempt++) {
+    throwIfAborted(finalConfig.signal);
+
     try {
       return await operation();
     } catch (error) {
@@ -67,11 +90,24 @@ export async function retry<T>(
         break;
       }
       
+      // Honor the server-specified delay; give up if it is longer than we may wait
+      const serverDelay = finalConfig.retryAfter(error);
+      if (serverDelay !== undefined && serverDelay > finalConfig.maxDelay) {
+        break;
+      }
+      
       // Call retry callback
       finalConfig.onRetry(error, attempt);
+      if (finalConfig.metrics) {
+        const errorCode = getErrorCode(error);
+        finalConfig.metrics.increment(CLIENT_METRICS.retries, {
+          ...finalConfig.metricTags,
+          ...(errorCode ? { error_code: errorCode } : {}),
+        });
+      }
       
       // Calculate delay with exponential backoff
-      const delay = calculateDelay(
+      const delay = serverDelay ?? calculateDelay(
         attempt - 1,
         finalConfig.initialDelay,
         finalConfig.maxDelay,
@@ -80,13 +116,23 @@ export async function retry<T>(
       );
       
       // Wait before retrying
-      await sleep(delay);
+      await sleep(delay, finalConfig.signal);
     }
   }
   
   throw lastError;
 }
 
+/**
+ * Server-specified retry delay of an error in milliseconds
+ *
+ * Reads the `retryAfter` (seconds) of RateLimitError and ServiceUnavailableError.
+ */
+export function getRetryAfterDelay(error: any): number | undefined {
+  const retryAfter = error?.retryAfter;
+  return typeof retryAfter === 'number' && retryAfter >= 0 ? retryAfter * 1000 : undefined;
+}
+
 /**
  * Calculate delay with exponential backoff
  */
@@ -132,9 +178,26 @@ export function* exponentialBackoff(
 
 /**
  * Sleep for specified milliseconds
+ *
+ * Rejects with AbortedError as soon as the signal aborts.
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError(undefined, signal.reason));
+      return;
+    }
+
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError(undefined, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Access to the Web Crypto API across runtimes
+ */
+
+/**
+ * Subset of the Web Crypto API used by the clients
+ */
+export interface WebCrypto {
+  getRandomValues(array: Uint8Array): Uint8Array;
+  subtle: {
+    digest(algorithm: string, data: Uint8Array): Promise<ArrayBuffer>;
+    importKey(format: 'raw', keyData: ArrayBuffer, algorithm: string, extractable: boolean, usages: string[]): Promise<unknown>;
+    encrypt(algorithm: { name: string; iv: Uint8Array }, key: unknown, data: Uint8Array): Promise<ArrayBuffer>;
+    decrypt(algorithm: { name: string; iv: Uint8Array }, key: unknown, data: Uint8Array): Promise<ArrayBuffer>;
+  };
+}
+
+/**
+ * Global Web Crypto API, falling back to Node's `crypto.webcrypto`
+ *
+ * @returns undefined when the runtime has neither
+ */
+export function getWebCrypto(): WebCrypto | undefined {
+  const cryptoApi = (globalThis as { crypto?: WebCrypto }).crypto;
+  if (cryptoApi?.subtle) {
+    return cryptoApi;
+  }
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const nodeCrypto = require('crypto');
+    return nodeCrypto.webcrypto?.subtle ? nodeCrypto.webcrypto : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * SHA-256 digest of a string, hex encoded
+ */
+export async function sha256Hex(value: string, crypto: WebCrypto): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
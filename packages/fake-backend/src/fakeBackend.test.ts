@@ -0,0 +1,110 @@
+import { AuthClient } from '@tutenet/auth-client';
+import { MemoryTransport, ServiceUnavailableError } from '@tutenet/client-core';
+import { LibraryClient } from '@tutenet/library-client';
+import { FakeBackend } from './fakeBackend';
+
+const EMAIL = 'teacher@example.com';
+const PASSWORD = 'Password123';
+
+function countRequests(backend: FakeBackend, method: string, url: string): number {
+  return backend.requests.filter(request => request.method === method && request.url === url).length;
+}
+
+describe('FakeBackend', () => {
+  it('runs the sign up, verification and sign in flow', async () => {
+    const backend = new FakeBackend();
+    const auth = new AuthClient({ transport: backend.transport, retries: 0 });
+
+    const signUp = await auth.signUp({ email: EMAIL, password: PASSWORD, firstName: 'Ann', lastName: 'Lee' });
+    expect(signUp.success).toBe(true);
+
+    const unverified = await auth.signIn({ email: EMAIL, password: PASSWORD });
+    expect(unverified.success).toBe(false);
+    expect(!unverified.success && unverified.error.code).toBe('EMAIL_NOT_VERIFIED');
+
+    const code = backend.getVerificationCode(EMAIL)!;
+    expect((await auth.verifyEmail({ email: EMAIL, code })).success).toBe(true);
+
+    const signIn = await auth.signIn({ email: EMAIL, password: PASSWORD });
+    expect(signIn.success).toBe(true);
+  });
+
+  describe('expired access tokens', () => {
+    async function signIn(backend: FakeBackend) {
+      const user = backend.createUser({ email: EMAIL });
+      const auth = new AuthClient({ transport: backend.transport, retries: 0 });
+      const session = auth.createSession(backend.issueTokens(user.userId));
+      const library = new LibraryClient({ transport: backend.transport, tokenProvider: session, retries: 0 });
+      return { user, session, library };
+    }
+
+    it('refreshes once and replays every request that got a 401', async () => {
+      const backend = new FakeBackend();
+      const { session, library } = await signIn(backend);
+      const expiredToken = session.getTokens()!.accessToken;
+
+      backend.expireAccessTokens();
+      const responses = await Promise.all([
+        library.getLibraryItems(undefined, { dedupe: false }),
+        library.getCollections({ dedupe: false }),
+        library.getLibraryItems({ state: 'active' }, { dedupe: false }),
+      ]);
+
+      expect(responses.map(response => response.success)).toEqual([true, true, true]);
+      expect(countRequests(backend, 'POST', '/auth/refresh')).toBe(1);
+      expect(session.getTokens()!.accessToken).not.toBe(expiredToken);
+
+      const withExpiredToken = backend.requests.filter(request => request.headers.Authorization === `Bearer ${expiredToken}`);
+      const withNewToken = backend.requests.filter(request =>
+        request.headers.Authorization === `Bearer ${session.getTokens()!.accessToken}`);
+      expect(withExpiredToken).toHaveLength(3);
+      expect(withNewToken).toHaveLength(3);
+    });
+
+    it('ends the session when the refresh token was revoked', async () => {
+      const backend = new FakeBackend();
+      const { user, session, library } = await signIn(backend);
+      const expired = jest.fn();
+      session.on('sessionExpired', expired);
+
+      backend.revokeTokens(user.userId);
+      const response = await library.getCollections();
+
+      expect(response.success).toBe(false);
+      expect(countRequests(backend, 'POST', '/auth/refresh')).toBe(1);
+      expect(session.isAuthenticated()).toBe(false);
+      expect(expired).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the session through a refresh outage', async () => {
+      const backend = new FakeBackend();
+      const user = backend.createUser({ email: EMAIL });
+      let outage = true;
+      const transport = new MemoryTransport(request => backend.transport.request(request))
+        .on('POST', '/auth/refresh', request => (outage
+          ? {
+            status: 503,
+            headers: { 'retry-after': '0' },
+            data: { success: false, error: { code: 'SERVICE_UNAVAILABLE', message: 'Auth Service is down' } },
+          }
+          : backend.transport.request(request)));
+      const auth = new AuthClient({ transport, retries: 0 });
+      const session = auth.createSession(backend.issueTokens(user.userId));
+      const library = new LibraryClient({ transport: backend.transport, tokenProvider: session, retries: 0 });
+      const expired = jest.fn();
+      session.on('sessionExpired', expired);
+
+      backend.expireAccessTokens();
+      await expect(library.getCollections({ dedupe: false })).rejects.toBeInstanceOf(ServiceUnavailableError);
+
+      expect(session.isAuthenticated()).toBe(true);
+      expect(expired).not.toHaveBeenCalled();
+
+      outage = false;
+      const recovered = await library.getCollections({ dedupe: false });
+
+      expect(recovered.success).toBe(true);
+      expect(countRequests(backend, 'POST', '/auth/refresh')).toBe(1);
+    });
+  });
+});
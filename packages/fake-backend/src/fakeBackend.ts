@@ -0,0 +1,580 @@
+/**
+ * Stateful in-memory stand-in for the TuteNet APIs
+ *
+ * Serves every route the TuteNet clients call from one MemoryTransport,
+ * with shared state: a user signed up through AuthClient can upload with
+ * UploadClient, find the resource through SearchClient and save it with
+ * LibraryClient. Ids, tokens and verification codes are deterministic.
+ */
+
+import {
+  HttpMethod,
+  MemoryRequestContext,
+  MemoryResponse,
+  MemoryTransport,
+  TransportRequest,
+} from '@tutenet/client-core';
+import type { AuthTokens } from '@tutenet/auth-client';
+import type { LibraryItem, LibrarySource } from '@tutenet/library-client';
+import {
+  Language,
+  ResourceStatus,
+  ResourceSummary,
+  ResourceType,
+  ResourceVisibility,
+  Subject,
+} from '@tutenet/upload-client';
+import { FakeApiError, getHeader, notFound } from './responses';
+import { FakeBackendState, FakeUser, createState } from './state';
+import { registerAuthRoutes } from './routes/authRoutes';
+import { registerLibraryRoutes } from './routes/libraryRoutes';
+import { registerProfileRoutes } from './routes/profileRoutes';
+import { registerSearchRoutes } from './routes/searchRoutes';
+import { registerUploadRoutes } from './routes/uploadRoutes';
+
+/**
+ * Fake backend configuration
+ */
+export interface FakeBackendOptions {
+  /** Clock for timestamps and token expiry (default: system clock) */
+  now?: () => Date;
+
+  /** Access token lifetime in milliseconds (default: 1 hour) */
+  accessTokenTtl?: number;
+
+  /** Whether sign-in requires a verified email (default: true) */
+  requireEmailVerification?: boolean;
+}
+
+/**
+ * User to create directly in the fake backend
+ */
+export interface FakeUserInput {
+  email: string;
+
+  /** Password (default: 'Password123') */
+  password?: string;
+
+  firstName?: string;
+  lastName?: string;
+  subjects?: string[];
+  languages?: string[];
+
+  /** Whether the email is verified (default: true) */
+  emailVerified?: boolean;
+}
+
+/**
+ * Resource to create directly in the fake backend; omitted fields get
+ * defaults (a published, public, free standalone Mathematics resource)
+ */
+export type FakeResourceInput = Partial<ResourceSummary> & Pick<ResourceSummary, 'title'>;
+
+/**
+ * Context passed to fake route handlers
+ */
+export interface FakeRequestContext extends MemoryRequestContext {
+  /** User of the request's access token */
+  user?: FakeUser;
+
+  /** Request body */
+  body: any;
+}
+
+/**
+ * Successful result of a fake route handler, wrapped in a SuccessResponse
+ */
+export interface FakeResult {
+  /** HTTP status code (default: 200) */
+  status?: number;
+
+  /** Response data */
+  data: unknown;
+}
+
+/**
+ * Fake route handler; throws FakeApiError for error responses
+ */
+export type FakeRouteHandler = (context: FakeRequestContext, request: TransportRequest) => FakeResult;
+
+/**
+ * Fake route options
+ */
+export interface FakeRouteOptions {
+  /** Whether the route requires an access token (default: false) */
+  auth?: boolean;
+}
+
+const DEFAULT_PASSWORD = 'Password123';
+const DEFAULT_ACCESS_TOKEN_TTL = 60 * 60 * 1000;
+
+/**
+ * In-memory TuteNet backend
+ *
+ * @example
+ * ```typescript
+ * import { FakeBackend } from '@tutenet/fake-backend';
+ *
+ * const backend = new FakeBackend();
+ * const auth = new AuthClient({ transport: backend.transport });
+ * const library = new LibraryClient({ transport: backend.transport });
+ *
+ * const teacher = backend.createUser({ email: 'teacher@example.com' });
+ * const resource = backend.createResource(teacher.userId, { title: 'Fractions' });
+ *
+ * const signIn = await auth.signIn({ email: 'teacher@example.com', password: 'Password123' });
+ * ```
+ */
+export class FakeBackend {
+  /** Transport serving the fake routes; pass it to any TuteNet client */
+  readonly transport = new MemoryTransport();
+
+  /** Stored records */
+  state: FakeBackendState = createState();
+
+  private readonly options: Required<FakeBackendOptions>;
+  private counters = new Map<string, number>();
+
+  constructor(options: FakeBackendOptions = {}) {
+    this.options = {
+      now: options.now ?? (() => new Date()),
+      accessTokenTtl: options.accessTokenTtl ?? DEFAULT_ACCESS_TOKEN_TTL,
+      requireEmailVerification: options.requireEmailVerification ?? true,
+    };
+
+    registerAuthRoutes(this);
+    registerProfileRoutes(this);
+    registerUploadRoutes(this);
+    registerLibraryRoutes(this);
+    registerSearchRoutes(this);
+  }
+
+  /**
+   * Requests received, in order
+   */
+  get requests(): TransportRequest[] {
+    return this.transport.requests;
+  }
+
+  /**
+   * Whether sign-in requires a verified email
+   */
+  get requireEmailVerification(): boolean {
+    return this.options.requireEmailVerification;
+  }
+
+  /**
+   * Clear all state, recorded requests and id counters
+   */
+  reset(): void {
+    this.state = createState();
+    this.counters.clear();
+    this.transport.requests.length = 0;
+  }
+
+  /**
+   * Current time of the backend clock
+   */
+  now(): Date {
+    return this.options.now();
+  }
+
+  /**
+   * Current time as an ISO 8601 string
+   */
+  timestamp(): string {
+    return this.now().toISOString();
+  }
+
+  /**
+   * Next deterministic id with a prefix (e.g. 'res-1', 'res-2')
+   */
+  nextId(prefix: string): string {
+    const next = (this.counters.get(prefix) ?? 0) + 1;
+    this.counters.set(prefix, next);
+    return `${prefix}-${next}`;
+  }
+
+  /**
+   * Register a route answering with SuccessResponse or ErrorResponse envelopes
+   */
+  route(method: HttpMethod, path: string, handler: FakeRouteHandler, options: FakeRouteOptions = {}): void {
+    this.transport.on(method, path, (request, context) => {
+      try {
+        const user = this.authenticate(request, options.auth ?? false);
+        const result = handler({ ...context, user, body: request.data ?? {} }, request);
+        return {
+          status: result.status ?? 200,
+          data: { success: true, data: result.data, meta: this.meta(request) },
+        };
+      } catch (error) {
+        if (error instanceof FakeApiError) {
+          return this.errorResponse(request, error);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * ErrorResponse envelope for a FakeApiError
+   */
+  errorResponse(request: TransportRequest, error: FakeApiError): MemoryResponse {
+    return {
+      status: error.status,
+      data: {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        },
+        meta: this.meta(request),
+      },
+    };
+  }
+
+  // ===========================================================================
+  // Records
+  // ===========================================================================
+
+  /**
+   * Create a user and their profile, as sign-up does
+   *
+   * @throws FakeApiError (409 EMAIL_ALREADY_EXISTS) when the email is taken
+   */
+  createUser(input: FakeUserInput): FakeUser {
+    if (this.findUserByEmail(input.email)) {
+      throw new FakeApiError(409, 'EMAIL_ALREADY_EXISTS', 'An account with this email already exists', {
+        email: input.email,
+      });
+    }
+
+    const timestamp = this.timestamp();
+    const user: FakeUser = {
+      userId: this.nextId('user'),
+      email: input.email.toLowerCase(),
+      firstName: input.firstName ?? 'Test',
+      lastName: input.lastName ?? 'User',
+      subjects: input.subjects ?? [],
+      languages: input.languages ?? [],
+      emailVerified: input.emailVerified ?? true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      password: input.password ?? DEFAULT_PASSWORD,
+    };
+    if (!user.emailVerified) {
+      user.verificationCode = this.nextCode();
+    }
+
+    this.state.users.set(user.userId, user);
+    this.state.profiles.set(user.userId, {
+      userId: user.userId,
+      memberSince: timestamp,
+      name: `${user.firstName} ${user.lastName}`,
+      school: '',
+      city: '',
+      primarySubject: user.subjects[0] ?? '',
+      subjects: [...user.subjects],
+      gradeLevels: [],
+      isMentor: false,
+      updatedAt: timestamp,
+    });
+    return user;
+  }
+
+  /**
+   * User with an email, if registered
+   */
+  findUserByEmail(email: unknown): FakeUser | undefined {
+    if (typeof email !== 'string') {
+      return undefined;
+    }
+    const normalized = email.toLowerCase();
+    return [...this.state.users.values()].find(user => user.email === normalized);
+  }
+
+  /**
+   * Issue access, refresh and ID tokens for a user
+   *
+   * Access and ID tokens are unsigned JWTs carrying `sub`, `email`, `iat`
+   * and `exp`.
+   */
+  issueTokens(userId: string): AuthTokens {
+    const user = this.state.users.get(userId);
+    if (!user) {
+      throw notFound('User', userId);
+    }
+
+    const issuedAt = this.now().getTime();
+    const expiresAt = issuedAt + this.options.accessTokenTtl;
+    const claims = {
+      sub: user.userId,
+      email: user.email,
+      iat: Math.floor(issuedAt / 1000),
+      exp: Math.floor(expiresAt / 1000),
+    };
+
+    const accessToken = encodeJwt({ ...claims, token_use: 'access', jti: this.nextId('access') });
+    const refreshToken = this.nextId('refresh');
+    this.state.accessTokens.set(accessToken, { userId, expiresAt });
+    this.state.refreshTokens.set(refreshToken, { userId });
+
+    return {
+      accessToken,
+      refreshToken,
+      idToken: encodeJwt({
+        ...claims,
+        token_use: 'id',
+        given_name: user.firstName,
+        family_name: user.lastName,
+        email_verified: user.emailVerified ?? false,
+      }),
+    };
+  }
+
+  /**
+   * Expire every issued access token, so the next request gets a 401
+   * and clients refresh their tokens
+   */
+  expireAccessTokens(): void {
+    const now = this.now().getTime();
+    this.state.accessTokens.forEach(token => {
+      token.expiresAt = now;
+    });
+  }
+
+  /**
+   * Revoke every token of a user (password reset, account deletion)
+   */
+  revokeTokens(userId: string): void {
+    [this.state.accessTokens, this.state.refreshTokens].forEach(tokens => {
+      tokens.forEach((token, value) => {
+        if (token.userId === userId) {
+          tokens.delete(value);
+        }
+      });
+    });
+  }
+
+  /**
+   * Pending email verification code of a user, as it would be emailed
+   */
+  getVerificationCode(email: string): string | undefined {
+    return this.findUserByEmail(email)?.verificationCode;
+  }
+
+  /**
+   * Pending password reset code of a user, as it would be emailed
+   */
+  getResetCode(email: string): string | undefined {
+    return this.findUserByEmail(email)?.resetCode;
+  }
+
+  /**
+   * Next six-digit verification or reset code
+   */
+  nextCode(): string {
+    return String(100000 + Number(this.nextId('code').slice('code-'.length)));
+  }
+
+  /**
+   * Create a resource owned by a user and add it to their library
+   */
+  createResource(userId: string, input: FakeResourceInput): ResourceSummary {
+    const profile = this.state.profiles.get(userId);
+    const timestamp = this.timestamp();
+    const status = input.status ?? ResourceStatus.PUBLISHED;
+
+    const resource: ResourceSummary = {
+      type: ResourceType.STANDALONE,
+      subject: Subject.MATHEMATICS,
+      grades: [],
+      tags: [],
+      language: Language.ENGLISH,
+      visibility: ResourceVisibility.PUBLIC,
+      teacherName: profile?.name ?? '',
+      teacherSchool: profile?.school ?? '',
+      downloads: 0,
+      upvotesCount: 0,
+      rating: 0,
+      comments: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      ...(status === ResourceStatus.PUBLISHED && { publishedAt: timestamp }),
+      allowOffline: false,
+      watermarkEnabled: false,
+      price: null,
+      currency: null,
+      isPurchased: false,
+      purchaseCount: 0,
+      totalEarnings: 0,
+      creatorEarningsPercent: 80,
+      ...input,
+      id: input.id ?? this.nextId('res'),
+      userId,
+      status,
+    };
+
+    this.state.resources.set(resource.id, resource);
+    this.addLibraryItem(userId, resource, 'created');
+    return resource;
+  }
+
+  /**
+   * Resource as seen by a user: `isPurchased` is set for the viewer, and
+   * earnings are only shown to the creator
+   */
+  viewResource(resource: ResourceSummary, viewerId?: string): ResourceSummary {
+    const isOwner = viewerId === resource.userId;
+    return {
+      ...resource,
+      isPurchased: viewerId !== undefined && (this.state.purchases.get(viewerId)?.has(resource.id) ?? false),
+      totalEarnings: isOwner ? resource.totalEarnings : 0,
+    };
+  }
+
+  /**
+   * Whether a user may see a resource
+   */
+  canView(resource: ResourceSummary, viewerId?: string): boolean {
+    if (resource.userId === viewerId) {
+      return true;
+    }
+    return resource.visibility !== ResourceVisibility.PRIVATE && resource.status === ResourceStatus.PUBLISHED;
+  }
+
+  /**
+   * Record a purchase: the buyer gets the resource in their library and the
+   * creator's earnings grow by their share of the price
+   */
+  purchase(userId: string, resourceId: string): void {
+    const resource = this.state.resources.get(resourceId);
+    if (!resource) {
+      throw notFound('Resource', resourceId);
+    }
+
+    const purchases = this.state.purchases.get(userId) ?? new Set<string>();
+    if (purchases.has(resourceId)) {
+      return;
+    }
+    purchases.add(resourceId);
+    this.state.purchases.set(userId, purchases);
+
+    resource.purchaseCount += 1;
+    resource.totalEarnings += ((resource.price ?? 0) * resource.creatorEarningsPercent) / 100;
+
+    const creatorItem = this.state.library.get(resource.userId)?.get(resourceId);
+    if (creatorItem) {
+      creatorItem.purchaseCount = resource.purchaseCount;
+      creatorItem.totalEarnings = resource.totalEarnings;
+    }
+
+    const existing = this.state.library.get(userId)?.get(resourceId);
+    if (existing) {
+      existing.source = 'purchased';
+    } else {
+      this.addLibraryItem(userId, resource, 'purchased');
+    }
+  }
+
+  /**
+   * Add a resource to a user's library
+   */
+  addLibraryItem(userId: string, resource: ResourceSummary, source: LibrarySource): LibraryItem {
+    const isCreated = source === 'created';
+    const item: LibraryItem = {
+      userId,
+      resourceId: resource.id,
+      source,
+      state: 'active',
+      addedAt: this.timestamp(),
+      curriculumPlacement: null,
+      collectionIds: [],
+      resourceTitle: resource.title,
+      resourceSubject: resource.subject,
+      resourceGrade: resource.grades[0] ?? '',
+      resourceFileType: resource.fileType ?? '',
+      resourceThumbnailUrl: resource.thumbnailUrl ?? null,
+      totalEarnings: isCreated ? resource.totalEarnings : null,
+      purchaseCount: isCreated ? resource.purchaseCount : null,
+    };
+
+    const items = this.state.library.get(userId) ?? new Map<string, LibraryItem>();
+    items.set(resource.id, item);
+    this.state.library.set(userId, items);
+    return item;
+  }
+
+  /**
+   * Remove a resource from every library and collection
+   */
+  removeFromLibraries(resourceId: string): void {
+    this.state.library.forEach(items => {
+      const item = items.get(resourceId);
+      if (!item) {
+        return;
+      }
+      item.collectionIds.forEach(collectionId => {
+        const collection = this.state.collections.get(collectionId);
+        if (collection) {
+          collection.itemCount -= 1;
+        }
+      });
+      items.delete(resourceId);
+    });
+  }
+
+  // ===========================================================================
+  // Requests
+  // ===========================================================================
+
+  /**
+   * Resolve the user of a request's bearer token
+   *
+   * @throws FakeApiError (401) for a missing token on an authenticated
+   * route, or for an unknown or expired token on any route
+   */
+  private authenticate(request: TransportRequest, required: boolean): FakeUser | undefined {
+    const authorization = getHeader(request, 'authorization');
+    if (!authorization) {
+      if (required) {
+        throw new FakeApiError(401, 'UNAUTHORIZED', 'Authentication required');
+      }
+      return undefined;
+    }
+
+    const token = this.state.accessTokens.get(authorization.replace(/^Bearer\s+/i, ''));
+    const user = token ? this.state.users.get(token.userId) : undefined;
+    if (!token || !user) {
+      throw new FakeApiError(401, 'INVALID_TOKEN', 'Access token is invalid');
+    }
+    if (token.expiresAt !== undefined && token.expiresAt <= this.now().getTime()) {
+      throw new FakeApiError(401, 'TOKEN_EXPIRED', 'Access token has expired');
+    }
+    return user;
+  }
+
+  /**
+   * Response metadata echoing the request's X-Request-ID
+   */
+  private meta(request: TransportRequest): { requestId: string; timestamp: string } {
+    return {
+      requestId: getHeader(request, 'x-request-id') ?? this.nextId('req'),
+      timestamp: this.timestamp(),
+    };
+  }
+}
+
+/**
+ * Unsigned JWT (alg: none) with the given claims
+ */
+function encodeJwt(claims: Record<string, unknown>): string {
+  return [{ alg: 'none', typ: 'JWT' }, claims].map(base64Url).join('.') + '.';
+}
+
+function base64Url(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
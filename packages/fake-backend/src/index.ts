@@ -0,0 +1,20 @@
+/**
+ * TuteNet Fake Backend
+ *
+ * Stateful in-memory stand-in for the Auth, Profile, Upload, Library and
+ * Search APIs. Plug it into any TuteNet client through its transport to
+ * exercise whole flows offline and deterministically.
+ */
+
+export { FakeBackend } from './fakeBackend';
+export type {
+  FakeBackendOptions,
+  FakeRequestContext,
+  FakeResourceInput,
+  FakeResult,
+  FakeRouteHandler,
+  FakeRouteOptions,
+  FakeUserInput,
+} from './fakeBackend';
+export { FakeApiError } from './responses';
+export type { FakeBackendState, FakeToken, FakeUpload, FakeUser } from './state';
@@ -0,0 +1,36 @@
+/**
+ * Full-text matching used by the fake search routes
+ */
+
+/**
+ * Relevance of a document to a query: matched query terms, weighted by the
+ * field they were found in (0 when a term is missing)
+ *
+ * @param fields - Field texts with their weights
+ */
+export function relevance(query: string | null, fields: Array<[string | string[] | undefined, number]>): number {
+  const terms = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return 1;
+  }
+
+  let score = 0;
+  for (const term of terms) {
+    const termScore = fields.reduce((sum, [text, weight]) => {
+      const value = Array.isArray(text) ? text.join(' ') : text ?? '';
+      return value.toLowerCase().includes(term) ? sum + weight : sum;
+    }, 0);
+    if (termScore === 0) {
+      return 0;
+    }
+    score += termScore;
+  }
+  return score;
+}
+
+/**
+ * Values of a comma-separated filter parameter
+ */
+export function listParam(value: string | null): string[] {
+  return (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
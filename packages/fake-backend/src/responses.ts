@@ -0,0 +1,120 @@
+/**
+ * Error, request and pagination helpers shared by the fake routes
+ */
+
+import type { TransportRequest } from '@tutenet/client-core';
+
+/**
+ * Error response raised by a fake route handler
+ *
+ * Thrown from handlers and turned into an ErrorResponse envelope with
+ * the given status, code and details.
+ */
+export class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'FakeApiError';
+  }
+}
+
+/**
+ * 400 with a message per invalid field
+ */
+export function validationError(details: Record<string, string>, message = 'Request validation failed'): FakeApiError {
+  return new FakeApiError(400, 'VALIDATION_ERROR', message, details);
+}
+
+/**
+ * 404 for a missing resource
+ */
+export function notFound(resource: string, identifier?: string): FakeApiError {
+  const message = identifier ? `${resource} with identifier '${identifier}' not found` : `${resource} not found`;
+  return new FakeApiError(404, 'NOT_FOUND', message, identifier ? { identifier } : undefined);
+}
+
+/**
+ * 403 for an action the caller may not perform
+ */
+export function forbidden(message = 'You do not have permission to perform this action'): FakeApiError {
+  return new FakeApiError(403, 'FORBIDDEN', message);
+}
+
+/**
+ * Request header value, matched case-insensitively
+ */
+export function getHeader(request: TransportRequest, name: string): string | undefined {
+  const entry = Object.entries(request.headers).find(([key]) => key.toLowerCase() === name.toLowerCase());
+  return entry?.[1];
+}
+
+/**
+ * Throw a validation error when any field is invalid
+ */
+export function assertValid(details: Record<string, string>): void {
+  if (Object.keys(details).length > 0) {
+    throw validationError(details);
+  }
+}
+
+/**
+ * Whether a value is a non-empty string
+ */
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * One page of a cursor-paginated list
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+  hasMore: boolean;
+  offset: number;
+}
+
+/**
+ * Paginate items with an opaque cursor and a `limit` query parameter
+ *
+ * @throws FakeApiError (400) for an invalid cursor or an out-of-range limit
+ */
+export function paginate<T>(items: T[], query: URLSearchParams, maxLimit = 100, defaultLimit = 20): Page<T> {
+  const limitParam = query.get('limit');
+  const limit = limitParam === null ? defaultLimit : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    throw validationError({ limit: `must be an integer between 1 and ${maxLimit}` });
+  }
+
+  const cursor = query.get('cursor');
+  const offset = cursor === null ? 0 : decodeCursor(cursor);
+
+  const page = items.slice(offset, offset + limit);
+  const hasMore = offset + limit < items.length;
+  return {
+    items: page,
+    nextCursor: hasMore ? encodeCursor(offset + limit) : undefined,
+    hasMore,
+    offset,
+  };
+}
+
+function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }));
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw validationError({ cursor: 'is not a valid pagination cursor' });
+}
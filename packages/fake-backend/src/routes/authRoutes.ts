@@ -0,0 +1,181 @@
+/**
+ * Fake Auth Service routes (/auth/*)
+ */
+
+import type { User } from '@tutenet/auth-client';
+import type { FakeBackend } from '../fakeBackend';
+import { FakeApiError, assertValid, isNonEmptyString, notFound } from '../responses';
+import type { FakeUser } from '../state';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Password policy of the Auth Service: at least 8 characters with an
+ * uppercase letter, a lowercase letter and a digit
+ */
+function checkPassword(password: unknown): void {
+  if (
+    typeof password !== 'string' ||
+    password.length < 8 ||
+    !/[A-Z]/.test(password) ||
+    !/[a-z]/.test(password) ||
+    !/\d/.test(password)
+  ) {
+    throw new FakeApiError(
+      400,
+      'INVALID_PASSWORD',
+      'Password must be at least 8 characters and contain uppercase, lowercase and a digit',
+      { password: 'does not meet the password policy' }
+    );
+  }
+}
+
+function checkEmail(email: unknown, details: Record<string, string>): void {
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email)) {
+    details.email = 'must be a valid email address';
+  }
+}
+
+/**
+ * User as returned by the API, without credentials
+ */
+function toUser(user: FakeUser): User {
+  const { password: _password, verificationCode: _verificationCode, resetCode: _resetCode, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Register the Auth Service routes
+ */
+export function registerAuthRoutes(backend: FakeBackend): void {
+  backend.route('POST', '/auth/signup', ({ body }) => {
+    const details: Record<string, string> = {};
+    checkEmail(body.email, details);
+    if (!isNonEmptyString(body.firstName)) details.firstName = 'is required';
+    if (!isNonEmptyString(body.lastName)) details.lastName = 'is required';
+    assertValid(details);
+    checkPassword(body.password);
+
+    const user = backend.createUser({
+      email: body.email,
+      password: body.password,
+      firstName: body.firstName,
+      lastName: body.lastName,
+      subjects: body.subjects,
+      languages: body.languages,
+      emailVerified: false,
+    });
+    return { status: 201, data: { user: toUser(user), tokens: backend.issueTokens(user.userId) } };
+  });
+
+  backend.route('POST', '/auth/signin', ({ body }) => {
+    const user = backend.findUserByEmail(body.email);
+    if (!user || user.password !== body.password) {
+      throw new FakeApiError(401, 'INVALID_CREDENTIALS', 'Invalid email or password');
+    }
+    if (backend.requireEmailVerification && !user.emailVerified) {
+      throw new FakeApiError(403, 'EMAIL_NOT_VERIFIED', 'Email address is not verified', { email: user.email });
+    }
+    return { data: { user: toUser(user), tokens: backend.issueTokens(user.userId) } };
+  });
+
+  backend.route('GET', '/auth/me', ({ user }) => ({ data: toUser(user!) }), { auth: true });
+
+  backend.route('POST', '/auth/refresh', ({ body }) => {
+    const token = isNonEmptyString(body.refreshToken) ? backend.state.refreshTokens.get(body.refreshToken) : undefined;
+    if (!token || !backend.state.users.has(token.userId)) {
+      throw new FakeApiError(401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or revoked');
+    }
+
+    // The refresh token stays valid; only access and ID tokens are renewed
+    const tokens = backend.issueTokens(token.userId);
+    backend.state.refreshTokens.delete(tokens.refreshToken);
+    return { data: { ...tokens, refreshToken: body.refreshToken } };
+  });
+
+  backend.route('POST', '/auth/verify-email', ({ body }) => {
+    const user = backend.findUserByEmail(body.email);
+    if (!user) {
+      throw notFound('User', body.email);
+    }
+    if (user.emailVerified) {
+      throw new FakeApiError(409, 'EMAIL_ALREADY_VERIFIED', 'Email address is already verified');
+    }
+    if (body.code !== user.verificationCode) {
+      throw new FakeApiError(400, 'INVALID_VERIFICATION_CODE', 'Verification code is invalid');
+    }
+
+    user.emailVerified = true;
+    user.verificationCode = undefined;
+    user.updatedAt = backend.timestamp();
+    return { data: { message: 'Email verified successfully' } };
+  });
+
+  backend.route('POST', '/auth/resend-verification', ({ body }) => {
+    const user = backend.findUserByEmail(body.email);
+    if (!user) {
+      throw notFound('User', body.email);
+    }
+    if (user.emailVerified) {
+      throw new FakeApiError(409, 'EMAIL_ALREADY_VERIFIED', 'Email address is already verified');
+    }
+
+    user.verificationCode = backend.nextCode();
+    return { data: { message: 'Verification code sent' } };
+  });
+
+  backend.route('POST', '/auth/forgot-password', ({ body }) => {
+    const details: Record<string, string> = {};
+    checkEmail(body.email, details);
+    assertValid(details);
+
+    // Same answer for unknown emails, so accounts cannot be enumerated
+    const user = backend.findUserByEmail(body.email);
+    if (user) {
+      user.resetCode = backend.nextCode();
+    }
+    return { data: { message: 'If the account exists, a reset code has been sent' } };
+  });
+
+  backend.route('POST', '/auth/reset-password', ({ body }) => {
+    const user = backend.findUserByEmail(body.email);
+    if (!user || !user.resetCode || body.code !== user.resetCode) {
+      throw new FakeApiError(400, 'INVALID_VERIFICATION_CODE', 'Reset code is invalid');
+    }
+    checkPassword(body.newPassword);
+
+    user.password = body.newPassword;
+    user.resetCode = undefined;
+    user.updatedAt = backend.timestamp();
+    backend.revokeTokens(user.userId);
+    return { data: { message: 'Password reset successfully' } };
+  });
+
+  backend.route('POST', '/auth/change-password', ({ body, user }) => {
+    if (body.currentPassword !== user!.password) {
+      throw new FakeApiError(401, 'INVALID_CREDENTIALS', 'Current password is incorrect');
+    }
+    checkPassword(body.newPassword);
+
+    user!.password = body.newPassword;
+    user!.updatedAt = backend.timestamp();
+    return { data: { message: 'Password changed successfully' } };
+  }, { auth: true });
+
+  backend.route('POST', '/auth/account', ({ body, user }) => {
+    if (body.password !== user!.password) {
+      throw new FakeApiError(401, 'INVALID_CREDENTIALS', 'Password is incorrect');
+    }
+
+    backend.revokeTokens(user!.userId);
+    backend.state.users.delete(user!.userId);
+    backend.state.profiles.delete(user!.userId);
+    backend.state.library.delete(user!.userId);
+    backend.state.collections.forEach((collection, collectionId) => {
+      if (collection.userId === user!.userId) {
+        backend.state.collections.delete(collectionId);
+      }
+    });
+    return { data: { message: 'Account deleted successfully' } };
+  }, { auth: true });
+}
@@ -0,0 +1,196 @@
+/**
+ * Fake Library Service routes (/library/*)
+ */
+
+import type { LibraryCollection, LibraryItem } from '@tutenet/library-client';
+import type { FakeBackend } from '../fakeBackend';
+import { FakeApiError, isNonEmptyString, notFound, paginate, validationError } from '../responses';
+
+const PLACEMENT_PATTERN = /^[^/\s][^/]*\/[^/\s][^/]*\/[^/\s][^/]*$/;
+
+function libraryOf(backend: FakeBackend, userId: string): Map<string, LibraryItem> {
+  const items = backend.state.library.get(userId) ?? new Map<string, LibraryItem>();
+  backend.state.library.set(userId, items);
+  return items;
+}
+
+function findItem(backend: FakeBackend, userId: string, resourceId: string): LibraryItem {
+  const item = libraryOf(backend, userId).get(resourceId);
+  if (!item) {
+    throw notFound('Library item', resourceId);
+  }
+  return item;
+}
+
+function findCollection(backend: FakeBackend, userId: string, collectionId: string): LibraryCollection {
+  const collection = backend.state.collections.get(collectionId);
+  if (!collection || collection.userId !== userId) {
+    throw notFound('Collection', collectionId);
+  }
+  return collection;
+}
+
+/**
+ * Register the Library Service routes
+ */
+export function registerLibraryRoutes(backend: FakeBackend): void {
+  // Collection routes first: '/library/collections' would match '/library/:resourceId'
+  backend.route('GET', '/library/collections', ({ user }) => {
+    const items = [...backend.state.collections.values()]
+      .filter(collection => collection.userId === user!.userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { data: { items } };
+  }, { auth: true });
+
+  backend.route('POST', '/library/collections', ({ body, user }) => {
+    if (!isNonEmptyString(body.name) || body.name.length > 100) {
+      throw validationError({ name: 'is required and must be at most 100 characters' });
+    }
+    if (body.description !== undefined && typeof body.description !== 'string') {
+      throw validationError({ description: 'must be a string' });
+    }
+
+    const name = body.name.trim();
+    const duplicate = [...backend.state.collections.values()].some(
+      collection => collection.userId === user!.userId && collection.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      throw new FakeApiError(409, 'DUPLICATE_COLLECTION_NAME', 'A collection with this name already exists', { name });
+    }
+
+    const collection: LibraryCollection = {
+      collectionId: backend.nextId('col'),
+      userId: user!.userId,
+      name,
+      description: body.description ?? null,
+      itemCount: 0,
+      createdAt: backend.timestamp(),
+    };
+    backend.state.collections.set(collection.collectionId, collection);
+    return { status: 201, data: collection };
+  }, { auth: true });
+
+  backend.route('DELETE', '/library/collections/:collectionId', ({ params, user }) => {
+    const collection = findCollection(backend, user!.userId, params.collectionId);
+    libraryOf(backend, user!.userId).forEach(item => {
+      item.collectionIds = item.collectionIds.filter(collectionId => collectionId !== collection.collectionId);
+    });
+    backend.state.collections.delete(collection.collectionId);
+    return { data: { message: 'Collection deleted' } };
+  }, { auth: true });
+
+  backend.route('POST', '/library/collections/:collectionId/items', ({ params, body, user }) => {
+    const collection = findCollection(backend, user!.userId, params.collectionId);
+    if (!isNonEmptyString(body.resourceId)) {
+      throw validationError({ resourceId: 'is required' });
+    }
+    const item = findItem(backend, user!.userId, body.resourceId);
+    if (item.collectionIds.includes(collection.collectionId)) {
+      throw new FakeApiError(409, 'ITEM_ALREADY_IN_COLLECTION', 'Item is already in the collection', {
+        collectionId: collection.collectionId,
+        resourceId: item.resourceId,
+      });
+    }
+
+    item.collectionIds.push(collection.collectionId);
+    collection.itemCount += 1;
+    return { data: item };
+  }, { auth: true });
+
+  backend.route('DELETE', '/library/collections/:collectionId/items/:resourceId', ({ params, user }) => {
+    const collection = findCollection(backend, user!.userId, params.collectionId);
+    const item = findItem(backend, user!.userId, params.resourceId);
+    if (!item.collectionIds.includes(collection.collectionId)) {
+      throw notFound('Collection item', params.resourceId);
+    }
+
+    item.collectionIds = item.collectionIds.filter(collectionId => collectionId !== collection.collectionId);
+    collection.itemCount -= 1;
+    return { data: { message: 'Item removed from collection' } };
+  }, { auth: true });
+
+  backend.route('GET', '/library', ({ query, user }) => {
+    const source = query.get('source');
+    const state = query.get('state') ?? 'active';
+    if (source !== null && !['created', 'purchased', 'saved'].includes(source)) {
+      throw validationError({ source: 'must be created, purchased or saved' });
+    }
+    if (!['active', 'archived'].includes(state)) {
+      throw validationError({ state: 'must be active or archived' });
+    }
+
+    const items = [...libraryOf(backend, user!.userId).values()]
+      .filter(item => item.state === state && (source === null || item.source === source))
+      .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+
+    const page = paginate(items, query);
+    return {
+      data: {
+        items: page.items,
+        ...(page.nextCursor && { nextCursor: page.nextCursor }),
+        hasMore: page.hasMore,
+      },
+    };
+  }, { auth: true });
+
+  backend.route('POST', '/library', ({ body, user }) => {
+    if (!isNonEmptyString(body.resourceId)) {
+      throw validationError({ resourceId: 'is required' });
+    }
+    const resource = backend.state.resources.get(body.resourceId);
+    if (!resource || !backend.canView(resource, user!.userId)) {
+      throw notFound('Resource', body.resourceId);
+    }
+    if (libraryOf(backend, user!.userId).has(resource.id)) {
+      throw new FakeApiError(409, 'DUPLICATE_LIBRARY_ITEM', 'Resource is already in the library', {
+        resourceId: resource.id,
+      });
+    }
+
+    return { status: 201, data: backend.addLibraryItem(user!.userId, resource, 'saved') };
+  }, { auth: true });
+
+  backend.route('DELETE', '/library/:resourceId', ({ params, user }) => {
+    const item = findItem(backend, user!.userId, params.resourceId);
+    if (item.source !== 'saved') {
+      throw new FakeApiError(403, 'LIBRARY_ITEM_NOT_REMOVABLE', 'Only saved items can be removed from the library', {
+        source: item.source,
+      });
+    }
+
+    item.collectionIds.forEach(collectionId => {
+      const collection = backend.state.collections.get(collectionId);
+      if (collection) {
+        collection.itemCount -= 1;
+      }
+    });
+    libraryOf(backend, user!.userId).delete(item.resourceId);
+    return { data: { message: 'Removed from library' } };
+  }, { auth: true });
+
+  backend.route('PATCH', '/library/:resourceId/placement', ({ params, body, user }) => {
+    const item = findItem(backend, user!.userId, params.resourceId);
+    const placement = body.curriculumPlacement;
+    if (placement !== null && (typeof placement !== 'string' || !PLACEMENT_PATTERN.test(placement))) {
+      throw new FakeApiError(
+        400,
+        'INVALID_CURRICULUM_PLACEMENT',
+        'Curriculum placement must be "subject/chapter/topic"',
+        { curriculumPlacement: String(placement) }
+      );
+    }
+
+    item.curriculumPlacement = placement;
+    return { data: item };
+  }, { auth: true });
+
+  backend.route('PATCH', '/library/:resourceId/state', ({ params, body, user }) => {
+    const item = findItem(backend, user!.userId, params.resourceId);
+    if (!['active', 'archived'].includes(body.state)) {
+      throw validationError({ state: 'must be active or archived' });
+    }
+
+    item.state = body.state;
+    return { data: item };
+  }, { auth: true });
+}
@@ -0,0 +1,199 @@
+/**
+ * Fake Profile Service routes (/profile/*)
+ */
+
+import type { GetProfileResponse } from '@tutenet/profile-client';
+import { ResourceStatus } from '@tutenet/upload-client';
+import type { FakeBackend } from '../fakeBackend';
+import { assertValid, forbidden, isNonEmptyString, notFound, paginate, validationError } from '../responses';
+
+type StoredProfile = GetProfileResponse & { updatedAt: string };
+
+const UPDATABLE_TEXT_FIELDS = ['name', 'school', 'city', 'bio', 'primarySubject'] as const;
+
+/**
+ * Statistics of a teacher, computed from their published resources
+ */
+function computeStatistics(backend: FakeBackend, userId: string): NonNullable<GetProfileResponse['statistics']> {
+  const resources = [...backend.state.resources.values()].filter(
+    resource => resource.userId === userId && resource.status === ResourceStatus.PUBLISHED
+  );
+  const rated = resources.filter(resource => resource.rating > 0);
+
+  return {
+    resourceCount: resources.length,
+    totalDownloads: resources.reduce((sum, resource) => sum + resource.downloads, 0),
+    totalAppreciations: resources.reduce((sum, resource) => sum + resource.upvotesCount, 0),
+    averageRating: rated.length ? rated.reduce((sum, resource) => sum + resource.rating, 0) / rated.length : 0,
+    uniqueStudents: 0,
+  };
+}
+
+/**
+ * Profile as returned by the API
+ */
+function toProfile(backend: FakeBackend, profile: StoredProfile, includeStatistics: boolean): GetProfileResponse {
+  const { updatedAt: _updatedAt, ...response } = profile;
+  return includeStatistics ? { ...response, statistics: computeStatistics(backend, profile.userId) } : response;
+}
+
+function findProfile(backend: FakeBackend, userId: string): StoredProfile {
+  const profile = backend.state.profiles.get(userId);
+  if (!profile) {
+    throw notFound('Profile', userId);
+  }
+  return profile;
+}
+
+/**
+ * Register the Profile Service routes
+ */
+export function registerProfileRoutes(backend: FakeBackend): void {
+  backend.route('GET', '/profile/search', ({ query }) => {
+    const school = query.get('school')?.toLowerCase();
+    const city = query.get('city')?.toLowerCase();
+    const subject = query.get('subject');
+    const isMentor = query.get('isMentor');
+
+    const matches = [...backend.state.profiles.values()].filter(profile =>
+      (!school || profile.school.toLowerCase().includes(school)) &&
+      (!city || profile.city.toLowerCase().includes(city)) &&
+      (!subject || profile.primarySubject === subject || profile.subjects.includes(subject)) &&
+      (isMentor === null || String(profile.isMentor) === isMentor)
+    );
+
+    const page = paginate(matches, query, 50);
+    return {
+      data: {
+        items: page.items.map(profile => toProfile(backend, profile, false)),
+        ...(page.nextCursor && { nextCursor: page.nextCursor }),
+        hasMore: page.hasMore,
+      },
+    };
+  });
+
+  backend.route('POST', '/profile/from-registration', ({ body }) => {
+    const details: Record<string, string> = {};
+    if (!isNonEmptyString(body.userId)) details.userId = 'is required';
+    if (!isNonEmptyString(body.email)) details.email = 'is required';
+    if (!isNonEmptyString(body.firstName)) details.firstName = 'is required';
+    if (!isNonEmptyString(body.lastName)) details.lastName = 'is required';
+    assertValid(details);
+
+    const existing = backend.state.profiles.get(body.userId);
+    if (existing) {
+      return { data: { profile: toProfile(backend, existing, false), isNewProfile: false } };
+    }
+
+    const timestamp = backend.timestamp();
+    const subjects: string[] = body.subjects ?? [];
+    const profile: StoredProfile = {
+      userId: body.userId,
+      memberSince: timestamp,
+      name: `${body.firstName} ${body.lastName}`,
+      school: '',
+      city: '',
+      primarySubject: subjects[0] ?? '',
+      subjects,
+      gradeLevels: [],
+      isMentor: false,
+      updatedAt: timestamp,
+    };
+    backend.state.profiles.set(profile.userId, profile);
+    return { status: 201, data: { profile: toProfile(backend, profile, false), isNewProfile: true } };
+  });
+
+  backend.route('GET', '/profile', ({ query }) => {
+    const userIds = query.getAll('userIds');
+    if (userIds.length === 0) {
+      throw validationError({ userIds: 'at least one user ID is required' });
+    }
+
+    const includeStatistics = query.get('includeStatistics') === 'true';
+    const profiles = userIds
+      .map(userId => backend.state.profiles.get(userId))
+      .filter((profile): profile is StoredProfile => profile !== undefined);
+    return { data: profiles.map(profile => toProfile(backend, profile, includeStatistics)) };
+  });
+
+  backend.route('GET', '/profile/:userId', ({ params, query }) => {
+    const profile = findProfile(backend, params.userId);
+    return { data: toProfile(backend, profile, query.get('includeStatistics') === 'true') };
+  });
+
+  backend.route('PUT', '/profile/:userId', ({ params, body, user }) => {
+    const profile = findProfile(backend, params.userId);
+    if (user!.userId !== params.userId) {
+      throw forbidden('You can only update your own profile');
+    }
+
+    const updates = body.updateData ?? {};
+    const details: Record<string, string> = {};
+    UPDATABLE_TEXT_FIELDS.forEach(field => {
+      if (updates[field] !== undefined && typeof updates[field] !== 'string') {
+        details[field] = 'must be a string';
+      }
+    });
+    if (updates.name !== undefined && !isNonEmptyString(updates.name)) details.name = 'must not be empty';
+    ['subjects', 'gradeLevels'].forEach(field => {
+      const value = updates[field];
+      if (value !== undefined && (!Array.isArray(value) || value.some(entry => typeof entry !== 'string'))) {
+        details[field] = 'must be an array of strings';
+      }
+    });
+    if (
+      updates.yearsTeaching !== undefined &&
+      (!Number.isInteger(updates.yearsTeaching) || updates.yearsTeaching < 0 || updates.yearsTeaching > 80)
+    ) {
+      details.yearsTeaching = 'must be an integer between 0 and 80';
+    }
+    assertValid(details);
+
+    [...UPDATABLE_TEXT_FIELDS, 'subjects', 'gradeLevels', 'yearsTeaching'].forEach(field => {
+      if (updates[field] !== undefined) {
+        (profile as any)[field] = updates[field];
+      }
+    });
+    profile.updatedAt = backend.timestamp();
+
+    return {
+      data: {
+        message: 'Profile updated successfully',
+        profile: { ...toProfile(backend, profile, false), yearsTeaching: profile.yearsTeaching ?? 0, updatedAt: profile.updatedAt },
+      },
+    };
+  }, { auth: true });
+
+  backend.route('POST', '/profile/:userId/avatar', ({ params, body, user }) => {
+    const profile = findProfile(backend, params.userId);
+    if (user!.userId !== params.userId) {
+      throw forbidden('You can only change your own avatar');
+    }
+
+    const form = typeof FormData !== 'undefined' && body instanceof FormData ? body : undefined;
+    const filename = form?.get('filename');
+    const contentType = form?.get('contentType');
+    if (!form?.has('file') || typeof filename !== 'string' || typeof contentType !== 'string') {
+      throw validationError({ file: 'multipart form with file, filename and contentType is required' });
+    }
+    if (!['image/jpeg', 'image/png', 'image/webp'].includes(contentType)) {
+      throw validationError({ contentType: 'must be image/jpeg, image/png or image/webp' });
+    }
+
+    const uploadedAt = backend.timestamp();
+    profile.avatarUrl = `https://cdn.fake.tutenet.test/avatars/${params.userId}/${encodeURIComponent(filename)}`;
+    profile.updatedAt = uploadedAt;
+    return { data: { avatarUrl: profile.avatarUrl, uploadedAt } };
+  }, { auth: true });
+
+  backend.route('POST', '/profile/:userId/statistics/validate', ({ params, query }) => {
+    findProfile(backend, params.userId);
+    const { resourceCount, totalDownloads, totalAppreciations } = computeStatistics(backend, params.userId);
+    return {
+      data: {
+        statistics: { resourceCount, totalDownloads, totalAppreciations, lastUpdated: backend.timestamp() },
+        refreshed: query.get('forceRefresh') === 'true',
+      },
+    };
+  });
+}
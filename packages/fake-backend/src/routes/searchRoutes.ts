@@ -0,0 +1,217 @@
+/**
+ * Fake Search Service routes (/search/*)
+ */
+
+import type { ResourceSearchItem, SearchSuggestion, TeacherSearchItem } from '@tutenet/search-client';
+import { ResourceStatus, ResourceSummary, Subject } from '@tutenet/upload-client';
+import type { FakeBackend, FakeRequestContext } from '../fakeBackend';
+import { listParam, relevance } from '../matching';
+import { assertValid, getHeader, paginate, validationError } from '../responses';
+import { searchUploadResources } from './uploadRoutes';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_SUGGESTIONS = 10;
+
+type Scored<T> = { item: T; score: number; newest: string; popularity: number };
+
+/**
+ * Validate the query and sort parameters shared by the search routes
+ */
+function checkSearchParams(query: URLSearchParams): void {
+  const details: Record<string, string> = {};
+  if ((query.get('q') ?? '').length > MAX_QUERY_LENGTH) {
+    details.q = `must be at most ${MAX_QUERY_LENGTH} characters`;
+  }
+  const sort = query.get('sort');
+  if (sort !== null && !['relevance', 'newest', 'popular'].includes(sort)) {
+    details.sort = 'must be relevance, newest or popular';
+  }
+  assertValid(details);
+}
+
+/**
+ * Order scored results by the `sort` parameter
+ */
+function sortResults<T>(results: Array<Scored<T>>, sort: string | null): T[] {
+  return results
+    .sort((a, b) => {
+      switch (sort) {
+        case 'newest':
+          return b.newest.localeCompare(a.newest);
+        case 'popular':
+          return b.popularity - a.popularity;
+        default:
+          return b.score - a.score || b.popularity - a.popularity;
+      }
+    })
+    .map(({ item }) => item);
+}
+
+function toResourceItem(backend: FakeBackend, resource: ResourceSummary, viewerId?: string): ResourceSearchItem {
+  return {
+    id: resource.id,
+    title: resource.title,
+    ...(resource.description !== undefined && { description: resource.description }),
+    subject: resource.subject,
+    grade: resource.grades.join(', '),
+    language: resource.language,
+    tags: resource.tags,
+    teacherId: resource.userId,
+    teacherName: resource.teacherName,
+    downloads: resource.downloads,
+    upvotesCount: resource.upvotesCount,
+    rating: resource.rating,
+    ...(resource.fileType && { fileType: resource.fileType }),
+    ...(resource.thumbnailUrl && { thumbnailUrl: resource.thumbnailUrl }),
+    createdAt: resource.createdAt,
+    ...(resource.previewUrl && { previewUrl: resource.previewUrl }),
+    isPurchased: backend.viewResource(resource, viewerId).isPurchased,
+    ...(resource.topic && { topic: resource.topic }),
+    ...(resource.license && { license: resource.license }),
+    ...(resource.sourceType && { sourceType: resource.sourceType }),
+  };
+}
+
+function searchResources(backend: FakeBackend, { query, user }: FakeRequestContext) {
+  const grades = listParam(query.get('grades'));
+  const scored = [...backend.state.resources.values()]
+    .filter(resource =>
+      resource.status === ResourceStatus.PUBLISHED &&
+      backend.canView(resource, user?.userId) &&
+      (!query.get('subject') || resource.subject === query.get('subject')) &&
+      (!query.get('language') || resource.language === query.get('language')) &&
+      (grades.length === 0 || resource.grades.some(grade => grades.includes(grade)))
+    )
+    .map(resource => ({
+      item: resource,
+      score: relevance(query.get('q'), [
+        [resource.title, 3],
+        [resource.tags, 2],
+        [resource.description, 1],
+        [resource.topic, 1],
+        [resource.teacherName, 1],
+      ]),
+      newest: resource.createdAt,
+      popularity: resource.downloads,
+    }))
+    .filter(({ score }) => score > 0);
+
+  const page = paginate(sortResults(scored, query.get('sort')), query);
+  return {
+    items: page.items.map(resource => toResourceItem(backend, resource, user?.userId)),
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    hasMore: page.hasMore,
+  };
+}
+
+function searchTeachers(backend: FakeBackend, { query }: FakeRequestContext, maxLimit: number) {
+  const subject = query.get('subject');
+  const published = [...backend.state.resources.values()].filter(
+    resource => resource.status === ResourceStatus.PUBLISHED
+  );
+
+  const scored = [...backend.state.profiles.values()]
+    .filter(profile => !subject || profile.primarySubject === subject || profile.subjects.includes(subject))
+    .map(profile => {
+      const resources = published.filter(resource => resource.userId === profile.userId);
+      const rated = resources.filter(resource => resource.rating > 0);
+      const totalDownloads = resources.reduce((sum, resource) => sum + resource.downloads, 0);
+      const item: TeacherSearchItem = {
+        id: profile.userId,
+        name: profile.name,
+        school: profile.school,
+        city: profile.city,
+        subject: profile.primarySubject,
+        resourceCount: resources.length,
+        totalDownloads,
+        rating: rated.length ? rated.reduce((sum, resource) => sum + resource.rating, 0) / rated.length : 0,
+        isMentor: profile.isMentor,
+        ...(profile.avatarUrl && { avatarUrl: profile.avatarUrl }),
+        appreciations: resources.reduce((sum, resource) => sum + resource.upvotesCount, 0),
+        badges: profile.isMentor ? ['mentor'] : [],
+      };
+      return {
+        item,
+        score: relevance(query.get('q'), [
+          [profile.name, 3],
+          [profile.school, 2],
+          [profile.city, 1],
+          [profile.subjects, 1],
+        ]),
+        newest: profile.memberSince,
+        popularity: totalDownloads,
+      };
+    })
+    .filter(({ score }) => score > 0);
+
+  const page = paginate(sortResults(scored, query.get('sort')), query, maxLimit);
+  return {
+    items: page.items,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    hasMore: page.hasMore,
+  };
+}
+
+/**
+ * Register the Search Service routes
+ *
+ * UploadClient calls GET /search too; those requests (recognised by their
+ * User-Agent) get the Upload Service search response.
+ */
+export function registerSearchRoutes(backend: FakeBackend): void {
+  backend.route('GET', '/search/teachers', context => {
+    checkSearchParams(context.query);
+    return { data: searchTeachers(backend, context, 50) };
+  });
+
+  backend.route('GET', '/search/suggestions', ({ query }) => {
+    const prefix = (query.get('prefix') ?? '').trim().toLowerCase();
+    if (prefix.length < 2) {
+      throw validationError({ prefix: 'must be at least 2 characters' });
+    }
+
+    const suggestions: SearchSuggestion[] = [];
+    const add = (text: string, category: SearchSuggestion['category']) => {
+      if (suggestions.length < MAX_SUGGESTIONS && !suggestions.some(suggestion => suggestion.text === text)) {
+        suggestions.push({ text, category });
+      }
+    };
+
+    Object.values(Subject)
+      .filter(subject => subject.toLowerCase().startsWith(prefix))
+      .forEach(subject => add(subject, 'subject'));
+    [...backend.state.resources.values()]
+      .filter(resource =>
+        resource.status === ResourceStatus.PUBLISHED &&
+        resource.title.toLowerCase().split(/\s+/).some(word => word.startsWith(prefix))
+      )
+      .sort((a, b) => b.downloads - a.downloads)
+      .forEach(resource => add(resource.title, 'popular'));
+
+    return { data: { suggestions } };
+  });
+
+  backend.route('GET', '/search', (context, request) => {
+    if (getHeader(request, 'user-agent')?.startsWith('tutenet-upload-client/')) {
+      return searchUploadResources(backend, context);
+    }
+
+    checkSearchParams(context.query);
+    const type = context.query.get('type') ?? 'all';
+    switch (type) {
+      case 'resources':
+        return { data: searchResources(backend, context) };
+      case 'teachers':
+        return { data: searchTeachers(backend, context, 100) };
+      case 'all':
+        return {
+          data: {
+            resources: searchResources(backend, context),
+            teachers: searchTeachers(backend, context, 100),
+          },
+        };
+      default:
+        throw validationError({ type: 'must be all, resources or teachers' });
+    }
+  });
+}
@@ -0,0 +1,656 @@
+/**
+ * Fake Upload and Content Access routes (/upload/*, /resources/*, presigned
+ * S3 uploads)
+ */
+
+import type { TransportRequest } from '@tutenet/client-core';
+import {
+  ContentAccessType,
+  EnhancedResourceStructureResponse,
+  FileType,
+  Language,
+  LicenseType,
+  MaterialType,
+  NavigationContext,
+  ResourceDetails,
+  ResourceStatus,
+  ResourceSummary,
+  ResourceType,
+  ResourceVisibility,
+  SearchSortBy,
+  SortOrder,
+  SourceType,
+  StructureResponseType,
+  Subject,
+} from '@tutenet/upload-client';
+import type { FakeBackend, FakeRequestContext } from '../fakeBackend';
+import { listParam, relevance } from '../matching';
+import {
+  FakeApiError,
+  assertValid,
+  forbidden,
+  getHeader,
+  isNonEmptyString,
+  notFound,
+  paginate,
+  validationError,
+} from '../responses';
+
+/** Host of presigned upload URLs */
+const UPLOAD_HOST = 'https://uploads.fake.tutenet.test';
+
+/** Host of content access URLs */
+const CONTENT_HOST = 'https://content.fake.tutenet.test';
+
+/** Lifetime of presigned and content URLs in seconds */
+const URL_EXPIRY_SECONDS = 900;
+
+/** Most resources accepted by one bulk create request */
+const MAX_BULK_RESOURCES = 50;
+
+const VIDEO_TYPES: string[] = [FileType.MP4, FileType.WEBM, FileType.AVI, FileType.MOV];
+
+/** Parent type required by each hierarchical resource type */
+const PARENT_TYPES: Partial<Record<ResourceType, ResourceType>> = {
+  [ResourceType.CHAPTER]: ResourceType.COURSE,
+  [ResourceType.MATERIAL]: ResourceType.CHAPTER,
+};
+
+function isEnumValue(values: Record<string, string>, value: unknown): boolean {
+  return Object.values(values).includes(value as string);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+/**
+ * Field errors of resource metadata; `partial` skips required-field checks
+ * for updates
+ */
+function checkResourceFields(fields: any, partial: boolean): Record<string, string> {
+  const details: Record<string, string> = {};
+  const required = (field: string) => !partial || fields[field] !== undefined;
+
+  if (required('title') && !isNonEmptyString(fields.title)) details.title = 'is required';
+  if (fields.title !== undefined && typeof fields.title === 'string' && fields.title.length > 200) {
+    details.title = 'must be at most 200 characters';
+  }
+  if (required('subject') && !isEnumValue(Subject, fields.subject)) details.subject = 'must be a supported subject';
+  if (required('language') && !isEnumValue(Language, fields.language)) details.language = 'must be a supported language';
+  if (required('visibility') && !isEnumValue(ResourceVisibility, fields.visibility)) {
+    details.visibility = 'must be public, private or school';
+  }
+  if (required('grades') && !isStringArray(fields.grades)) details.grades = 'must be an array of strings';
+  if (required('tags') && !isStringArray(fields.tags)) details.tags = 'must be an array of strings';
+  if (fields.materialType !== undefined && !isEnumValue(MaterialType, fields.materialType)) {
+    details.materialType = 'must be a supported material type';
+  }
+  if (fields.license !== undefined && !isEnumValue(LicenseType, fields.license)) details.license = 'must be a supported license';
+  if (fields.sourceType !== undefined && !isEnumValue(SourceType, fields.sourceType)) {
+    details.sourceType = 'must be a supported source type';
+  }
+  if (fields.status !== undefined && !isEnumValue(ResourceStatus, fields.status)) details.status = 'must be a resource status';
+  if (fields.orderIndex !== undefined && (!Number.isInteger(fields.orderIndex) || fields.orderIndex < 0)) {
+    details.orderIndex = 'must be a non-negative integer';
+  }
+  return details;
+}
+
+/**
+ * Size in bytes of an uploaded body
+ */
+function bodySize(data: unknown): number {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data).length;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    return data.size;
+  }
+  return 0;
+}
+
+function findResource(backend: FakeBackend, resourceId: string, viewerId?: string): ResourceSummary {
+  const resource = backend.state.resources.get(resourceId);
+  if (!resource || !backend.canView(resource, viewerId)) {
+    throw notFound('Resource', resourceId);
+  }
+  return resource;
+}
+
+function findOwnResource(backend: FakeBackend, resourceId: string, userId: string): ResourceSummary {
+  const resource = findResource(backend, resourceId, userId);
+  if (resource.userId !== userId) {
+    throw forbidden('Only the creator can modify this resource');
+  }
+  return resource;
+}
+
+/**
+ * Visible children of a resource, in order
+ */
+function childrenOf(backend: FakeBackend, parentId: string, viewerId?: string): ResourceSummary[] {
+  return [...backend.state.resources.values()]
+    .filter(resource => resource.parentId === parentId && backend.canView(resource, viewerId))
+    .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+}
+
+/**
+ * Create the resources of a bulk request, reporting failures per index
+ *
+ * `parentId` may name the `draftId` of an earlier resource in the same
+ * request, so a whole course can be created at once.
+ */
+function createResources(backend: FakeBackend, userId: string, requests: any[]) {
+  const resourceIds: string[] = [];
+  const errors: Array<{ index: number; error: string }> = [];
+  const draftIds = new Map<string, string>();
+
+  requests.forEach((request, index) => {
+    const fail = (error: string) => errors.push({ index, error });
+
+    const details = checkResourceFields(request ?? {}, false);
+    if (!isNonEmptyString(request?.draftId)) details.draftId = 'is required';
+    if (!isEnumValue(ResourceType, request?.type)) details.type = 'must be standalone, course, chapter or material';
+    const invalid = Object.entries(details).map(([field, message]) => `${field} ${message}`);
+    if (invalid.length > 0) {
+      return fail(invalid.join('; '));
+    }
+    if (request.userId !== userId) {
+      return fail('userId must be the signed-in user');
+    }
+    if (request.price !== undefined && request.price !== null) {
+      if (!Number.isInteger(request.price) || request.price <= 0) {
+        return fail('price must be a positive integer or null');
+      }
+      if (request.currency !== 'INR') {
+        return fail('currency must be INR for paid resources');
+      }
+    }
+
+    const type = request.type as ResourceType;
+    const parentType = PARENT_TYPES[type];
+    const parentId = draftIds.get(request.parentId) ?? request.parentId;
+    const parent = parentId ? backend.state.resources.get(parentId) : undefined;
+    if (parentType && (!parent || parent.userId !== userId || parent.type !== parentType)) {
+      return fail(`${type} requires parentId of one of your ${parentType} resources`);
+    }
+
+    const hasFile = type === ResourceType.STANDALONE || type === ResourceType.MATERIAL;
+    const upload = request.s3Key ? backend.state.uploads.get(request.s3Key) : undefined;
+    if (hasFile && (!upload || upload.userId !== userId || !upload.uploaded)) {
+      return fail(`${type} requires s3Key of a file you uploaded`);
+    }
+
+    const resource = backend.createResource(userId, {
+      type,
+      title: request.title,
+      ...(request.description !== undefined && { description: request.description }),
+      subject: request.subject,
+      grades: request.grades,
+      tags: request.tags,
+      language: request.language,
+      visibility: request.visibility,
+      ...(parent && { parentId: parent.id, rootId: parent.rootId ?? parent.id }),
+      ...(request.orderIndex !== undefined && { orderIndex: request.orderIndex }),
+      ...(request.materialType !== undefined && { materialType: request.materialType }),
+      ...(request.topic !== undefined && { topic: request.topic }),
+      ...(request.license !== undefined && { license: request.license }),
+      ...(request.sourceType !== undefined && { sourceType: request.sourceType }),
+      ...(request.licenseDetails !== undefined && { licenseDetails: request.licenseDetails }),
+      ...(hasFile && upload && {
+        fileName: upload.filename,
+        fileType: upload.contentType as FileType,
+        size: upload.size,
+        previewUrl: `${CONTENT_HOST}/preview/${encodeURIComponent(upload.key)}`,
+      }),
+      price: request.price ?? null,
+      currency: request.price ? 'INR' : null,
+    });
+
+    if (upload) {
+      upload.resourceId = resource.id;
+    }
+    if (parent) {
+      parent.childCount = (parent.childCount ?? 0) + 1;
+    }
+    draftIds.set(request.draftId, resource.id);
+    resourceIds.push(resource.id);
+  });
+
+  return { resourceIds, successCount: resourceIds.length, failureCount: errors.length, errors };
+}
+
+/**
+ * Resource and its analytics for the structure API
+ */
+function toDetails(backend: FakeBackend, resource: ResourceSummary, viewerId?: string): ResourceDetails {
+  return backend.viewResource(resource, viewerId);
+}
+
+/**
+ * Position of a resource among its siblings
+ */
+function navigationOf(backend: FakeBackend, resource: ResourceSummary, viewerId?: string): NavigationContext {
+  const siblings = resource.parentId ? childrenOf(backend, resource.parentId, viewerId) : [resource];
+  const index = siblings.findIndex(sibling => sibling.id === resource.id);
+  const previous = siblings[index - 1];
+  const next = siblings[index + 1];
+
+  return {
+    position: { current: index + 1, total: siblings.length },
+    adjacent: {
+      ...(previous && { previous: { id: previous.id, title: previous.title } }),
+      ...(next && { next: { id: next.id, title: next.title } }),
+    },
+  };
+}
+
+/**
+ * Enhanced structure of a resource: course outline, or the context of a
+ * chapter or material within its course
+ */
+function structureOf(backend: FakeBackend, resource: ResourceSummary, viewerId?: string): EnhancedResourceStructureResponse {
+  const profile = backend.state.profiles.get(resource.userId);
+  const teacherResources = [...backend.state.resources.values()].filter(
+    entry => entry.userId === resource.userId && entry.status === ResourceStatus.PUBLISHED
+  );
+
+  const response: EnhancedResourceStructureResponse = {
+    type: StructureResponseType.STANDALONE_RESOURCE,
+    resource: toDetails(backend, resource, viewerId),
+    analytics: {
+      upvotesCount: resource.upvotesCount,
+      commentsCount: resource.comments,
+      downloadsCount: resource.downloads,
+      averageRating: resource.rating,
+      upvotedByMe: false,
+    },
+    teacher: {
+      id: resource.userId,
+      name: profile?.name ?? resource.teacherName,
+      school: profile?.school ?? resource.teacherSchool,
+      ...(profile?.city && { city: profile.city }),
+      primarySubject: profile?.primarySubject ?? resource.subject,
+      resourceCount: teacherResources.length,
+      totalDownloads: teacherResources.reduce((sum, entry) => sum + entry.downloads, 0),
+      appreciations: teacherResources.reduce((sum, entry) => sum + entry.upvotesCount, 0),
+      isMentor: profile?.isMentor ?? false,
+      isVerified: false,
+      ...(profile?.avatarUrl && { avatarUrl: profile.avatarUrl }),
+    },
+  };
+
+  const details = (entry: ResourceSummary) => toDetails(backend, entry, viewerId);
+  const parent = resource.parentId ? backend.state.resources.get(resource.parentId) : undefined;
+  const course = resource.rootId ? backend.state.resources.get(resource.rootId) : undefined;
+
+  switch (resource.type) {
+    case ResourceType.COURSE: {
+      const chapters = childrenOf(backend, resource.id, viewerId);
+      response.type = StructureResponseType.COURSE_STRUCTURE;
+      response.structure = {
+        chapters: chapters.map(details),
+        totalMaterials: chapters.reduce((sum, chapter) => sum + childrenOf(backend, chapter.id, viewerId).length, 0),
+      };
+      break;
+    }
+    case ResourceType.CHAPTER:
+      response.type = StructureResponseType.CHAPTER_CONTEXT;
+      response.context = {
+        ...(course && { course: details(course) }),
+        ...(parent && { parent: details(parent) }),
+        children: childrenOf(backend, resource.id, viewerId).map(details),
+        navigation: navigationOf(backend, resource, viewerId),
+      };
+      break;
+    case ResourceType.MATERIAL:
+      response.type = StructureResponseType.MATERIAL_CONTEXT;
+      response.context = {
+        ...(course && { course: details(course) }),
+        ...(parent && { chapter: details(parent), parent: details(parent) }),
+        navigation: navigationOf(backend, resource, viewerId),
+      };
+      break;
+  }
+
+  return response;
+}
+
+/**
+ * Upload Service full-text search (GET /search from UploadClient)
+ */
+export function searchUploadResources(backend: FakeBackend, { query, user }: FakeRequestContext) {
+  const q = query.get('q');
+  if (!isNonEmptyString(q)) {
+    throw validationError({ q: 'is required' });
+  }
+
+  const sortBy = query.get('sortBy') ?? SearchSortBy.RELEVANCE;
+  const sortOrder = query.get('sortOrder') ?? SortOrder.DESC;
+  const details: Record<string, string> = {};
+  if (!isEnumValue(SearchSortBy, sortBy)) details.sortBy = 'must be a supported sort field';
+  if (!isEnumValue(SortOrder, sortOrder)) details.sortOrder = 'must be asc or desc';
+  assertValid(details);
+
+  const grades = listParam(query.get('grades'));
+  const scored = [...backend.state.resources.values()]
+    .filter(resource =>
+      resource.status === ResourceStatus.PUBLISHED &&
+      backend.canView(resource, user?.userId) &&
+      (!query.get('type') || resource.type === query.get('type')) &&
+      (!query.get('subject') || resource.subject === query.get('subject')) &&
+      (!query.get('language') || resource.language === query.get('language')) &&
+      (!query.get('materialType') || resource.materialType === query.get('materialType')) &&
+      (grades.length === 0 || resource.grades.some(grade => grades.includes(grade)))
+    )
+    .map(resource => ({
+      resource,
+      score: relevance(q, [[resource.title, 3], [resource.tags, 2], [resource.description, 1], [resource.topic, 1]]),
+    }))
+    .filter(({ score }) => score > 0);
+
+  const direction = sortOrder === SortOrder.ASC ? 1 : -1;
+  scored.sort((a, b) => {
+    switch (sortBy) {
+      case SearchSortBy.CREATED_AT:
+        return direction * a.resource.createdAt.localeCompare(b.resource.createdAt);
+      case SearchSortBy.UPDATED_AT:
+        return direction * a.resource.updatedAt.localeCompare(b.resource.updatedAt);
+      case SearchSortBy.DOWNLOADS:
+        return direction * (a.resource.downloads - b.resource.downloads);
+      case SearchSortBy.RATING:
+        return direction * (a.resource.rating - b.resource.rating);
+      case SearchSortBy.TITLE:
+        return direction * a.resource.title.localeCompare(b.resource.title);
+      default:
+        return direction * (a.score - b.score);
+    }
+  });
+
+  const page = paginate(scored.map(({ resource }) => resource), query);
+  return {
+    data: {
+      items: page.items.map(resource => backend.viewResource(resource, user?.userId)),
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+      hasNext: page.hasMore,
+      hasPrevious: page.offset > 0,
+      totalCount: scored.length,
+      searchTime: 0,
+    },
+  };
+}
+
+/**
+ * Handle a PUT of a file to a presigned upload URL, as S3 would
+ */
+function receiveUpload(backend: FakeBackend, request: TransportRequest, key: string) {
+  const upload = backend.state.uploads.get(key);
+  const contentType = getHeader(request, 'content-type');
+  if (!upload) {
+    return { status: 403, statusText: 'Forbidden', data: 'AccessDenied: the presigned URL is invalid or expired' };
+  }
+  if (contentType !== upload.contentType) {
+    return { status: 403, statusText: 'Forbidden', data: 'SignatureDoesNotMatch: Content-Type differs from the presigned one' };
+  }
+
+  upload.uploaded = true;
+  upload.size = bodySize(request.data);
+  return { status: 200, statusText: 'OK', headers: { ETag: `"${backend.nextId('etag')}"` } };
+}
+
+/**
+ * Register the Upload Service and Content Access routes
+ */
+export function registerUploadRoutes(backend: FakeBackend): void {
+  backend.route('POST', '/upload/presign', ({ body, user }) => {
+    const details: Record<string, string> = {};
+    if (!isNonEmptyString(body.filename)) details.filename = 'is required';
+    if (!isEnumValue(FileType, body.contentType)) details.contentType = 'is not a supported file type';
+    assertValid(details);
+
+    const idempotencyKey = body.idempotencyKey ? `presign:${user!.userId}:${body.idempotencyKey}` : undefined;
+    const previous = idempotencyKey && backend.state.idempotentResponses.get(idempotencyKey);
+    if (previous) {
+      return { data: previous };
+    }
+
+    const key = `uploads/${user!.userId}/${backend.nextId('upload')}/${body.filename}`;
+    backend.state.uploads.set(key, {
+      key,
+      userId: user!.userId,
+      filename: body.filename,
+      contentType: body.contentType,
+      uploaded: false,
+      size: 0,
+    });
+
+    const data = {
+      key,
+      url: `${UPLOAD_HOST}/${key.split('/').map(encodeURIComponent).join('/')}`,
+      expiresIn: URL_EXPIRY_SECONDS,
+    };
+    if (idempotencyKey) {
+      backend.state.idempotentResponses.set(idempotencyKey, data);
+    }
+    return { data };
+  }, { auth: true });
+
+  backend.transport.on('PUT', '/uploads/:userId/:uploadId/:filename', (request, { params }) =>
+    receiveUpload(backend, request, `uploads/${params.userId}/${params.uploadId}/${params.filename}`)
+  );
+
+  backend.route('POST', '/upload/validate', ({ body, user }) => {
+    const upload = isNonEmptyString(body.s3Key) ? backend.state.uploads.get(body.s3Key) : undefined;
+    if (!upload || upload.userId !== user!.userId) {
+      throw notFound('Upload', body.s3Key);
+    }
+    if (!upload.uploaded) {
+      throw validationError({ s3Key: 'file has not been uploaded' });
+    }
+    return { data: { message: 'Upload is valid' } };
+  }, { auth: true });
+
+  backend.route('POST', '/resources', ({ body, user }) => {
+    if (!Array.isArray(body.resources) || body.resources.length === 0) {
+      throw validationError({ resources: 'must be a non-empty array' });
+    }
+    if (body.resources.length > MAX_BULK_RESOURCES) {
+      throw validationError({ resources: `must contain at most ${MAX_BULK_RESOURCES} resources` });
+    }
+
+    const idempotencyKey = body.idempotencyKey ? `resources:${user!.userId}:${body.idempotencyKey}` : undefined;
+    const previous = idempotencyKey && backend.state.idempotentResponses.get(idempotencyKey);
+    if (previous) {
+      return { status: 201, data: previous };
+    }
+
+    const data = createResources(backend, user!.userId, body.resources);
+    if (data.successCount === 0) {
+      const details: Record<string, string> = {};
+      data.errors.forEach(({ index, error }) => {
+        details[`resources[${index}]`] = error;
+      });
+      throw validationError(details, 'No resources could be created');
+    }
+
+    if (idempotencyKey) {
+      backend.state.idempotentResponses.set(idempotencyKey, data);
+    }
+    return { status: 201, data };
+  }, { auth: true });
+
+  backend.route('GET', '/resources', ({ query, user }) => {
+    const subjects = listParam(query.get('subject'));
+    const grades = listParam(query.get('grades'));
+    const filters: Array<[string, keyof ResourceSummary]> = [
+      ['type', 'type'],
+      ['userId', 'userId'],
+      ['language', 'language'],
+      ['status', 'status'],
+      ['visibility', 'visibility'],
+    ];
+
+    const matches = [...backend.state.resources.values()]
+      .filter(resource =>
+        backend.canView(resource, user?.userId) &&
+        filters.every(([param, field]) => !query.get(param) || resource[field] === query.get(param)) &&
+        (subjects.length === 0 || subjects.includes(resource.subject)) &&
+        (grades.length === 0 || resource.grades.some(grade => grades.includes(grade)))
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const page = paginate(matches, query);
+    return {
+      data: {
+        items: page.items.map(resource => backend.viewResource(resource, user?.userId)),
+        ...(page.nextCursor && { nextCursor: page.nextCursor }),
+        hasNext: page.hasMore,
+        hasPrevious: page.offset > 0,
+        totalCount: matches.length,
+      },
+    };
+  });
+
+  backend.route('GET', '/resources/:resourceId', ({ params, user }) => ({
+    data: backend.viewResource(findResource(backend, params.resourceId, user?.userId), user?.userId),
+  }));
+
+  backend.route('PATCH', '/resources/:resourceId', ({ params, body, user }) => {
+    const resource = findOwnResource(backend, params.resourceId, user!.userId);
+    assertValid(checkResourceFields(body, true));
+
+    const fields = [
+      'title', 'description', 'subject', 'grades', 'tags', 'language', 'visibility', 'materialType',
+      'topic', 'license', 'sourceType', 'licenseDetails', 'status', 'orderIndex',
+    ] as const;
+    fields.forEach(field => {
+      if (body[field] !== undefined) {
+        (resource as any)[field] = body[field];
+      }
+    });
+
+    const timestamp = backend.timestamp();
+    resource.updatedAt = timestamp;
+    if (body.status === ResourceStatus.PUBLISHED && !resource.publishedAt) {
+      resource.publishedAt = timestamp;
+    }
+
+    // Keep the denormalized library copies in sync
+    backend.state.library.forEach(items => {
+      const item = items.get(resource.id);
+      if (item) {
+        item.resourceTitle = resource.title;
+        item.resourceSubject = resource.subject;
+        item.resourceGrade = resource.grades[0] ?? '';
+      }
+    });
+
+    return { data: backend.viewResource(resource, user!.userId) };
+  }, { auth: true });
+
+  backend.route('DELETE', '/resources/:resourceId', ({ params, user }) => {
+    const resource = findOwnResource(backend, params.resourceId, user!.userId);
+
+    // Chapters and materials go with their course or chapter
+    const removed = [resource.id];
+    for (let index = 0; index < removed.length; index++) {
+      backend.state.resources.forEach(entry => {
+        if (entry.parentId === removed[index]) {
+          removed.push(entry.id);
+        }
+      });
+    }
+    removed.forEach(resourceId => {
+      backend.state.resources.delete(resourceId);
+      backend.removeFromLibraries(resourceId);
+    });
+
+    const parent = resource.parentId ? backend.state.resources.get(resource.parentId) : undefined;
+    if (parent?.childCount) {
+      parent.childCount -= 1;
+    }
+    return { data: { message: 'Resource deleted successfully' } };
+  }, { auth: true });
+
+  backend.route('GET', '/resources/:resourceId/structure', ({ params, user }) => ({
+    data: structureOf(backend, findResource(backend, params.resourceId, user?.userId), user?.userId),
+  }));
+
+  backend.route('GET', '/resources/:resourceId/access', ({ params, query, user }) => {
+    const accessType = query.get('accessType');
+    if (!isEnumValue(ContentAccessType, accessType)) {
+      throw validationError({ accessType: 'must be view, stream or download' });
+    }
+
+    const resource = findResource(backend, params.resourceId, user!.userId);
+    if (!resource.fileType) {
+      throw validationError({ resourceId: `${resource.type} resources have no content file` });
+    }
+    const isOwner = resource.userId === user!.userId;
+    const purchased = backend.state.purchases.get(user!.userId)?.has(resource.id) ?? false;
+    if (resource.price !== null && !isOwner && !purchased) {
+      throw new FakeApiError(403, 'PURCHASE_REQUIRED', 'Purchase this resource to access its content', {
+        resourceId: resource.id,
+      });
+    }
+
+    const isVideo = VIDEO_TYPES.includes(resource.fileType);
+    if (accessType === ContentAccessType.STREAM && !isVideo) {
+      throw validationError({ accessType: 'stream is only available for video resources' });
+    }
+    if (accessType === ContentAccessType.DOWNLOAD && !isOwner) {
+      resource.downloads += 1;
+    }
+
+    const expiresAt = new Date(backend.now().getTime() + URL_EXPIRY_SECONDS * 1000).toISOString();
+    return {
+      data: {
+        contentUrl: `${CONTENT_HOST}/${resource.id}/${accessType}?expires=${encodeURIComponent(expiresAt)}`,
+        accessType,
+        expiresAt,
+        contentMetadata: {
+          fileType: resource.fileType,
+          fileSize: resource.size ?? 0,
+          ...(resource.fileName && { fileName: resource.fileName }),
+          ...(resource.videoDuration !== undefined && { duration: resource.videoDuration }),
+        },
+        viewingOptions: {
+          supportsOffline: resource.allowOffline,
+          supportsStreaming: isVideo,
+          requiresApp: false,
+          canPrint: accessType === ContentAccessType.DOWNLOAD,
+          canShare: resource.visibility === ResourceVisibility.PUBLIC,
+          watermarkEnabled: resource.watermarkEnabled,
+          securityLevel: resource.price === null ? 'public' : 'app-restricted',
+          urlExpiration: URL_EXPIRY_SECONDS,
+        },
+      },
+    };
+  }, { auth: true });
+
+  backend.route('POST', '/resources/:resourceId/process-video', ({ params, user }) => {
+    const resource = findOwnResource(backend, params.resourceId, user!.userId);
+    if (!resource.fileType || !VIDEO_TYPES.includes(resource.fileType)) {
+      throw validationError({ resourceId: 'resource is not a video' });
+    }
+
+    resource.transcodedUrl = `${CONTENT_HOST}/${resource.id}/transcoded.m3u8`;
+    resource.updatedAt = backend.timestamp();
+    return { data: { message: 'Video processing started' } };
+  }, { auth: true });
+
+  backend.route('POST', '/admin/cleanup-orphaned-files', () => {
+    let removed = 0;
+    backend.state.uploads.forEach((upload, key) => {
+      if (!upload.resourceId) {
+        backend.state.uploads.delete(key);
+        removed += 1;
+      }
+    });
+    return { data: { message: `Removed ${removed} orphaned files` } };
+  }, { auth: true });
+}
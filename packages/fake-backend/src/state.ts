@@ -0,0 +1,106 @@
+/**
+ * State held by the fake backend
+ *
+ * Records are stored in the shape the APIs return them, plus the private
+ * fields (passwords, codes, tokens) the real services keep server-side.
+ */
+
+import type { User } from '@tutenet/auth-client';
+import type { LibraryCollection, LibraryItem } from '@tutenet/library-client';
+import type { GetProfileResponse } from '@tutenet/profile-client';
+import type { ResourceSummary } from '@tutenet/upload-client';
+
+/**
+ * Registered user with its credentials
+ */
+export interface FakeUser extends User {
+  password: string;
+
+  /** Pending email verification code */
+  verificationCode?: string;
+
+  /** Pending password reset code */
+  resetCode?: string;
+}
+
+/**
+ * Issued access or refresh token
+ */
+export interface FakeToken {
+  userId: string;
+
+  /** Expiry in epoch milliseconds (access tokens only) */
+  expiresAt?: number;
+}
+
+/**
+ * File uploaded (or about to be uploaded) through a presigned URL
+ */
+export interface FakeUpload {
+  key: string;
+  userId: string;
+  filename: string;
+  contentType: string;
+
+  /** Whether the file was PUT to the presigned URL */
+  uploaded: boolean;
+
+  /** Uploaded size in bytes */
+  size: number;
+
+  /** Resource created from the file, once finalized */
+  resourceId?: string;
+}
+
+/**
+ * Everything the fake services store
+ */
+export interface FakeBackendState {
+  /** Users by user ID */
+  users: Map<string, FakeUser>;
+
+  /** Access tokens */
+  accessTokens: Map<string, FakeToken>;
+
+  /** Refresh tokens */
+  refreshTokens: Map<string, FakeToken>;
+
+  /** Teacher profiles by user ID */
+  profiles: Map<string, GetProfileResponse & { updatedAt: string }>;
+
+  /** Resources by resource ID */
+  resources: Map<string, ResourceSummary>;
+
+  /** Presigned uploads by S3 key */
+  uploads: Map<string, FakeUpload>;
+
+  /** Purchased resource IDs by user ID */
+  purchases: Map<string, Set<string>>;
+
+  /** Library items by user ID, then resource ID */
+  library: Map<string, Map<string, LibraryItem>>;
+
+  /** Library collections by collection ID */
+  collections: Map<string, LibraryCollection>;
+
+  /** Responses of idempotent requests by idempotency key */
+  idempotentResponses: Map<string, unknown>;
+}
+
+/**
+ * Create empty state
+ */
+export function createState(): FakeBackendState {
+  return {
+    users: new Map(),
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+    profiles: new Map(),
+    resources: new Map(),
+    uploads: new Map(),
+    purchases: new Map(),
+    library: new Map(),
+    collections: new Map(),
+    idempotentResponses: new Map(),
+  };
+}
@@ -10,9 +10,13 @@
 
 import {
   BaseClient,
+  ErrorCodeRegistry,
   ClientConfig,
-  Environment,
+  ClientOptions,
+  EndpointList,
+  EnvironmentName,
   ApiType,
+  RequestConfig,
   detectEnvironment,
 } from '@tutenet/client-core';
 import {
@@ -32,11 +36,23 @@ import {
   AddToCollectionRequest,
   AddToCollectionApiResponse,
   RemoveFromCollectionApiResponse,
+  GetLibraryItemsApiResponseSchema,
+  SaveToLibraryApiResponseSchema,
+  RemoveFromLibraryApiResponseSchema,
+  UpdatePlacementApiResponseSchema,
+  UpdateStateApiResponseSchema,
+  GetCollectionsApiResponseSchema,
+  CreateCollectionApiResponseSchema,
+  DeleteCollectionApiResponseSchema,
+  AddToCollectionApiResponseSchema,
+  RemoveFromCollectionApiResponseSchema,
 } from '../types';
+import { LIBRARY_ERROR_CODES, LibraryError } from '../errors';
 
 /** Library client configuration options */
-export interface LibraryClientConfig {
-  environment?: Environment;
+export interface LibraryClientConfig extends ClientOptions {
+  environment?: EnvironmentName;
+  baseUrl?: EndpointList;
   timeout?: number;
   retries?: number;
   accessToken?: string;
@@ -68,13 +84,16 @@ export interface LibraryClientConfig {
 export class LibraryClient extends BaseClient {
   constructor(config: LibraryClientConfig = {}) {
     const environment = config.environment || detectEnvironment();
+    const { accessToken, baseUrl, ...options } = config;
 
     const clientConfig: ClientConfig = {
+      ...options,
       environment,
+      baseUrl,
       apiType: ApiType.EXTERNAL,
       timeout: config.timeout,
       retries: config.retries,
-      authToken: config.accessToken,
+      authToken: accessToken,
       debug: config.debug,
     };
 
@@ -89,9 +108,13 @@ export class LibraryClient extends BaseClient {
    * Get paginated library items for the authenticated user.
    *
    * @param params - Optional filter and pagination parameters
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Paginated list of library items
    */
-  async getLibraryItems(params?: GetLibraryItemsParams): Promise<GetLibraryItemsApiResponse> {
+  async getLibraryItems(
+    params?: GetLibraryItemsParams,
+    config?: RequestConfig
+  ): Promise<GetLibraryItemsApiResponse> {
     const queryParams = new URLSearchParams();
 
     if (params) {
@@ -102,17 +125,18 @@ export class LibraryClient extends BaseClient {
     }
 
     const url = `/library${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.get<GetLibraryItemsApiResponse>(url);
+    return this.get<GetLibraryItemsApiResponse>(url, { ...config, schema: GetLibraryItemsApiResponseSchema });
   }
 
   /**
    * Save a resource to the authenticated user's library.
    *
    * @param request - Resource ID to save
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Created library item (201) or error (409 if duplicate)
    */
-  async saveToLibrary(request: SaveToLibraryRequest): Promise<SaveToLibraryApiResponse> {
-    return this.post<SaveToLibraryApiResponse>('/library', request);
+  async saveToLibrary(request: SaveToLibraryRequest, config?: RequestConfig): Promise<SaveToLibraryApiResponse> {
+    return this.post<SaveToLibraryApiResponse>('/library', request, { ...config, schema: SaveToLibraryApiResponseSchema });
   }
 
   /**
@@ -120,10 +144,11 @@ export class LibraryClient extends BaseClient {
    * Only items with source="saved" can be removed (403 otherwise).
    *
    * @param resourceId - Resource ID to remove
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Success message (204 equivalent) or error
    */
-  async removeFromLibrary(resourceId: string): Promise<RemoveFromLibraryApiResponse> {
-    return this.delete<RemoveFromLibraryApiResponse>(`/library/${resourceId}`);
+  async removeFromLibrary(resourceId: string, config?: RequestConfig): Promise<RemoveFromLibraryApiResponse> {
+    return this.delete<RemoveFromLibraryApiResponse>(`/library/${resourceId}`, { ...config, schema: RemoveFromLibraryApiResponseSchema });
   }
 
   /**
@@ -131,13 +156,15 @@ export class LibraryClient extends BaseClient {
    *
    * @param resourceId - Resource ID to update
    * @param request - New placement ("subject/chapter/topic") or null to unset
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Updated library item
    */
   async updatePlacement(
     resourceId: string,
-    request: UpdatePlacementRequest
+    request: UpdatePlacementRequest,
+    config?: RequestConfig
   ): Promise<UpdatePlacementApiResponse> {
-    return this.patch<UpdatePlacementApiResponse>(`/library/${resourceId}/placement`, request);
+    return this.patch<UpdatePlacementApiResponse>(`/library/${resourceId}/placement`, request, { ...config, schema: UpdatePlacementApiResponseSchema });
   }
 
   /**
@@ -145,13 +172,15 @@ export class LibraryClient extends BaseClient {
    *
    * @param resourceId - Resource ID to update
    * @param request - New state
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Updated library item
    */
   async updateState(
     resourceId: string,
-    request: UpdateStateRequest
+    request: UpdateStateRequest,
+    config?: RequestConfig
   ): Promise<UpdateStateApiResponse> {
-    return this.patch<UpdateStateApiResponse>(`/library/${resourceId}/state`, request);
+    return this.patch<UpdateStateApiResponse>(`/library/${resourceId}/state`, request, { ...config, schema: UpdateStateApiResponseSchema });
   }
 
   // =========================================================================
@@ -161,30 +190,36 @@ export class LibraryClient extends BaseClient {
   /**
    * Get all collections for the authenticated user.
    *
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns List of collections
    */
-  async getCollections(): Promise<GetCollectionsApiResponse> {
-    return this.get<GetCollectionsApiResponse>('/library/collections');
+  async getCollections(config?: RequestConfig): Promise<GetCollectionsApiResponse> {
+    return this.get<GetCollectionsApiResponse>('/library/collections', { ...config, schema: GetCollectionsApiResponseSchema });
   }
 
   /**
    * Create a new collection.
    *
    * @param request - Collection name and optional description
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Created collection (201) or error (409 if duplicate name)
    */
-  async createCollection(request: CreateCollectionRequest): Promise<CreateCollectionApiResponse> {
-    return this.post<CreateCollectionApiResponse>('/library/collections', request);
+  async createCollection(
+    request: CreateCollectionRequest,
+    config?: RequestConfig
+  ): Promise<CreateCollectionApiResponse> {
+    return this.post<CreateCollectionApiResponse>('/library/collections', request, { ...config, schema: CreateCollectionApiResponseSchema });
   }
 
   /**
    * Delete a collection. Removes the collection ID from all associated items.
    *
    * @param collectionId - Collection to delete
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Success message (204 equivalent) or error
    */
-  async deleteCollection(collectionId: string): Promise<DeleteCollectionApiResponse> {
-    return this.delete<DeleteCollectionApiResponse>(`/library/collections/${collectionId}`);
+  async deleteCollection(collectionId: string, config?: RequestConfig): Promise<DeleteCollectionApiResponse> {
+    return this.delete<DeleteCollectionApiResponse>(`/library/collections/${collectionId}`, { ...config, schema: DeleteCollectionApiResponseSchema });
   }
 
   /**
@@ -192,15 +227,18 @@ export class LibraryClient extends BaseClient {
    *
    * @param collectionId - Target collection
    * @param request - Resource ID to add
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Updated library item with new collectionIds
    */
   async addToCollection(
     collectionId: string,
-    request: AddToCollectionRequest
+    request: AddToCollectionRequest,
+    config?: RequestConfig
   ): Promise<AddToCollectionApiResponse> {
     return this.post<AddToCollectionApiResponse>(
       `/library/collections/${collectionId}/items`,
-      request
+      request,
+      { ...config, schema: AddToCollectionApiResponseSchema }
     );
   }
 
@@ -209,14 +247,17 @@ export class LibraryClient extends BaseClient {
    *
    * @param collectionId - Collection to remove from
    * @param resourceId - Resource ID to remove
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Success message (204 equivalent) or error
    */
   async removeFromCollection(
     collectionId: string,
-    resourceId: string
+    resourceId: string,
+    config?: RequestConfig
   ): Promise<RemoveFromCollectionApiResponse> {
     return this.delete<RemoveFromCollectionApiResponse>(
-      `/library/collections/${collectionId}/items/${resourceId}`
+      `/library/collections/${collectionId}/items/${resourceId}`,
+      { ...config, schema: RemoveFromCollectionApiResponseSchema }
     );
   }
 
@@ -224,13 +265,8 @@ export class LibraryClient extends BaseClient {
   // Utility
   // =========================================================================
 
-  /** Set authentication token for subsequent requests */
-  setAccessToken(token: string): void {
-    (this.config as any).authToken = token;
-  }
-
-  /** Clear authentication token */
-  clearAccessToken(): void {
-    delete (this.config as any).authToken;
+  /** Library Service error codes, mapped to specific error classes */
+  protected getErrorCodes(): ErrorCodeRegistry<LibraryError> {
+    return LIBRARY_ERROR_CODES;
   }
 }
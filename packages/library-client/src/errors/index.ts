@@ -0,0 +1,5 @@
+/**
+ * Library client errors
+ */
+
+export * from './libraryErrors';
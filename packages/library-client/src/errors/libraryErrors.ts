@@ -0,0 +1,138 @@
+/**
+ * Library Service error codes and their error classes
+ *
+ * Each class extends the ClientError for its HTTP status, so existing
+ * `instanceof ConflictError` checks keep working, and carries the backend
+ * code as `code`.
+ */
+
+import {
+  AuthorizationError,
+  CodedErrorClass,
+  ConflictError,
+  ErrorCodeRegistry,
+  ValidationError,
+} from '@tutenet/client-core';
+
+/**
+ * The resource is already in the library (409)
+ */
+export class DuplicateLibraryItemError extends ConflictError {
+  declare readonly code: 'DUPLICATE_LIBRARY_ITEM';
+
+  constructor(message: string = 'Resource is already in the library', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'DUPLICATE_LIBRARY_ITEM');
+  }
+
+  static isDuplicateLibraryItemError(error: any): error is DuplicateLibraryItemError {
+    return error instanceof DuplicateLibraryItemError;
+  }
+}
+
+/**
+ * Only saved items can be removed; created and purchased ones cannot (403)
+ */
+export class LibraryItemNotRemovableError extends AuthorizationError {
+  declare readonly code: 'LIBRARY_ITEM_NOT_REMOVABLE';
+
+  constructor(message: string = 'Only saved items can be removed from the library', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'LIBRARY_ITEM_NOT_REMOVABLE');
+  }
+
+  static isLibraryItemNotRemovableError(error: any): error is LibraryItemNotRemovableError {
+    return error instanceof LibraryItemNotRemovableError;
+  }
+}
+
+/**
+ * A collection with the same name already exists (409)
+ */
+export class DuplicateCollectionNameError extends ConflictError {
+  declare readonly code: 'DUPLICATE_COLLECTION_NAME';
+
+  constructor(message: string = 'A collection with this name already exists', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'DUPLICATE_COLLECTION_NAME');
+  }
+
+  static isDuplicateCollectionNameError(error: any): error is DuplicateCollectionNameError {
+    return error instanceof DuplicateCollectionNameError;
+  }
+}
+
+/**
+ * The item is already in the collection (409)
+ */
+export class ItemAlreadyInCollectionError extends ConflictError {
+  declare readonly code: 'ITEM_ALREADY_IN_COLLECTION';
+
+  constructor(message: string = 'Item is already in the collection', details?: Record<string, string>, requestId?: string) {
+    super(message, requestId, details, 'ITEM_ALREADY_IN_COLLECTION');
+  }
+
+  static isItemAlreadyInCollectionError(error: any): error is ItemAlreadyInCollectionError {
+    return error instanceof ItemAlreadyInCollectionError;
+  }
+}
+
+/**
+ * Curriculum placement is not in "subject/chapter/topic" format (400)
+ */
+export class InvalidCurriculumPlacementError extends ValidationError {
+  declare readonly code: 'INVALID_CURRICULUM_PLACEMENT';
+
+  constructor(message: string = 'Curriculum placement must be "subject/chapter/topic"', details?: Record<string, string>, requestId?: string) {
+    super(message, details, requestId, 'INVALID_CURRICULUM_PLACEMENT');
+  }
+
+  static isInvalidCurriculumPlacementError(error: any): error is InvalidCurriculumPlacementError {
+    return error instanceof InvalidCurriculumPlacementError;
+  }
+}
+
+/**
+ * Any Library Service error with a known code
+ */
+export type LibraryError =
+  | DuplicateLibraryItemError
+  | LibraryItemNotRemovableError
+  | DuplicateCollectionNameError
+  | ItemAlreadyInCollectionError
+  | InvalidCurriculumPlacementError;
+
+/**
+ * Known Library Service error codes
+ */
+export type LibraryErrorCode = LibraryError['code'];
+
+const LIBRARY_ERROR_CLASSES: { [C in LibraryErrorCode]: CodedErrorClass<Extract<LibraryError, { code: C }>> } = {
+  DUPLICATE_LIBRARY_ITEM: DuplicateLibraryItemError,
+  LIBRARY_ITEM_NOT_REMOVABLE: LibraryItemNotRemovableError,
+  DUPLICATE_COLLECTION_NAME: DuplicateCollectionNameError,
+  ITEM_ALREADY_IN_COLLECTION: ItemAlreadyInCollectionError,
+  INVALID_CURRICULUM_PLACEMENT: InvalidCurriculumPlacementError,
+};
+
+/**
+ * Library Service error codes mapped to their error classes
+ */
+export const LIBRARY_ERROR_CODES = new ErrorCodeRegistry<LibraryError>('library', LIBRARY_ERROR_CLASSES);
+
+/**
+ * Whether an error is a Library Service error with a known code
+ *
+ * Narrowed errors can be switched on `code` exhaustively:
+ *
+ * @example
+ * ```typescript
+ * if (isLibraryError(error)) {
+ *   switch (error.code) {
+ *     case 'DUPLICATE_LIBRARY_ITEM': ...
+ *     case 'DUPLICATE_COLLECTION_NAME': ...
+ *     // the compiler flags codes left unhandled
+ *   }
+ * }
+ * ```
+ */
+export function isLibraryError(error: unknown): error is LibraryError {
+  return LIBRARY_ERROR_CODES.isError(error);
+}
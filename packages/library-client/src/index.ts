@@ -33,6 +33,7 @@
 // Re-export everything
 export * from './client';
 export * from './types';
+export * from './errors';
 
 // Re-export core types commonly used with this client
 export { Environment, ApiType } from '@tutenet/client-core';
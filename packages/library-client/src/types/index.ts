@@ -4,3 +4,4 @@
  * Re-exports all API types for convenient importing.
  */
 export * from './api';
+export * from './schemas';
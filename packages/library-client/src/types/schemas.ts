@@ -0,0 +1,81 @@
+/**
+ * Runtime schemas of the Library API responses
+ *
+ * Checked by LibraryClient when `responseValidation` is 'strict' or 'warn'.
+ */
+
+import { apiResponseSchema, schema } from '@tutenet/client-core';
+import type { Schema } from '@tutenet/client-core';
+import type {
+  AddToCollectionApiResponse,
+  CollectionsResponseData,
+  CreateCollectionApiResponse,
+  DeleteCollectionApiResponse,
+  GetCollectionsApiResponse,
+  GetLibraryItemsApiResponse,
+  LibraryCollection,
+  LibraryItem,
+  LibraryItemsResponseData,
+  LibrarySource,
+  LibraryState,
+  RemoveFromCollectionApiResponse,
+  RemoveFromLibraryApiResponse,
+  SaveToLibraryApiResponse,
+  UpdatePlacementApiResponse,
+  UpdateStateApiResponse,
+} from './api';
+
+export const LibrarySourceSchema = schema.literal<LibrarySource>('created', 'purchased', 'saved');
+
+export const LibraryStateSchema = schema.literal<LibraryState>('active', 'archived');
+
+export const LibraryItemSchema = schema.object<LibraryItem>({
+  userId: schema.string(),
+  resourceId: schema.string(),
+  source: LibrarySourceSchema,
+  state: LibraryStateSchema,
+  addedAt: schema.string(),
+  curriculumPlacement: schema.nullable(schema.string()),
+  collectionIds: schema.array(schema.string()),
+  resourceTitle: schema.string(),
+  resourceSubject: schema.string(),
+  resourceGrade: schema.string(),
+  resourceFileType: schema.string(),
+  resourceThumbnailUrl: schema.nullable(schema.string()),
+  totalEarnings: schema.nullable(schema.number()),
+  purchaseCount: schema.nullable(schema.number()),
+});
+
+export const LibraryCollectionSchema = schema.object<LibraryCollection>({
+  collectionId: schema.string(),
+  userId: schema.string(),
+  name: schema.string(),
+  description: schema.nullable(schema.string()),
+  itemCount: schema.number(),
+  createdAt: schema.string(),
+});
+
+export const LibraryItemsResponseDataSchema = schema.object<LibraryItemsResponseData>({
+  items: schema.array(LibraryItemSchema),
+  nextCursor: schema.optional(schema.string()),
+  hasMore: schema.boolean(),
+});
+
+export const CollectionsResponseDataSchema = schema.object<CollectionsResponseData>({
+  items: schema.array(LibraryCollectionSchema),
+});
+
+const MessageSchema = schema.object<{ message: string }>({
+  message: schema.string(),
+});
+
+export const GetLibraryItemsApiResponseSchema: Schema<GetLibraryItemsApiResponse> = apiResponseSchema(LibraryItemsResponseDataSchema);
+export const SaveToLibraryApiResponseSchema: Schema<SaveToLibraryApiResponse> = apiResponseSchema(LibraryItemSchema);
+export const RemoveFromLibraryApiResponseSchema: Schema<RemoveFromLibraryApiResponse> = apiResponseSchema(MessageSchema);
+export const UpdatePlacementApiResponseSchema: Schema<UpdatePlacementApiResponse> = apiResponseSchema(LibraryItemSchema);
+export const UpdateStateApiResponseSchema: Schema<UpdateStateApiResponse> = apiResponseSchema(LibraryItemSchema);
+export const GetCollectionsApiResponseSchema: Schema<GetCollectionsApiResponse> = apiResponseSchema(CollectionsResponseDataSchema);
+export const CreateCollectionApiResponseSchema: Schema<CreateCollectionApiResponse> = apiResponseSchema(LibraryCollectionSchema);
+export const DeleteCollectionApiResponseSchema: Schema<DeleteCollectionApiResponse> = apiResponseSchema(MessageSchema);
+export const AddToCollectionApiResponseSchema: Schema<AddToCollectionApiResponse> = apiResponseSchema(LibraryItemSchema);
+export const RemoveFromCollectionApiResponseSchema: Schema<RemoveFromCollectionApiResponse> = apiResponseSchema(MessageSchema);
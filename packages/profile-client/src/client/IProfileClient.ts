@@ -9,6 +9,7 @@
  * - Retry behavior
  * - Custom headers
  * - Request tracing metadata
+ * - Cancellation (AbortSignal)
  */
 
 import { RequestConfig } from '@tutenet/client-core';
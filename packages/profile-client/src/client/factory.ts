@@ -5,8 +5,11 @@
 import { LambdaClient } from '@aws-sdk/client-lambda';
 import { 
   Environment, 
+  EnvironmentName,
   ApiType, 
   ClientConfig, 
+  ErrorMode,
+  Logger,
   detectEnvironment 
 } from '@tutenet/client-core';
 import { SERVICE_NAMES, ServiceName } from '@tutenet/shared';
@@ -18,7 +21,7 @@ import { LambdaProfileClient } from './lambdaProfileClient';
  * Create Profile Service client with custom configuration
  */
 export function createProfileClient(
-  environment: Environment,
+  environment: EnvironmentName,
   apiType: ApiType = ApiType.EXTERNAL,
   options?: Partial<ClientConfig>
 ): ProfileClient {
@@ -35,7 +38,7 @@ export function createProfileClient(
  * Create external (public) Profile Service client
  */
 export function createExternalProfileClient(
-  environment: Environment,
+  environment: EnvironmentName,
   options?: Partial<ClientConfig>
 ): ProfileClient {
   return createProfileClient(environment, ApiType.EXTERNAL, options);
@@ -103,7 +106,7 @@ export function createTestProfileClient(
  *                        Should use values from SERVICE_NAMES constants (e.g., SERVICE_NAMES.AUTH_SERVICE)
  * 
  * @param options - Optional configuration overrides
- * @param options.environment - Environment override (DEVELOPMENT, STAGING, PRODUCTION)
+ * @param options.environment - Environment override (DEVELOPMENT, STAGING, PRODUCTION or a registered name)
  *                             Only used in HTTP mode when PROFILE_CREATE_LAMBDA_ARN is not set
  *                             If not provided, auto-detects from NODE_ENV or ENVIRONMENT variables
  * @param options.apiType - API type override (EXTERNAL)
@@ -112,7 +115,11 @@ export function createTestProfileClient(
  * @param options.debug - Enable debug logging for requests and responses
  *                       Works for both Lambda and HTTP modes
  *                       Defaults to false if not provided
- * 
+ * @param options.logger - Structured logger for both modes; entries are redacted
+ *                        (credentials, tokens, passwords, emails) before it sees them
+ * @param options.errorMode - 'result' or 'throw' to report every failure the same way
+ *                           in both modes (default: error responses resolve, other failures throw)
+ *
  * @returns IProfileClient - Abstract interface implemented by either LambdaProfileClient or HttpProfileClient
  *                          Consumers should only depend on the IProfileClient interface,
  *                          not the concrete implementation types
@@ -201,9 +208,11 @@ export function createTestProfileClient(
 export function createProfileClientFromEnv(
   callingService: ServiceName,
   options?: {
-    environment?: Environment;
+    environment?: EnvironmentName;
     apiType?: ApiType;
     debug?: boolean;
+    logger?: Logger;
+    errorMode?: ErrorMode;
   }
 ): IProfileClient {
   // Read Lambda ARN environment variables
@@ -236,6 +245,8 @@ export function createProfileClientFromEnv(
       },
       callingService,
       debug: options?.debug,
+      logger: options?.logger,
+      errorMode: options?.errorMode,
     });
   }
 
@@ -248,6 +259,8 @@ export function createProfileClientFromEnv(
     environment,
     apiType,
     debug: options?.debug,
+    logger: options?.logger,
+    errorMode: options?.errorMode,
   };
 
   // Return new HttpProfileClient with ClientConfig
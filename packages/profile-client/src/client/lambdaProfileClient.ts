@@ -7,8 +7,8 @@
  * Key features:
  * - Direct Lambda invocation via AWS SDK InvokeCommand
  * - Automatic DirectInvocationPayload construction
- * - Request ID generation and tracing
- * - Debug logging support
+ * - Request ID generation and W3C trace context propagation
+ * - Structured logging with redaction of emails and credentials
  * - Error handling and AWS SDK error wrapping
  * 
  * @see {@link IProfileClient} for the interface contract
@@ -16,7 +16,26 @@
  */
 
 import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
-import { ClientError } from '@tutenet/client-core';
+import {
+  AbortedError,
+  CLIENT_METRICS,
+  ClientError,
+  ErrorMode,
+  Logger,
+  MetricsSink,
+  NoopTracer,
+  RedactionOptions,
+  TraceContext,
+  Tracer,
+  createClientLogger,
+  createErrorFromBody,
+  getErrorCode,
+  getRequestTags,
+  throwIfAborted,
+  toErrorResponse,
+  toTraceContext,
+  traceContextHeaders,
+} from '@tutenet/client-core';
 import { IProfileClient } from './IProfileClient';
 import {
   CreateProfileFromRegistrationRequest,
@@ -48,6 +67,10 @@ export interface RequestConfig {
   timeout?: number;
   /** Custom headers (not used in Lambda invocations but kept for interface compatibility) */
   headers?: Record<string, string>;
+  /** Cancels the invocation; rejects with AbortedError */
+  signal?: AbortSignal;
+  /** Parent trace context, as an object or a `traceparent` header value */
+  traceContext?: TraceContext | string;
 }
 
 /**
@@ -74,8 +97,29 @@ export interface LambdaProfileClientConfig {
   /** Calling service identifier for DirectInvocationPayload */
   callingService: ServiceName;
   
-  /** Enable debug logging (default: false) */
+  /** Log invocations at debug level to the console when no logger is set (default: false) */
   debug?: boolean;
+
+  /** Structured logger (default: console, silent unless debug is set) */
+  logger?: Logger;
+
+  /** Additional redaction rules; credentials, tokens, passwords and emails are always masked */
+  redaction?: RedactionOptions;
+
+  /** Receives invocation, error, latency and retry metrics, tagged with the operation as route */
+  metrics?: MetricsSink;
+
+  /** Receives one span per invocation (default: none; trace context is still propagated) */
+  tracer?: Tracer;
+
+  /** Parent trace context of invocations that do not pass one */
+  traceContext?: () => TraceContext | string | undefined;
+
+  /**
+   * 'result' resolves every failure to an ErrorResponse, 'throw' rejects every
+   * failure with a ClientError (default: error payloads resolve, invocation failures reject)
+   */
+  errorMode?: ErrorMode;
 }
 
 /**
@@ -112,7 +156,11 @@ export class LambdaProfileClient implements IProfileClient {
   private readonly lambdaClient: LambdaClient;
   private readonly functionArns: LambdaProfileClientConfig['functionArns'];
   private readonly callingService: ServiceName;
-  private readonly debug: boolean;
+  private readonly logger: Logger;
+  private readonly metrics?: MetricsSink;
+  private readonly tracer: Tracer;
+  private readonly traceContext?: () => TraceContext | string | undefined;
+  private readonly errorMode?: ErrorMode;
 
   /**
    * Create a new LambdaProfileClient
@@ -124,23 +172,25 @@ export class LambdaProfileClient implements IProfileClient {
     this.lambdaClient = config.lambdaClient;
     this.functionArns = config.functionArns;
     this.callingService = config.callingService;
-    this.debug = config.debug ?? false;
+    this.logger = createClientLogger(config, 'LambdaProfileClient');
+    this.metrics = config.metrics;
+    this.tracer = config.tracer ?? new NoopTracer();
+    this.traceContext = config.traceContext;
+    this.errorMode = config.errorMode;
 
     // Validate at least one ARN is provided
     if (!this.functionArns.createProfileFromRegistration && !this.functionArns.getProfile) {
       throw new Error('At least one Lambda ARN (createProfileFromRegistration or getProfile) is required');
     }
 
-    if (this.debug) {
-      console.debug('[LambdaProfileClient] Initialized', {
-        callingService: this.callingService,
-        hasCreateProfile: !!this.functionArns.createProfileFromRegistration,
-        hasGetProfile: !!this.functionArns.getProfile,
-        hasUpdateProfile: !!this.functionArns.updateProfile,
-        hasUploadAvatar: !!this.functionArns.uploadAvatar,
-        hasValidateStatistics: !!this.functionArns.validateStatistics,
-      });
-    }
+    this.logger.debug('Initialized', {
+      callingService: this.callingService,
+      hasCreateProfile: !!this.functionArns.createProfileFromRegistration,
+      hasGetProfile: !!this.functionArns.getProfile,
+      hasUpdateProfile: !!this.functionArns.updateProfile,
+      hasUploadAvatar: !!this.functionArns.uploadAvatar,
+      hasValidateStatistics: !!this.functionArns.validateStatistics,
+    });
   }
 
   /**
@@ -286,24 +336,43 @@ export class LambdaProfileClient implements IProfileClient {
   ): Promise<TResponse> {
     const requestId = config?.requestId || this.generateRequestId();
 
-    if (this.debug) {
-      console.debug(`[LambdaProfileClient] Invoking ${operationName}`, {
-        functionArn,
-        requestId,
-        ...contextData,
-      });
-    }
+    const span = this.tracer.startSpan(`Lambda ${operationName}`, {
+      kind: 'client',
+      parent: toTraceContext(config?.traceContext) ?? toTraceContext(this.traceContext?.()),
+      attributes: {
+        'rpc.system': 'aws-lambda',
+        'rpc.method': operationName,
+        'faas.invoked_name': functionArn,
+        'tutenet.client': 'LambdaProfileClient',
+      },
+    });
+
+    const startedAt = Date.now();
+    let status: number | undefined;
+    let errorCode: string | undefined;
+    let retries = 0;
+
+    // contextData carries the user's email; the logger masks it
+    this.logger.debug(`Invoking ${operationName}`, {
+      functionArn,
+      requestId,
+      ...contextData,
+    });
 
     try {
-      // Construct DirectInvocationPayload
+      throwIfAborted(config?.signal);
+
+      // Construct DirectInvocationPayload; the callee continues the trace from traceparent
+      const serviceContext = {
+        invocationType: 'direct' as const,
+        callingService: this.callingService,
+        requestId,
+        userId: contextData.userId,
+        email: contextData.email,
+        ...traceContextHeaders(span.context),
+      };
       const payload: DirectInvocationPayload<TRequest> = {
-        serviceContext: {
-          invocationType: 'direct',
-          callingService: this.callingService,
-          requestId,
-          userId: contextData.userId,
-          email: contextData.email,
-        },
+        serviceContext,
         body,
       };
 
@@ -314,7 +383,12 @@ export class LambdaProfileClient implements IProfileClient {
         Payload: JSON.stringify(payload),
       });
 
-      const response = await this.lambdaClient.send(command);
+      const response = await this.lambdaClient.send(command, { abortSignal: config?.signal });
+
+      status = response.StatusCode;
+      retries = Math.max(0, (response.$metadata.attempts ?? 1) - 1);
+      span.setAttribute('faas.status_code', response.StatusCode ?? 0);
+      span.setAttribute('rpc.resend_count', retries);
 
       // Check for Lambda execution errors
       if (response.FunctionError) {
@@ -335,12 +409,10 @@ export class LambdaProfileClient implements IProfileClient {
       const payloadString = new TextDecoder().decode(response.Payload);
       const rawResult = JSON.parse(payloadString);
 
-      if (this.debug) {
-        console.debug(`[LambdaProfileClient] ${operationName} completed`, {
-          requestId,
-          statusCode: response.StatusCode,
-        });
-      }
+      this.logger.debug(`${operationName} completed`, {
+        requestId,
+        statusCode: response.StatusCode,
+      });
 
       // Direct Lambda invocation returns raw business logic result.
       // Wrap in SuccessResponse format to match the IProfileClient interface contract
@@ -348,18 +420,60 @@ export class LambdaProfileClient implements IProfileClient {
       // If the result already has a 'success' field, it's already wrapped (shouldn't happen
       // for direct invocations but handle gracefully).
       if (rawResult && typeof rawResult === 'object' && 'success' in rawResult) {
+        if (rawResult.success === false && this.errorMode === 'throw') {
+          throw createErrorFromBody(rawResult);
+        }
+        span.setStatus(rawResult.success === false ? 'error' : 'ok');
+        errorCode = rawResult.success === false ? getErrorCode(rawResult) : undefined;
         return rawResult as TResponse;
       }
 
+      span.setStatus('ok');
       return { success: true, data: rawResult } as TResponse;
     } catch (error) {
-      if (this.debug) {
-        console.error(`[LambdaProfileClient] ${operationName} failed`, {
-          error: error instanceof Error ? error.message : String(error),
-          requestId,
-        });
+      span.recordException(error);
+      span.setStatus('error', error instanceof Error ? error.message : String(error));
+      this.logger.error(`${operationName} failed`, {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+      });
+      const clientError = config?.signal?.aborted
+        ? new AbortedError(undefined, config.signal.reason, requestId)
+        : this.handleLambdaError(error, operationName, requestId);
+      status = clientError.statusCode;
+      errorCode = clientError.code;
+      if (this.errorMode === 'result') {
+        return toErrorResponse(clientError, requestId) as TResponse;
       }
-      throw this.handleLambdaError(error, operationName, requestId);
+      throw clientError;
+    } finally {
+      span.end();
+      this.recordMetrics(operationName, status, errorCode, retries, Date.now() - startedAt);
+    }
+  }
+
+  /**
+   * Report a finished invocation to the metrics sink
+   */
+  private recordMetrics(
+    operationName: string,
+    status: number | undefined,
+    errorCode: string | undefined,
+    retries: number,
+    duration: number
+  ): void {
+    if (!this.metrics) {
+      return;
+    }
+    const tags = getRequestTags('LambdaProfileClient', operationName, status, errorCode);
+    this.metrics.increment(CLIENT_METRICS.requests, tags);
+    this.metrics.observe(CLIENT_METRICS.duration, duration, tags);
+    if (errorCode || status === undefined || status >= 400) {
+      this.metrics.increment(CLIENT_METRICS.errors, tags);
+    }
+    if (retries > 0) {
+      // The AWS SDK retries internally; only the count is known
+      this.metrics.increment(CLIENT_METRICS.retries, { service: 'LambdaProfileClient', route: operationName }, retries);
     }
   }
 
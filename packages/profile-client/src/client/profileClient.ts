@@ -22,7 +22,15 @@ import {
   CreateProfileFromRegistrationApiResponse,
   ValidateStatisticsRequest,
   ValidateStatisticsApiResponse,
-  GetProfileResponse
+  GetProfileApiResponseSchema,
+  UpdateProfileApiResponseSchema,
+  UploadAvatarApiResponseSchema,
+  CreateProfileFromRegistrationApiResponseSchema,
+  ValidateStatisticsApiResponseSchema,
+  GetProfilesApiResponse,
+  GetProfilesApiResponseSchema,
+  SearchProfilesApiResponse,
+  SearchProfilesApiResponseSchema
 } from '../types';
 
 /**
@@ -45,11 +53,7 @@ export class ProfileClient extends BaseClient {
     config?: RequestConfig
   ): Promise<GetProfileApiResponse> {
     try {
-      const clientConfig = this.getConfig();
-      
-      if (clientConfig.debug) {
-        console.debug(`[ProfileClient] Getting profile for user: ${userId}`);
-      }
+      this.logger.debug('Getting profile', { userId });
 
       const params = new URLSearchParams();
       if (options?.includeStatistics) params.append('includeStatistics', 'true');
@@ -58,22 +62,18 @@ export class ProfileClient extends BaseClient {
 
       const url = this.buildUrl(`/profile/${userId}`, params);
       
-      const response = await this.get<GetProfileApiResponse>(url, config);
+      const response = await this.get<GetProfileApiResponse>(url, { ...config, schema: GetProfileApiResponseSchema });
       
-      if (clientConfig.debug) {
-        console.debug(`[ProfileClient] Profile retrieved successfully for user: ${userId}`);
-      }
+      this.logger.debug('Profile retrieved', { userId });
       
       return response;
     } catch (error) {
-      const clientConfig = this.getConfig();
-      if (clientConfig.debug) {
-        console.error(`[ProfileClient] Failed to get profile for user ${userId}:`, {
-          error: error instanceof Error ? error.message : String(error),
-          errorCode: (error as any)?.code,
-          statusCode: (error as any)?.statusCode,
-        });
-      }
+      this.logger.error('Failed to get profile', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: (error as any)?.code,
+        statusCode: (error as any)?.statusCode,
+      });
       throw this.handleProfileError(error, 'getProfile');
     }
   }
@@ -88,7 +88,7 @@ export class ProfileClient extends BaseClient {
   ): Promise<UpdateProfileApiResponse> {
     try {
       const url = this.buildUrl(`/profile/${userId}`);
-      return await this.put<UpdateProfileApiResponse>(url, updates, config);
+      return await this.put<UpdateProfileApiResponse>(url, updates, { ...config, schema: UpdateProfileApiResponseSchema });
     } catch (error) {
       throw this.handleProfileError(error, 'updateProfile');
     }
@@ -115,6 +115,7 @@ export class ProfileClient extends BaseClient {
           'Content-Type': 'multipart/form-data',
           ...config?.headers,
         },
+        schema: UploadAvatarApiResponseSchema,
       });
     } catch (error) {
       throw this.handleProfileError(error, 'uploadAvatar');
@@ -130,7 +131,7 @@ export class ProfileClient extends BaseClient {
   ): Promise<CreateProfileFromRegistrationApiResponse> {
     try {
       const url = this.buildUrl('/profile/from-registration');
-      return await this.post<CreateProfileFromRegistrationApiResponse>(url, data, config);
+      return await this.post<CreateProfileFromRegistrationApiResponse>(url, data, { ...config, schema: CreateProfileFromRegistrationApiResponseSchema });
     } catch (error) {
       throw this.handleProfileError(error, 'createProfileFromRegistration');
     }
@@ -149,7 +150,7 @@ export class ProfileClient extends BaseClient {
       if (options?.forceRefresh) params.append('forceRefresh', 'true');
 
       const url = this.buildUrl(`/profile/${userId}/statistics/validate`, params);
-      return await this.post<ValidateStatisticsApiResponse>(url, {}, config);
+      return await this.post<ValidateStatisticsApiResponse>(url, {}, { ...config, schema: ValidateStatisticsApiResponseSchema });
     } catch (error) {
       throw this.handleProfileError(error, 'validateStatistics');
     }
@@ -157,12 +158,15 @@ export class ProfileClient extends BaseClient {
 
   /**
    * Get multiple profiles by IDs (batch operation)
+   *
+   * Returns the response envelope like every other method; use `unwrap()`
+   * for the profiles alone.
    */
   async getProfiles(
     userIds: string[],
     options?: Omit<GetProfileRequest, 'userId'>,
     config?: RequestConfig
-  ): Promise<GetProfileResponse[]> {
+  ): Promise<GetProfilesApiResponse> {
     try {
       const params = new URLSearchParams();
       userIds.forEach(id => params.append('userIds', id));
@@ -171,9 +175,7 @@ export class ProfileClient extends BaseClient {
       if (options?.statisticsMaxAge) params.append('statisticsMaxAge', options.statisticsMaxAge.toString());
 
       const url = this.buildUrl('/profile', params);
-      const responses = await this.get<GetProfileResponse[]>(url, config);
-      
-      return responses;
+      return await this.get<GetProfilesApiResponse>(url, { ...config, schema: GetProfilesApiResponseSchema });
     } catch (error) {
       throw this.handleProfileError(error, 'getProfiles');
     }
@@ -181,6 +183,9 @@ export class ProfileClient extends BaseClient {
 
   /**
    * Search profiles by criteria
+   *
+   * Returns the response envelope like every other method; use `unwrap()`
+   * for the page of profiles alone.
    */
   async searchProfiles(
     query: {
@@ -192,11 +197,7 @@ export class ProfileClient extends BaseClient {
       cursor?: string;
     },
     config?: RequestConfig
-  ): Promise<{
-    profiles: GetProfileResponse[];
-    nextCursor?: string;
-    hasMore: boolean;
-  }> {
+  ): Promise<SearchProfilesApiResponse> {
     try {
       const params = new URLSearchParams();
       if (query.school) params.append('school', query.school);
@@ -207,17 +208,7 @@ export class ProfileClient extends BaseClient {
       if (query.cursor) params.append('cursor', query.cursor);
 
       const url = this.buildUrl('/profile/search', params);
-      const response = await this.get<{
-        items: GetProfileResponse[];
-        nextCursor?: string;
-        hasMore: boolean;
-      }>(url, config);
-      
-      return {
-        profiles: response.items,
-        nextCursor: response.nextCursor,
-        hasMore: response.hasMore,
-      };
+      return await this.get<SearchProfilesApiResponse>(url, { ...config, schema: SearchProfilesApiResponseSchema });
     } catch (error) {
       throw this.handleProfileError(error, 'searchProfiles');
     }
@@ -227,14 +218,10 @@ export class ProfileClient extends BaseClient {
    * Build URL with optional query parameters
    */
   private buildUrl(path: string, params?: URLSearchParams): string {
-    const clientConfig = this.getConfig();
     const fullPath = path;
     const finalUrl = params && params.toString() ? `${fullPath}?${params.toString()}` : fullPath;
     
-    // Only log URL construction in debug mode
-    if (clientConfig.debug) {
-      console.debug(`[ProfileClient] Built URL: ${finalUrl}`);
-    }
+    this.logger.debug(`Built URL: ${finalUrl}`);
     
     return finalUrl;
   }
@@ -27,9 +27,29 @@ export type {
   CreateProfileFromRegistrationRequest,
   CreateProfileFromRegistrationResponse,
   ValidateStatisticsRequest,
-  ValidateStatisticsResponse
+  ValidateStatisticsResponse,
+  SearchProfilesResponse,
+  GetProfilesApiResponse,
+  SearchProfilesApiResponse
 } from './types/api';
 
+// Response schemas (checked when responseValidation is enabled)
+export {
+  GetProfileResponseSchema,
+  UpdateProfileResponseSchema,
+  UploadAvatarResponseSchema,
+  CreateProfileFromRegistrationResponseSchema,
+  ValidateStatisticsResponseSchema,
+  SearchProfilesResponseSchema,
+  GetProfileApiResponseSchema,
+  UpdateProfileApiResponseSchema,
+  UploadAvatarApiResponseSchema,
+  CreateProfileFromRegistrationApiResponseSchema,
+  ValidateStatisticsApiResponseSchema,
+  GetProfilesApiResponseSchema,
+  SearchProfilesApiResponseSchema
+} from './types/schemas';
+
 // Re-export core types and enums that are commonly used
 export { 
   Environment, 
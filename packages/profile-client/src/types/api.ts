@@ -166,6 +166,15 @@ export interface ValidateStatisticsResponse {
   refreshed: boolean;
 }
 
+/**
+ * Search profiles response
+ */
+export interface SearchProfilesResponse {
+  items: GetProfileResponse[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
 // =============================================================================
 // FULL API RESPONSE TYPES (using common response structure)
 // =============================================================================
@@ -185,6 +194,12 @@ export type CreateProfileFromRegistrationApiResponse = SuccessResponse<CreatePro
 /** Validate statistics API response */
 export type ValidateStatisticsApiResponse = SuccessResponse<ValidateStatisticsResponse> | ErrorResponse;
 
+/** Get profiles (batch) API response */
+export type GetProfilesApiResponse = SuccessResponse<GetProfileResponse[]> | ErrorResponse;
+
+/** Search profiles API response */
+export type SearchProfilesApiResponse = SuccessResponse<SearchProfilesResponse> | ErrorResponse;
+
 // =============================================================================
 // DATA-ONLY RESPONSE TYPES (for backward compatibility)
 // =============================================================================
\ No newline at end of file
@@ -6,3 +6,4 @@
  * without needing to know the internal file structure.
  */
 export * from './api';
+export * from './schemas';
@@ -0,0 +1,99 @@
+/**
+ * Runtime schemas of the Profile API responses
+ *
+ * Checked by ProfileClient when `responseValidation` is 'strict' or 'warn'.
+ */
+
+import { apiResponseSchema, schema } from '@tutenet/client-core';
+import type { Schema } from '@tutenet/client-core';
+import type {
+  CreateProfileFromRegistrationApiResponse,
+  CreateProfileFromRegistrationResponse,
+  GetProfileApiResponse,
+  GetProfileResponse,
+  GetProfilesApiResponse,
+  SearchProfilesApiResponse,
+  SearchProfilesResponse,
+  UpdateProfileApiResponse,
+  UpdateProfileResponse,
+  UploadAvatarApiResponse,
+  UploadAvatarResponse,
+  ValidateStatisticsApiResponse,
+  ValidateStatisticsResponse,
+} from './api';
+
+export const GetProfileResponseSchema = schema.object<GetProfileResponse>({
+  userId: schema.string(),
+  memberSince: schema.string(),
+  name: schema.string(),
+  school: schema.string(),
+  city: schema.string(),
+  bio: schema.optional(schema.string()),
+  avatarUrl: schema.optional(schema.string()),
+  primarySubject: schema.string(),
+  subjects: schema.array(schema.string()),
+  gradeLevels: schema.array(schema.string()),
+  yearsTeaching: schema.optional(schema.number()),
+  isMentor: schema.boolean(),
+  statistics: schema.optional(schema.object({
+    resourceCount: schema.number(),
+    totalDownloads: schema.number(),
+    totalAppreciations: schema.number(),
+    averageRating: schema.number(),
+    uniqueStudents: schema.number(),
+    teacherRank: schema.optional(schema.number()),
+  })),
+});
+
+export const UpdateProfileResponseSchema = schema.object<UpdateProfileResponse>({
+  message: schema.string(),
+  profile: schema.object({
+    userId: schema.string(),
+    name: schema.string(),
+    school: schema.string(),
+    city: schema.string(),
+    bio: schema.optional(schema.string()),
+    avatarUrl: schema.optional(schema.string()),
+    primarySubject: schema.string(),
+    subjects: schema.array(schema.string()),
+    gradeLevels: schema.array(schema.string()),
+    yearsTeaching: schema.number(),
+    isMentor: schema.boolean(),
+    memberSince: schema.string(),
+    updatedAt: schema.string(),
+  }),
+});
+
+export const UploadAvatarResponseSchema = schema.object<UploadAvatarResponse>({
+  avatarUrl: schema.string(),
+  uploadedAt: schema.string(),
+});
+
+export const CreateProfileFromRegistrationResponseSchema = schema.object<CreateProfileFromRegistrationResponse>({
+  profile: GetProfileResponseSchema,
+  isNewProfile: schema.boolean(),
+});
+
+export const ValidateStatisticsResponseSchema = schema.object<ValidateStatisticsResponse>({
+  statistics: schema.object({
+    resourceCount: schema.number(),
+    totalDownloads: schema.number(),
+    totalAppreciations: schema.number(),
+    lastUpdated: schema.string(),
+  }),
+  refreshed: schema.boolean(),
+});
+
+export const SearchProfilesResponseSchema = schema.object<SearchProfilesResponse>({
+  items: schema.array(GetProfileResponseSchema),
+  nextCursor: schema.optional(schema.string()),
+  hasMore: schema.boolean(),
+});
+
+export const GetProfileApiResponseSchema: Schema<GetProfileApiResponse> = apiResponseSchema(GetProfileResponseSchema);
+export const UpdateProfileApiResponseSchema: Schema<UpdateProfileApiResponse> = apiResponseSchema(UpdateProfileResponseSchema);
+export const UploadAvatarApiResponseSchema: Schema<UploadAvatarApiResponse> = apiResponseSchema(UploadAvatarResponseSchema);
+export const CreateProfileFromRegistrationApiResponseSchema: Schema<CreateProfileFromRegistrationApiResponse> = apiResponseSchema(CreateProfileFromRegistrationResponseSchema);
+export const ValidateStatisticsApiResponseSchema: Schema<ValidateStatisticsApiResponse> = apiResponseSchema(ValidateStatisticsResponseSchema);
+export const GetProfilesApiResponseSchema: Schema<GetProfilesApiResponse> = apiResponseSchema(schema.array(GetProfileResponseSchema));
+export const SearchProfilesApiResponseSchema: Schema<SearchProfilesApiResponse> = apiResponseSchema(SearchProfilesResponseSchema);
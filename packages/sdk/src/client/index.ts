@@ -0,0 +1,2 @@
+export { TuteNet } from './tuteNet';
+export type { TuteNetConfig } from './tuteNet';
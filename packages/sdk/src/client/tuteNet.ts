@@ -0,0 +1,238 @@
+/**
+ * TuteNet SDK
+ *
+ * One entry point to every TuteNet service client. Clients are created on
+ * first use from a single configuration and share one session, middleware
+ * pipeline, circuit breaker and response cache.
+ */
+
+import {
+  ApiType,
+  AuthSession,
+  BaseClient,
+  CircuitBreaker,
+  ClientOptions,
+  EndpointList,
+  EnvironmentName,
+  Middleware,
+  MiddlewarePipeline,
+  RequestConfig,
+  ResponseCache,
+  SessionTokens,
+  TokenStore,
+  detectEnvironment,
+} from '@tutenet/client-core';
+import { AuthClient, SignInApiResponse, SignInRequest } from '@tutenet/auth-client';
+import { LibraryClient } from '@tutenet/library-client';
+import { ProfileClient } from '@tutenet/profile-client';
+import { SearchClient } from '@tutenet/search-client';
+import { AccessClient, UploadClient } from '@tutenet/upload-client';
+import { Onboarding, OnboardingOptions, OnboardingState } from '../onboarding/onboarding';
+
+/**
+ * TuteNet SDK configuration, shared by every service client
+ */
+export interface TuteNetConfig extends Omit<ClientOptions, 'tokenProvider'> {
+  /** Environment (auto-detected if not provided) */
+  environment?: EnvironmentName;
+
+  /** Custom base URL, or base URLs in failover order (overrides the environment's endpoints) */
+  baseUrl?: EndpointList;
+
+  /** Request timeout in milliseconds (default: each client's own) */
+  timeout?: number;
+
+  /** Number of retry attempts (default: each client's own) */
+  retries?: number;
+
+  /** Initial session tokens (default: restored from `tokenStore`) */
+  tokens?: SessionTokens;
+
+  /** Where session tokens are persisted, so the user stays signed in across restarts */
+  tokenStore?: TokenStore;
+
+  /** Refresh the access token before it expires, not only after a 401 (default: false) */
+  autoRefresh?: boolean;
+
+  /** How long before expiry to refresh, in milliseconds (default: 60000) */
+  refreshMargin?: number;
+
+  /** Session to use instead of creating one; its refresh handler, token store and refresh schedule are left as-is */
+  session?: AuthSession;
+}
+
+/**
+ * Options passed to each service client
+ */
+type SharedClientConfig = ClientOptions & {
+  environment: EnvironmentName;
+  baseUrl?: EndpointList;
+  timeout?: number;
+  retries?: number;
+};
+
+/**
+ * TuteNet SDK root object
+ *
+ * Every service client authenticates through `session`: signing in once
+ * authenticates all of them, and a 401 from any service triggers a single
+ * token refresh through the Auth Service.
+ *
+ * @example
+ * ```typescript
+ * const tutenet = new TuteNet({ environment: Environment.STAGING });
+ *
+ * await tutenet.signIn({ email: 'teacher@example.com', password: 'secret' });
+ *
+ * const library = await tutenet.library.getLibraryItems();
+ * const results = await tutenet.search.search({ q: 'fractions' });
+ * ```
+ */
+export class TuteNet {
+  /** Session shared by every service client */
+  readonly session: AuthSession;
+
+  /** Middleware pipeline shared by every service client */
+  readonly middleware: MiddlewarePipeline;
+
+  private readonly config: SharedClientConfig;
+  private readonly clients = new Map<string, BaseClient>();
+
+  constructor(config: TuteNetConfig = {}) {
+    const {
+      tokens, tokenStore, autoRefresh, refreshMargin, session, middleware, circuitBreaker, cache, ...options
+    } = config;
+
+    this.session = session ?? new AuthSession({
+      tokens,
+      store: tokenStore,
+      autoRefresh,
+      refreshMargin,
+      refresh: (refreshToken) => this.auth.refreshSession(refreshToken),
+    });
+    if (session && tokens) {
+      session.setTokens(tokens);
+    }
+
+    this.middleware = middleware instanceof MiddlewarePipeline
+      ? middleware
+      : new MiddlewarePipeline(middleware);
+
+    this.config = {
+      ...options,
+      environment: options.environment || detectEnvironment(),
+      tokenProvider: this.session,
+      middleware: this.middleware,
+      // One breaker and one cache, however many clients are created
+      circuitBreaker: circuitBreaker && !(circuitBreaker instanceof CircuitBreaker)
+        ? new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker)
+        : circuitBreaker,
+      cache: cache && !(cache instanceof ResponseCache)
+        ? new ResponseCache(cache === true ? {} : cache)
+        : cache,
+    };
+  }
+
+  /**
+   * Auth Service client
+   */
+  get auth(): AuthClient {
+    return this.client('auth', () => new AuthClient(this.config));
+  }
+
+  /**
+   * Upload Service client
+   */
+  get upload(): UploadClient {
+    return this.client('upload', () => new UploadClient(this.config));
+  }
+
+  /**
+   * Content Access client
+   */
+  get access(): AccessClient {
+    return this.client('access', () => new AccessClient(this.config));
+  }
+
+  /**
+   * Library Service client
+   */
+  get library(): LibraryClient {
+    return this.client('library', () => new LibraryClient(this.config));
+  }
+
+  /**
+   * Search Service client
+   */
+  get search(): SearchClient {
+    return this.client('search', () => new SearchClient(this.config));
+  }
+
+  /**
+   * Profile Service client
+   */
+  get profile(): ProfileClient {
+    return this.client('profile', () => new ProfileClient({ ...this.config, apiType: ApiType.EXTERNAL }));
+  }
+
+  /**
+   * Sign in and store the tokens in the shared session
+   *
+   * The response is returned as-is; the session is only updated (and emits
+   * `signedIn`) on success.
+   */
+  async signIn(request: SignInRequest, config?: RequestConfig): Promise<SignInApiResponse> {
+    return this.auth.signIn(request, config);
+  }
+
+  /**
+   * Remove the session tokens and emit `signedOut`; every client continues anonymously
+   */
+  signOut(): void {
+    this.session.signOut();
+  }
+
+  /**
+   * Start a guided onboarding (sign up, verification, sign in, profile), or
+   * resume one from its saved state
+   */
+  createOnboarding(state?: OnboardingState, options: Omit<OnboardingOptions, 'state'> = {}): Onboarding {
+    return new Onboarding(this, { ...options, state });
+  }
+
+  /**
+   * Whether the shared session holds an access token
+   */
+  isAuthenticated(): boolean {
+    return this.session.isAuthenticated();
+  }
+
+  /**
+   * Add middleware to every service client, including those created later
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Remove middleware from every service client
+   *
+   * @returns True if the middleware was registered
+   */
+  removeMiddleware(middleware: Middleware): boolean {
+    return this.middleware.remove(middleware);
+  }
+
+  /**
+   * Service client created on first use
+   */
+  private client<T extends BaseClient>(name: string, create: () => T): T {
+    let client = this.clients.get(name) as T | undefined;
+    if (!client) {
+      client = create();
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+}
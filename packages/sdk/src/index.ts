@@ -0,0 +1,27 @@
+/**
+ * TuteNet SDK
+ * 
+ * One entry point to every TuteNet service client. Service clients are
+ * created on first use and share one session, so signing in once
+ * authenticates them all.
+ * 
+ * @example
+ * ```typescript
+ * import { TuteNet } from '@tutenet/sdk';
+ * 
+ * const tutenet = new TuteNet({ environment: Environment.STAGING });
+ * await tutenet.signIn({ email: 'teacher@example.com', password: 'secret' });
+ * 
+ * const structure = await tutenet.upload.getResourceStructure('res-123');
+ * const teachers = await tutenet.search.searchTeachers({ q: 'Pankaj' });
+ * ```
+ * 
+ * @version 1.0.0
+ */
+
+export * from './client';
+export * from './onboarding';
+
+export { Environment } from '@tutenet/client-core';
+
+export { TuteNet as default } from './client/tuteNet';
@@ -0,0 +1,10 @@
+export { ONBOARDING_STATE_VERSION, Onboarding } from './onboarding';
+export type {
+  OnboardingError,
+  OnboardingEvents,
+  OnboardingInputs,
+  OnboardingOptions,
+  OnboardingRegistration,
+  OnboardingState,
+  OnboardingStep
+} from './onboarding';
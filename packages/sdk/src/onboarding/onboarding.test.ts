@@ -0,0 +1,208 @@
+import { MemoryTransport, Transport } from '@tutenet/client-core';
+import { FakeBackend } from '@tutenet/fake-backend';
+import { TuteNet, TuteNetConfig } from '../client/tuteNet';
+import { OnboardingState } from './onboarding';
+
+const EMAIL = 'teacher@example.com';
+const PASSWORD = 'Password123';
+const SIGN_UP = { email: EMAIL, password: PASSWORD, firstName: 'Ann', lastName: 'Lee' };
+
+function createTuteNet(transport: Transport, config: TuteNetConfig = {}): TuteNet {
+  return new TuteNet({ environment: 'development', baseUrl: 'https://api.test', transport, retries: 0, ...config });
+}
+
+/**
+ * State as an app would store and load it
+ */
+function persist(state: OnboardingState): OnboardingState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Error envelope for a route replaced in front of the fake backend
+ */
+function errorBody(code: string) {
+  return {
+    success: false,
+    error: { code, message: code },
+    meta: { requestId: 'req-1', timestamp: new Date().toISOString() },
+  };
+}
+
+/**
+ * Backend answering resend requests with 429 and the given headers
+ */
+function rateLimited(backend: FakeBackend, headers: Record<string, string>): Transport {
+  return new MemoryTransport(request => backend.transport.request(request))
+    .reply('POST', '/auth/resend-verification', { status: 429, headers, data: errorBody('TOO_MANY_REQUESTS') });
+}
+
+describe('Onboarding', () => {
+  let backend: FakeBackend;
+
+  beforeEach(() => {
+    backend = new FakeBackend();
+  });
+
+  it('runs from sign up to a provisioned profile', async () => {
+    const onboarding = createTuteNet(backend.transport).createOnboarding();
+    const changes = jest.fn();
+    onboarding.onChange(changes);
+
+    await onboarding.signUp(SIGN_UP);
+    expect(onboarding.step).toBe('verifyEmail');
+    expect(onboarding.pendingInput).toEqual(['code']);
+
+    const state = await onboarding.verifyEmail(backend.getVerificationCode(EMAIL)!);
+
+    expect(state.step).toBe('complete');
+    expect(state.profile).toMatchObject({ userId: state.userId });
+    expect(state.error).toBeUndefined();
+    expect(JSON.stringify(changes.mock.calls)).not.toContain(PASSWORD);
+  });
+
+  describe('resuming from serialized state', () => {
+    it('resumes at signUp', async () => {
+      const first = createTuteNet(backend.transport).createOnboarding();
+      await first.signUp({ ...SIGN_UP, email: 'not-an-email' });
+      expect(first.state.error).toMatchObject({ step: 'signUp' });
+
+      const resumed = createTuteNet(backend.transport).createOnboarding(persist(first.state));
+      expect(resumed.step).toBe('signUp');
+
+      await resumed.signUp(SIGN_UP);
+      expect(resumed.step).toBe('verifyEmail');
+    });
+
+    it('resumes at verifyEmail and asks for the password again', async () => {
+      const first = createTuteNet(backend.transport).createOnboarding();
+      await first.signUp(SIGN_UP);
+
+      const resumed = createTuteNet(backend.transport).createOnboarding(persist(first.state));
+      expect(resumed.step).toBe('verifyEmail');
+
+      await resumed.verifyEmail(backend.getVerificationCode(EMAIL)!);
+      expect(resumed.step).toBe('signIn');
+      expect(resumed.pendingInput).toEqual(['password']);
+
+      await resumed.signIn(PASSWORD);
+      expect(resumed.step).toBe('complete');
+    });
+
+    it('resumes at signIn', async () => {
+      const first = createTuteNet(backend.transport).createOnboarding();
+      await first.signUp(SIGN_UP);
+      const verified = createTuteNet(backend.transport).createOnboarding(persist(first.state));
+      await verified.verifyEmail(backend.getVerificationCode(EMAIL)!);
+
+      const resumed = createTuteNet(backend.transport).createOnboarding(persist(verified.state));
+      expect(resumed.step).toBe('signIn');
+      await resumed.signIn('Wrong123');
+      expect(resumed.step).toBe('signIn');
+      expect(resumed.state.error).toMatchObject({ step: 'signIn' });
+
+      await resumed.signIn(PASSWORD);
+      expect(resumed.step).toBe('complete');
+    });
+
+    it('resumes at createProfile with the stored session', async () => {
+      let failures = 1;
+      const transport = new MemoryTransport(request => backend.transport.request(request))
+        .on('POST', '/profile/from-registration', request =>
+          failures-- > 0 ? { status: 400, data: errorBody('PROFILE_VALIDATION_ERROR') } : backend.transport.request(request));
+      const tutenet = createTuteNet(transport);
+      const first = tutenet.createOnboarding();
+      await first.signUp(SIGN_UP);
+      await first.verifyEmail(backend.getVerificationCode(EMAIL)!);
+      expect(first.step).toBe('createProfile');
+      expect(first.state.error).toMatchObject({ step: 'createProfile', code: 'PROFILE_VALIDATION_ERROR' });
+
+      const restarted = createTuteNet(transport, { tokens: tutenet.session.getTokens() });
+      const resumed = restarted.createOnboarding(persist(first.state));
+      await resumed.createProfile();
+
+      expect(resumed.step).toBe('complete');
+      expect(resumed.state.profile).toMatchObject({ userId: first.state.userId });
+    });
+
+    it('goes back to signIn when resumed at createProfile without a session', async () => {
+      const first = createTuteNet(backend.transport).createOnboarding();
+      await first.signUp(SIGN_UP);
+      const state: OnboardingState = { ...persist(first.state), step: 'createProfile' };
+
+      const resumed = createTuteNet(backend.transport).createOnboarding(state);
+      await resumed.createProfile();
+
+      expect(resumed.step).toBe('signIn');
+    });
+
+    it('resumes at complete', async () => {
+      const first = createTuteNet(backend.transport).createOnboarding();
+      await first.signUp(SIGN_UP);
+      await first.verifyEmail(backend.getVerificationCode(EMAIL)!);
+
+      const resumed = createTuteNet(backend.transport).createOnboarding(persist(first.state));
+
+      expect(resumed.step).toBe('complete');
+      expect(resumed.state.profile).toEqual(first.state.profile);
+      await expect(resumed.signIn(PASSWORD)).rejects.toThrow("Onboarding is at step 'complete', not 'signIn'");
+    });
+
+    it('rejects state of another version', () => {
+      const state = { version: 2, step: 'signUp' } as unknown as OnboardingState;
+
+      expect(() => createTuteNet(backend.transport).createOnboarding(state)).toThrow('Unsupported onboarding state version 2');
+    });
+  });
+
+  describe('resending the verification code', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = Date.parse('2026-01-01T00:00:00Z');
+    });
+
+    it('waits for the cooldown between codes', async () => {
+      const onboarding = createTuteNet(backend.transport).createOnboarding(undefined, { now: () => now });
+      await onboarding.signUp(SIGN_UP);
+      const firstCode = backend.getVerificationCode(EMAIL);
+
+      await onboarding.resendCode();
+      expect(onboarding.state.error).toMatchObject({ step: 'verifyEmail', code: 'RESEND_COOLDOWN' });
+      expect(onboarding.resendAvailableIn).toBe(60 * 1000);
+
+      now += 60 * 1000;
+      await onboarding.resendCode();
+      expect(onboarding.state.error).toBeUndefined();
+      expect(backend.getVerificationCode(EMAIL)).not.toBe(firstCode);
+    });
+
+    it.each([undefined, 'result', 'throw'] as const)('uses the Retry-After of a 429 (errorMode %s)', async (errorMode) => {
+      const transport = rateLimited(backend, { 'retry-after': '120' });
+      const onboarding = createTuteNet(transport, { errorMode, retries: 2 }).createOnboarding(undefined, { now: () => now });
+      await onboarding.signUp(SIGN_UP);
+      now += 60 * 1000;
+
+      await onboarding.resendCode();
+
+      expect(onboarding.state.error).toMatchObject({ step: 'verifyEmail' });
+      expect(onboarding.resendAvailableIn).toBe(120 * 1000);
+      // Not retried: the user is told when to try again instead
+      expect(backend.requests.filter(request => request.url === '/auth/resend-verification')).toHaveLength(0);
+    });
+
+    it('falls back to X-RateLimit-Reset, then to the cooldown', async () => {
+      const withReset = createTuteNet(rateLimited(backend, { 'x-ratelimit-reset': '30' }))
+        .createOnboarding(undefined, { now: () => now });
+      await withReset.signUp(SIGN_UP);
+      now += 60 * 1000;
+      await withReset.resendCode();
+      expect(withReset.resendAvailableIn).toBe(30 * 1000);
+
+      const state = persist({ ...withReset.state, resendAvailableAt: undefined });
+      const withoutHeaders = createTuteNet(rateLimited(backend, {})).createOnboarding(state, { now: () => now });
+      await withoutHeaders.resendCode();
+      expect(withoutHeaders.resendAvailableIn).toBe(60 * 1000);
+    });
+  });
+});
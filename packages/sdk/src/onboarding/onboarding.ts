@@ -0,0 +1,411 @@
+/**
+ * Guided onboarding
+ *
+ * Runs the sign up sequence that spans the Auth and Profile services: sign
+ * up, email verification, sign in and profile creation. Its state is plain
+ * JSON, so an onboarding interrupted by a reload or an app restart resumes
+ * where it stopped.
+ */
+
+import {
+  ClientError,
+  EventListener,
+  TransportResponse,
+  TypedEventEmitter,
+  Unsubscribe,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+} from '@tutenet/client-core';
+import type { SignUpRequest } from '@tutenet/auth-client';
+import type { GetProfileResponse } from '@tutenet/profile-client';
+import type { TuteNet } from '../client/tuteNet';
+
+/**
+ * Version of the serialized onboarding state
+ */
+export const ONBOARDING_STATE_VERSION = 1;
+
+/**
+ * Onboarding steps, in order
+ */
+export type OnboardingStep = 'signUp' | 'verifyEmail' | 'signIn' | 'createProfile' | 'complete';
+
+/**
+ * Registration details kept for later steps (never the password)
+ */
+export type OnboardingRegistration = Omit<SignUpRequest, 'password'>;
+
+/**
+ * Failure of the last step attempted
+ */
+export interface OnboardingError {
+  step: OnboardingStep;
+
+  /** API error code, or 'RESEND_COOLDOWN' when a code was requested too soon */
+  code: string;
+
+  message: string;
+  details?: Record<string, string>;
+}
+
+/**
+ * Serializable onboarding state
+ *
+ * Contains no password or tokens; store it as JSON and pass it back to
+ * resume.
+ */
+export interface OnboardingState {
+  version: typeof ONBOARDING_STATE_VERSION;
+  step: OnboardingStep;
+  registration?: OnboardingRegistration;
+  userId?: string;
+
+  /** When a verification code may be requested again (epoch milliseconds) */
+  resendAvailableAt?: number;
+
+  /** Provisioned profile, once complete */
+  profile?: GetProfileResponse;
+
+  error?: OnboardingError;
+}
+
+/**
+ * Input each step waits for
+ */
+export interface OnboardingInputs {
+  signUp: SignUpRequest;
+  verifyEmail: { code: string };
+  signIn: { password: string };
+  createProfile: Record<string, never>;
+  complete: Record<string, never>;
+}
+
+/**
+ * Onboarding configuration
+ */
+export interface OnboardingOptions {
+  /** State to resume from (default: a new onboarding) */
+  state?: OnboardingState;
+
+  /** Minimum time between verification code requests in milliseconds (default: 60000) */
+  resendCooldown?: number;
+
+  /** Clock (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Events emitted by an Onboarding
+ */
+export interface OnboardingEvents {
+  /** The state changed; persist it to resume later */
+  change: OnboardingState;
+}
+
+/**
+ * Fields each step's input requires
+ */
+const REQUIRED_INPUT: { [S in OnboardingStep]: ReadonlyArray<keyof OnboardingInputs[S]> } = {
+  signUp: ['email', 'password', 'firstName', 'lastName'],
+  verifyEmail: ['code'],
+  signIn: ['password'],
+  createProfile: [],
+  complete: [],
+};
+
+/**
+ * Onboarding state machine
+ *
+ * Each step method resolves with the new state. API and network failures
+ * resolve too, with the step unchanged and `state.error` describing the
+ * failure. Steps that need no input run on their own: after verification
+ * the user is signed in with the password given at sign up (while the same
+ * instance is alive), and signing in provisions the profile.
+ *
+ * Already-verified emails skip verification, an already-registered email
+ * continues with sign in, and an unverified account met at sign in gets a
+ * new verification code.
+ *
+ * @example
+ * ```typescript
+ * const onboarding = tutenet.createOnboarding(JSON.parse(localStorage.getItem('onboarding') ?? 'null') ?? undefined);
+ * onboarding.onChange(state => localStorage.setItem('onboarding', JSON.stringify(state)));
+ *
+ * await onboarding.signUp({ email, password, firstName, lastName });
+ * await onboarding.verifyEmail(code); // signs in and creates the profile
+ *
+ * if (onboarding.step === 'complete') {
+ *   showProfile(onboarding.state.profile);
+ * }
+ * ```
+ */
+export class Onboarding {
+  private current: OnboardingState;
+  // Kept in memory only, to sign in right after verification
+  private password?: string;
+  private readonly resendCooldown: number;
+  private readonly now: () => number;
+  private readonly events = new TypedEventEmitter<OnboardingEvents>();
+
+  constructor(private readonly tutenet: TuteNet, options: OnboardingOptions = {}) {
+    const { state } = options;
+    if (state && state.version !== ONBOARDING_STATE_VERSION) {
+      throw new Error(`Unsupported onboarding state version ${state.version}`);
+    }
+
+    this.current = state ? { ...state } : { version: ONBOARDING_STATE_VERSION, step: 'signUp' };
+    this.resendCooldown = options.resendCooldown ?? 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Current state (a copy, safe to serialize)
+   */
+  get state(): OnboardingState {
+    return { ...this.current };
+  }
+
+  /**
+   * Current step
+   */
+  get step(): OnboardingStep {
+    return this.current.step;
+  }
+
+  /**
+   * Input fields the current step waits for
+   */
+  get pendingInput(): ReadonlyArray<string> {
+    return REQUIRED_INPUT[this.current.step] as ReadonlyArray<string>;
+  }
+
+  /**
+   * Milliseconds until a verification code may be requested again (0 when it may)
+   */
+  get resendAvailableIn(): number {
+    return Math.max(0, (this.current.resendAvailableAt ?? 0) - this.now());
+  }
+
+  /**
+   * Subscribe to state changes
+   */
+  onChange(listener: EventListener<OnboardingState>): Unsubscribe {
+    return this.events.on('change', listener);
+  }
+
+  /**
+   * Register the user; continues with email verification
+   */
+  async signUp(input: SignUpRequest): Promise<OnboardingState> {
+    this.expectStep('signUp');
+    const { password, ...registration } = input;
+    this.password = password;
+    this.update({ registration });
+
+    const response = await this.call(() => this.tutenet.auth.signUp(input));
+    if (response.success) {
+      const { user } = response.data;
+      if (user.emailVerified === false) {
+        this.update({ step: 'verifyEmail', userId: user.userId, resendAvailableAt: this.now() + this.resendCooldown });
+        return this.state;
+      }
+      this.update({ step: 'signIn', userId: user.userId });
+      return this.continueSignIn();
+    }
+
+    if (response.error.code === 'EMAIL_ALREADY_EXISTS') {
+      this.update({ step: 'signIn' });
+      return this.continueSignIn();
+    }
+    return this.fail('signUp', response.error);
+  }
+
+  /**
+   * Confirm the email address with the code sent to it
+   */
+  async verifyEmail(code: string): Promise<OnboardingState> {
+    this.expectStep('verifyEmail');
+    const email = this.getEmail();
+
+    const response = await this.call(() => this.tutenet.auth.verifyEmail({ email, code }));
+    if (!response.success && response.error.code !== 'EMAIL_ALREADY_VERIFIED') {
+      return this.fail('verifyEmail', response.error);
+    }
+
+    this.update({ step: 'signIn', resendAvailableAt: undefined });
+    return this.continueSignIn();
+  }
+
+  /**
+   * Send a new verification code, unless one was sent less than the cooldown ago
+   */
+  async resendCode(): Promise<OnboardingState> {
+    this.expectStep('verifyEmail');
+
+    const wait = this.resendAvailableIn;
+    if (wait > 0) {
+      return this.fail('verifyEmail', {
+        code: 'RESEND_COOLDOWN',
+        message: `A new code can be requested in ${Math.ceil(wait / 1000)} seconds`,
+      });
+    }
+
+    let rateLimited: TransportResponse | undefined;
+    const response = await this.call(() => this.tutenet.auth.resendVerification({ email: this.getEmail() }, {
+      // A 429 is reported with its wait instead of being retried
+      skipRetry: true,
+      onResponse: received => {
+        rateLimited = received.status === 429 ? received : undefined;
+      },
+    }));
+
+    if (response.success) {
+      this.update({ resendAvailableAt: this.now() + this.resendCooldown });
+      return this.state;
+    }
+
+    if (response.error.code === 'EMAIL_ALREADY_VERIFIED') {
+      this.update({ step: 'signIn', resendAvailableAt: undefined });
+      return this.continueSignIn();
+    }
+
+    if (rateLimited) {
+      this.update({ resendAvailableAt: this.getRetryTime(rateLimited.headers) });
+    }
+    return this.fail('verifyEmail', response.error);
+  }
+
+  /**
+   * Sign in; continues with profile creation
+   */
+  async signIn(password: string): Promise<OnboardingState> {
+    this.expectStep('signIn');
+    this.password = password;
+    return this.continueSignIn();
+  }
+
+  /**
+   * Create the profile again after a failure
+   */
+  async createProfile(): Promise<OnboardingState> {
+    this.expectStep('createProfile');
+    return this.continueCreateProfile();
+  }
+
+  /**
+   * Sign in with the in-memory password, if any
+   */
+  private async continueSignIn(): Promise<OnboardingState> {
+    const password = this.password;
+    if (!password) {
+      return this.state;
+    }
+
+    const email = this.getEmail();
+    const response = await this.call(() => this.tutenet.signIn({ email, password }));
+    if (!response.success) {
+      if (response.error.code === 'EMAIL_NOT_VERIFIED') {
+        this.update({ step: 'verifyEmail', resendAvailableAt: undefined });
+        return this.resendCode();
+      }
+      return this.fail('signIn', response.error);
+    }
+
+    const { user } = response.data;
+    this.password = undefined;
+    this.update({
+      step: 'createProfile',
+      userId: user.userId,
+      registration: {
+        ...this.current.registration,
+        email: user.email,
+        firstName: user.firstName || this.current.registration?.firstName || '',
+        lastName: user.lastName || this.current.registration?.lastName || '',
+        subjects: user.subjects?.length ? user.subjects : this.current.registration?.subjects,
+        languages: user.languages?.length ? user.languages : this.current.registration?.languages,
+      },
+    });
+    return this.continueCreateProfile();
+  }
+
+  /**
+   * Provision the profile of the signed-in user
+   */
+  private async continueCreateProfile(): Promise<OnboardingState> {
+    const { userId, registration } = this.current;
+    if (!this.tutenet.isAuthenticated() || !userId || !registration) {
+      // Resumed without a session: sign in again first
+      this.update({ step: 'signIn' });
+      return this.state;
+    }
+
+    const response = await this.call(() => this.tutenet.profile.createProfileFromRegistration({ userId, ...registration }));
+    if (!response.success) {
+      if (!this.tutenet.isAuthenticated()) {
+        this.update({ step: 'signIn' });
+      }
+      return this.fail('createProfile', response.error);
+    }
+
+    // An existing profile (isNewProfile: false) completes onboarding as well
+    this.update({ step: 'complete', profile: response.data.profile });
+    return this.state;
+  }
+
+  /**
+   * When a rate-limited request may be sent again: Retry-After, then
+   * X-RateLimit-Reset, then the resend cooldown
+   */
+  private getRetryTime(headers: Record<string, string>): number {
+    const now = this.now();
+    const retryAfter = parseRetryAfter(headers['retry-after'], now);
+    if (retryAfter !== undefined) {
+      return now + retryAfter * 1000;
+    }
+    return parseRateLimitHeaders(headers, now)?.resetAt ?? now + this.resendCooldown;
+  }
+
+  /**
+   * Call an API, turning thrown client errors (errorMode 'throw', network
+   * failures) into error responses
+   */
+  private async call<T>(
+    request: () => Promise<T>
+  ): Promise<T | { success: false; error: { code: string; message: string; details?: Record<string, string> } }> {
+    try {
+      return await request();
+    } catch (error) {
+      if (!(error instanceof ClientError)) {
+        throw error;
+      }
+      return { success: false, error: { code: error.code, message: error.message, details: error.details } };
+    }
+  }
+
+  private getEmail(): string {
+    const email = this.current.registration?.email;
+    if (!email) {
+      throw new Error('Onboarding state has no email; start with signUp');
+    }
+    return email;
+  }
+
+  private expectStep(step: OnboardingStep): void {
+    if (this.current.step !== step) {
+      throw new Error(`Onboarding is at step '${this.current.step}', not '${step}'`);
+    }
+  }
+
+  private fail(step: OnboardingStep, error: Omit<OnboardingError, 'step'>): OnboardingState {
+    this.update({ error: { step, code: error.code, message: error.message, details: error.details } });
+    return this.state;
+  }
+
+  /**
+   * Apply a change; a successful change clears the last error
+   */
+  private update(changes: Partial<OnboardingState>): void {
+    this.current = { ...this.current, error: undefined, ...changes };
+    this.events.emit('change', this.state);
+  }
+}
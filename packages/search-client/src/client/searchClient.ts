@@ -11,8 +11,11 @@
 import {
   BaseClient,
   ClientConfig,
-  Environment,
+  ClientOptions,
+  EndpointList,
+  EnvironmentName,
   ApiType,
+  RequestConfig,
   detectEnvironment,
 } from '@tutenet/client-core';
 import {
@@ -23,12 +26,16 @@ import {
   ResourceSearchResponse,
   TeacherSearchResponse,
   SuggestionsResponse,
+  UnifiedSearchResponseSchema,
+  ResourceSearchResponseSchema,
+  TeacherSearchResponseSchema,
+  SuggestionsResponseSchema,
 } from '../types';
 
 /** Search client configuration options */
-export interface SearchClientConfig {
-  environment?: Environment;
-  baseUrl?: string;
+export interface SearchClientConfig extends ClientOptions {
+  environment?: EnvironmentName;
+  baseUrl?: EndpointList;
   timeout?: number;
   retries?: number;
   accessToken?: string;
@@ -59,13 +66,16 @@ export interface SearchClientConfig {
 export class SearchClient extends BaseClient {
   constructor(config: SearchClientConfig = {}) {
     const environment = config.environment || detectEnvironment();
+    const { accessToken, baseUrl, ...options } = config;
 
     const clientConfig: ClientConfig = {
+      ...options,
       environment,
+      baseUrl,
       apiType: ApiType.EXTERNAL,
       timeout: config.timeout || 10000,
       retries: config.retries || 1,
-      authToken: config.accessToken,
+      authToken: accessToken,
     };
 
     super(clientConfig);
@@ -76,15 +86,18 @@ export class SearchClient extends BaseClient {
    * 
    * GET /v1/search?q=...&type=all|resources|teachers&subject=...&sort=...&limit=...&cursor=...
    */
-  async search(params: SearchParams): Promise<UnifiedSearchResponse | ResourceSearchResponse | TeacherSearchResponse> {
+  async search(
+    params: SearchParams,
+    config?: RequestConfig
+  ): Promise<UnifiedSearchResponse | ResourceSearchResponse | TeacherSearchResponse> {
     const queryParams = this.buildSearchQueryParams(params);
 
     if (params.type === 'all' || !params.type) {
-      return this.get<UnifiedSearchResponse>(`/search?${queryParams}`);
+      return this.get<UnifiedSearchResponse>(`/search?${queryParams}`, { ...config, schema: UnifiedSearchResponseSchema });
     } else if (params.type === 'resources') {
-      return this.get<ResourceSearchResponse>(`/search?${queryParams}`);
+      return this.get<ResourceSearchResponse>(`/search?${queryParams}`, { ...config, schema: ResourceSearchResponseSchema });
     } else {
-      return this.get<TeacherSearchResponse>(`/search?${queryParams}`);
+      return this.get<TeacherSearchResponse>(`/search?${queryParams}`, { ...config, schema: TeacherSearchResponseSchema });
     }
   }
 
@@ -93,9 +106,9 @@ export class SearchClient extends BaseClient {
    * 
    * GET /v1/search?type=resources&q=...
    */
-  async searchResources(params: Omit<SearchParams, 'type'>): Promise<ResourceSearchResponse> {
+  async searchResources(params: Omit<SearchParams, 'type'>, config?: RequestConfig): Promise<ResourceSearchResponse> {
     const queryParams = this.buildSearchQueryParams({ ...params, type: 'resources' });
-    return this.get<ResourceSearchResponse>(`/search?${queryParams}`);
+    return this.get<ResourceSearchResponse>(`/search?${queryParams}`, { ...config, schema: ResourceSearchResponseSchema });
   }
 
   /**
@@ -103,9 +116,9 @@ export class SearchClient extends BaseClient {
    * 
    * GET /v1/search/teachers?q=...&subject=...&sort=...&limit=...&cursor=...
    */
-  async searchTeachers(params: TeacherSearchParams): Promise<TeacherSearchResponse> {
+  async searchTeachers(params: TeacherSearchParams, config?: RequestConfig): Promise<TeacherSearchResponse> {
     const queryParams = this.buildTeacherQueryParams(params);
-    return this.get<TeacherSearchResponse>(`/search/teachers?${queryParams}`);
+    return this.get<TeacherSearchResponse>(`/search/teachers?${queryParams}`, { ...config, schema: TeacherSearchResponseSchema });
   }
 
   /**
@@ -113,9 +126,9 @@ export class SearchClient extends BaseClient {
    * 
    * GET /v1/search/suggestions?prefix=...
    */
-  async getSuggestions(params: SuggestionsParams): Promise<SuggestionsResponse> {
+  async getSuggestions(params: SuggestionsParams, config?: RequestConfig): Promise<SuggestionsResponse> {
     const queryParams = new URLSearchParams({ prefix: params.prefix }).toString();
-    return this.get<SuggestionsResponse>(`/search/suggestions?${queryParams}`);
+    return this.get<SuggestionsResponse>(`/search/suggestions?${queryParams}`, { ...config, schema: SuggestionsResponseSchema });
   }
 
   /**
@@ -0,0 +1,90 @@
+/**
+ * Runtime schemas of the Search API responses
+ *
+ * Checked by SearchClient when `responseValidation` is 'strict' or 'warn'.
+ */
+
+import { apiResponseSchema, schema } from '@tutenet/client-core';
+import type { Schema } from '@tutenet/client-core';
+import type {
+  PaginatedData,
+  ResourceSearchItem,
+  ResourceSearchResponse,
+  SearchSuggestion,
+  SuggestionsData,
+  SuggestionsResponse,
+  TeacherSearchItem,
+  TeacherSearchResponse,
+  UnifiedSearchData,
+  UnifiedSearchResponse,
+} from './api';
+
+export const ResourceSearchItemSchema = schema.object<ResourceSearchItem>({
+  id: schema.string(),
+  title: schema.string(),
+  description: schema.optional(schema.string()),
+  subject: schema.string(),
+  grade: schema.string(),
+  language: schema.string(),
+  tags: schema.array(schema.string()),
+  teacherId: schema.string(),
+  teacherName: schema.string(),
+  downloads: schema.number(),
+  upvotesCount: schema.number(),
+  rating: schema.number(),
+  fileType: schema.optional(schema.string()),
+  thumbnailUrl: schema.optional(schema.string()),
+  createdAt: schema.string(),
+  previewUrl: schema.optional(schema.string()),
+  isPurchased: schema.optional(schema.boolean()),
+  topic: schema.optional(schema.string()),
+  license: schema.optional(schema.string()),
+  sourceType: schema.optional(schema.string()),
+});
+
+export const TeacherSearchItemSchema = schema.object<TeacherSearchItem>({
+  id: schema.string(),
+  name: schema.string(),
+  school: schema.string(),
+  city: schema.string(),
+  subject: schema.string(),
+  resourceCount: schema.number(),
+  totalDownloads: schema.number(),
+  rating: schema.number(),
+  isMentor: schema.boolean(),
+  avatarUrl: schema.optional(schema.string()),
+  appreciations: schema.number(),
+  badges: schema.array(schema.string()),
+});
+
+/**
+ * Page of search results
+ */
+export function paginatedDataSchema<T>(item: Schema<T>): Schema<PaginatedData<T>> {
+  return schema.object<PaginatedData<T>>({
+    items: schema.array(item),
+    nextCursor: schema.optional(schema.string()),
+    hasMore: schema.boolean(),
+  });
+}
+
+export const UnifiedSearchDataSchema = schema.object<UnifiedSearchData>({
+  resources: paginatedDataSchema(ResourceSearchItemSchema),
+  teachers: paginatedDataSchema(TeacherSearchItemSchema),
+  partialSuccess: schema.optional(schema.boolean()),
+  errors: schema.optional(schema.array(schema.string())),
+});
+
+export const SearchSuggestionSchema = schema.object<SearchSuggestion>({
+  text: schema.string(),
+  category: schema.literal('recent', 'popular', 'subject'),
+});
+
+export const SuggestionsDataSchema = schema.object<SuggestionsData>({
+  suggestions: schema.array(SearchSuggestionSchema),
+});
+
+export const UnifiedSearchResponseSchema: Schema<UnifiedSearchResponse> = apiResponseSchema(UnifiedSearchDataSchema);
+export const ResourceSearchResponseSchema: Schema<ResourceSearchResponse> = apiResponseSchema(paginatedDataSchema(ResourceSearchItemSchema));
+export const TeacherSearchResponseSchema: Schema<TeacherSearchResponse> = apiResponseSchema(paginatedDataSchema(TeacherSearchItemSchema));
+export const SuggestionsResponseSchema: Schema<SuggestionsResponse> = apiResponseSchema(SuggestionsDataSchema);
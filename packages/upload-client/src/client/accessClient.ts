@@ -10,19 +10,23 @@
 import { 
   BaseClient, 
   ClientConfig, 
-  Environment, 
+  ClientOptions,
+  EndpointList,
+  EnvironmentName, 
   ApiType, 
+  RequestConfig,
   detectEnvironment 
 } from '@tutenet/client-core';
 import {
   ContentAccessType,
   ResourceContentAccessApiResponse,
+  ResourceContentAccessApiResponseSchema,
 } from '../types';
 
 /** Access client configuration options */
-export interface AccessClientConfig {
-  environment?: Environment;
-  baseUrl?: string;
+export interface AccessClientConfig extends ClientOptions {
+  environment?: EnvironmentName;
+  baseUrl?: EndpointList;
   timeout?: number;
   retries?: number;
   accessToken?: string;
@@ -65,13 +69,16 @@ export interface AccessClientConfig {
 export class AccessClient extends BaseClient {
   constructor(config: AccessClientConfig = {}) {
     const environment = config.environment || detectEnvironment();
+    const { accessToken, baseUrl, ...options } = config;
     
     const clientConfig: ClientConfig = {
+      ...options,
       environment,
+      baseUrl,
       apiType: ApiType.EXTERNAL,
       timeout: config.timeout || 30000, // 30 second timeout for content access
       retries: config.retries || 2, // Fewer retries for time-sensitive operations
-      authToken: config.accessToken,
+      authToken: accessToken,
     };
     
     super(clientConfig);
@@ -85,6 +92,7 @@ export class AccessClient extends BaseClient {
    * 
    * @param resourceId - The ID of the resource to access
    * @param accessType - Type of access (view, stream, download)
+   * @param config - Per-request options (headers, abort signal, ...)
    * @returns Promise resolving to content access response
    * 
    * @example
@@ -110,14 +118,16 @@ export class AccessClient extends BaseClient {
    */
   async getContentAccess(
     resourceId: string,
-    accessType: ContentAccessType
+    accessType: ContentAccessType,
+    config?: RequestConfig
   ): Promise<ResourceContentAccessApiResponse> {
     const queryParams = new URLSearchParams({
       accessType: accessType.toString(),
     });
     
     return this.get<ResourceContentAccessApiResponse>(
-      `/resources/${resourceId}/access?${queryParams.toString()}`
+      `/resources/${resourceId}/access?${queryParams.toString()}`,
+      { ...config, schema: ResourceContentAccessApiResponseSchema }
     );
   }
 
@@ -284,14 +294,4 @@ export class AccessClient extends BaseClient {
       return 0;
     }
   }
-
-  /** Set authentication token for subsequent requests */
-  setAccessToken(token: string): void {
-    (this.config as any).authToken = token;
-  }
-
-  /** Clear authentication token */
-  clearAccessToken(): void {
-    delete (this.config as any).authToken;
-  }
 }
\ No newline at end of file
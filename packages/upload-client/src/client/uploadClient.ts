@@ -10,9 +10,14 @@
 import { 
   BaseClient, 
   ClientConfig, 
-  Environment, 
+  ClientOptions,
+  EndpointList,
+  EnvironmentName, 
   ApiType, 
-  detectEnvironment 
+  AbortedError,
+  RequestConfig,
+  detectEnvironment,
+  generateIdempotencyKey
 } from '@tutenet/client-core';
 import {
   PresignedUrlRequest,
@@ -28,12 +33,20 @@ import {
   DeleteResourceApiResponse,
   SuccessApiResponse,
   EnhancedResourceStructureApiResponse,
+  PresignedUrlApiResponseSchema,
+  BulkCreateResourceApiResponseSchema,
+  ResourceApiResponseSchema,
+  DeleteResourceApiResponseSchema,
+  ListResourcesApiResponseSchema,
+  SearchResourcesApiResponseSchema,
+  EnhancedResourceStructureApiResponseSchema,
+  SuccessApiResponseSchema,
 } from '../types';
 
 /** Upload client configuration options */
-export interface UploadClientConfig {
-  environment?: Environment;
-  baseUrl?: string;
+export interface UploadClientConfig extends ClientOptions {
+  environment?: EnvironmentName;
+  baseUrl?: EndpointList;
   timeout?: number;
   retries?: number;
   accessToken?: string;
@@ -47,45 +60,54 @@ export interface UploadClientConfig {
 export class UploadClient extends BaseClient {
   constructor(config: UploadClientConfig = {}) {
     const environment = config.environment || detectEnvironment();
+    const { accessToken, baseUrl, ...options } = config;
     
     const clientConfig: ClientConfig = {
+      ...options,
       environment,
+      baseUrl,
       apiType: ApiType.EXTERNAL,
       timeout: config.timeout,
       retries: config.retries,
-      authToken: config.accessToken,
+      authToken: accessToken,
     };
     
     super(clientConfig);
   }
 
-  /** Generate presigned URL for file upload */
-  async generatePresignedUrl(request: PresignedUrlRequest): Promise<PresignedUrlApiResponse> {
-    return this.post<PresignedUrlApiResponse>('/upload/presign', request);
+  /** Generate presigned URL for file upload (idempotencyKey is generated when missing) */
+  async generatePresignedUrl(request: PresignedUrlRequest, config?: RequestConfig): Promise<PresignedUrlApiResponse> {
+    const [body, requestConfig] = this.withIdempotencyKey(request, config);
+    return this.post<PresignedUrlApiResponse>('/upload/presign', body, { ...requestConfig, schema: PresignedUrlApiResponseSchema });
   }
 
-  /** Bulk finalize uploads and create multiple resources */
-  async bulkFinalizeUpload(request: BulkCreateResourceRequest): Promise<BulkCreateResourceApiResponse> {
-    return this.post<BulkCreateResourceApiResponse>('/resources', request);
+  /** Bulk finalize uploads and create multiple resources (idempotencyKey is generated when missing) */
+  async bulkFinalizeUpload(request: BulkCreateResourceRequest, config?: RequestConfig): Promise<BulkCreateResourceApiResponse> {
+    const [body, requestConfig] = this.withIdempotencyKey(request, config);
+    return this.post<BulkCreateResourceApiResponse>('/resources', body, { ...requestConfig, schema: BulkCreateResourceApiResponseSchema });
   }
 
   /** Get resource by ID */
-  async getResource(resourceId: string): Promise<ResourceApiResponse> {
-    return this.get<ResourceApiResponse>(`/resources/${resourceId}`);
+  async getResource(resourceId: string, config?: RequestConfig): Promise<ResourceApiResponse> {
+    return this.get<ResourceApiResponse>(`/resources/${resourceId}`, { ...config, schema: ResourceApiResponseSchema });
   }
 
   /** Update resource metadata */
-  async updateResource(resourceId: string, request: UpdateResourceRequest): Promise<ResourceApiResponse> {
-    return this.patch<ResourceApiResponse>(`/resources/${resourceId}`, request);
+  async updateResource(
+    resourceId: string,
+    request: UpdateResourceRequest,
+    config?: RequestConfig
+  ): Promise<ResourceApiResponse> {
+    return this.patch<ResourceApiResponse>(`/resources/${resourceId}`, request, { ...config, schema: ResourceApiResponseSchema });
   }
 
   /** Delete resource */
-  async deleteResource(resourceId: string): Promise<DeleteResourceApiResponse> {
-    return this.delete<DeleteResourceApiResponse>(`/resources/${resourceId}`);
+  async deleteResource(resourceId: string, config?: RequestConfig): Promise<DeleteResourceApiResponse> {
+    return this.delete<DeleteResourceApiResponse>(`/resources/${resourceId}`, { ...config, schema: DeleteResourceApiResponseSchema });
   }
 
   /** List resources with filtering and pagination */
-  async listResources(params?: ListResourcesParams): Promise<ListResourcesApiResponse> {
+  async listResources(params?: ListResourcesParams, config?: RequestConfig): Promise<ListResourcesApiResponse> {
     const queryParams = new URLSearchParams();
     
     if (params) {
@@ -101,11 +123,11 @@ export class UploadClient extends BaseClient {
     }
     
     const url = `/resources${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.get<ListResourcesApiResponse>(url);
+    return this.get<ListResourcesApiResponse>(url, { ...config, schema: ListResourcesApiResponseSchema });
   }
 
   /** Search resources with full-text search */
-  async searchResources(params: SearchResourcesParams): Promise<SearchResourcesApiResponse> {
+  async searchResources(params: SearchResourcesParams, config?: RequestConfig): Promise<SearchResourcesApiResponse> {
     const queryParams = new URLSearchParams();
     
     Object.entries(params).forEach(([key, value]) => {
@@ -118,13 +140,14 @@ export class UploadClient extends BaseClient {
       }
     });
     
-    return this.get<SearchResourcesApiResponse>(`/search?${queryParams.toString()}`);
+    return this.get<SearchResourcesApiResponse>(`/search?${queryParams.toString()}`, { ...config, schema: SearchResourcesApiResponseSchema });
   }
 
   /** Get enhanced resource structure with contextual information and analytics */
   async getResourceStructure(
     resourceId: string, 
-    expand?: string
+    expand?: string,
+    config?: RequestConfig
   ): Promise<EnhancedResourceStructureApiResponse> {
     const queryParams = new URLSearchParams();
     
@@ -133,32 +156,22 @@ export class UploadClient extends BaseClient {
     }
     
     const url = `/resources/${resourceId}/structure${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.get<EnhancedResourceStructureApiResponse>(url);
+    return this.get<EnhancedResourceStructureApiResponse>(url, { ...config, schema: EnhancedResourceStructureApiResponseSchema });
   }
 
   /** Validate S3 upload (internal use) */
-  async validateS3Upload(s3Key: string): Promise<SuccessApiResponse> {
-    return this.post<SuccessApiResponse>('/upload/validate', { s3Key });
+  async validateS3Upload(s3Key: string, config?: RequestConfig): Promise<SuccessApiResponse> {
+    return this.post<SuccessApiResponse>('/upload/validate', { s3Key }, { ...config, schema: SuccessApiResponseSchema });
   }
 
   /** Process video (trigger video processing) */
-  async processVideo(resourceId: string): Promise<SuccessApiResponse> {
-    return this.post<SuccessApiResponse>(`/resources/${resourceId}/process-video`);
+  async processVideo(resourceId: string, config?: RequestConfig): Promise<SuccessApiResponse> {
+    return this.post<SuccessApiResponse>(`/resources/${resourceId}/process-video`, undefined, { ...config, schema: SuccessApiResponseSchema });
   }
 
   /** Cleanup orphaned files (admin operation) */
-  async cleanupOrphanedFiles(): Promise<SuccessApiResponse> {
-    return this.post<SuccessApiResponse>('/admin/cleanup-orphaned-files');
-  }
-
-  /** Set authentication token for subsequent requests */
-  setAccessToken(token: string): void {
-    (this.config as any).authToken = token;
-  }
-
-  /** Clear authentication token */
-  clearAccessToken(): void {
-    delete (this.config as any).authToken;
+  async cleanupOrphanedFiles(config?: RequestConfig): Promise<SuccessApiResponse> {
+    return this.post<SuccessApiResponse>('/admin/cleanup-orphaned-files', undefined, { ...config, schema: SuccessApiResponseSchema });
   }
 
   /** Upload file directly to S3 using presigned URL */
@@ -166,30 +179,33 @@ export class UploadClient extends BaseClient {
     file: File | Buffer,
     filename: string,
     contentType: string,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    config?: RequestConfig
   ): Promise<string> {
     // Generate presigned URL
     const presignedResponse = await this.generatePresignedUrl({
       filename,
       contentType,
-    });
+    }, config);
 
     // Check if response is successful
     if (!presignedResponse.success) {
       throw new Error(`Failed to generate presigned URL: ${presignedResponse.error.message}`);
     }
 
-    // Upload to S3
+    // Upload to S3 through the client transport, without API headers or credentials
     try {
-      const response = await fetch(presignedResponse.data.url, {
+      const response = await this.transport.request({
         method: 'PUT',
-        body: file,
+        url: presignedResponse.data.url,
+        data: file,
         headers: {
           'Content-Type': contentType,
         },
+        signal: config?.signal,
       });
 
-      if (!response.ok) {
+      if (response.status < 200 || response.status >= 300) {
         throw new Error(`S3 upload failed: ${response.statusText}`);
       }
 
@@ -200,7 +216,26 @@ export class UploadClient extends BaseClient {
 
       return presignedResponse.data.key;
     } catch (error) {
+      if (AbortedError.isAbortedError(error)) {
+        throw error;
+      }
       throw new Error(`Failed to upload file to S3: ${error}`);
     }
   }
+
+  /**
+   * Use one idempotency key for the request body and the Idempotency-Key header,
+   * so that retries of the operation are recognised by the API
+   */
+  private withIdempotencyKey<T extends { idempotencyKey?: string }>(
+    request: T,
+    config?: RequestConfig
+  ): [T, RequestConfig | undefined] {
+    if (config?.idempotencyKey === false) {
+      return [request, config];
+    }
+
+    const idempotencyKey = request.idempotencyKey || config?.idempotencyKey || generateIdempotencyKey();
+    return [{ ...request, idempotencyKey }, { ...config, idempotencyKey }];
+  }
 }
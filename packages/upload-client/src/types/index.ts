@@ -5,4 +5,5 @@
  * This allows consumers to import types directly from the main package
  * without needing to know the internal file structure.
  */
-export * from './api';
\ No newline at end of file
+export * from './api';
+export * from './schemas';
@@ -0,0 +1,334 @@
+/**
+ * Runtime schemas of the Upload and Content Access API responses
+ *
+ * Checked by UploadClient and AccessClient when `responseValidation` is
+ * 'strict' or 'warn'.
+ */
+
+import {
+  MessageApiResponseSchema,
+  apiResponseSchema,
+  paginatedResponseSchema,
+  schema,
+} from '@tutenet/client-core';
+import { QuickAssessmentType } from '@tutenet/client-core';
+import type {
+  CommonChallenges,
+  EducationalMetadata,
+  InstructionalStep,
+  Misconception,
+  QuickAssessment,
+  Schema,
+  TeachingGuides,
+  UsageInstructions,
+} from '@tutenet/client-core';
+import {
+  ContentAccessType,
+  FileType,
+  Language,
+  LicenseType,
+  MaterialType,
+  ResourceStatus,
+  ResourceType,
+  ResourceVisibility,
+  SourceType,
+  StructureResponseType,
+  Subject,
+  VideoCodec,
+  VideoResolution,
+} from './api';
+import type {
+  BreadcrumbItem,
+  BulkCreateResourceApiResponse,
+  BulkCreateResourceResponse,
+  ContentMetadata,
+  CreateResourceApiResponse,
+  CreateResourceResponse,
+  DeleteResourceApiResponse,
+  DeleteResourceResponse,
+  EnhancedCourseStructure,
+  EnhancedResourceStructureApiResponse,
+  EnhancedResourceStructureResponse,
+  EnhancedTeacher,
+  JumpToOption,
+  ListResourcesApiResponse,
+  NavigationContext,
+  PresignedUrlApiResponse,
+  PresignedUrlResponse,
+  ResourceAnalytics,
+  ResourceApiResponse,
+  ResourceContentAccessApiResponse,
+  ResourceContentAccessResponse,
+  ResourceContext,
+  ResourceDetails,
+  ResourceSummary,
+  SearchResourcesApiResponse,
+  SuccessApiResponse,
+  UpdateResourceApiResponse,
+  ViewingOptions,
+} from './api';
+
+export const PresignedUrlResponseSchema = schema.object<PresignedUrlResponse>({
+  key: schema.string(),
+  url: schema.string(),
+  expiresIn: schema.number(),
+});
+
+export const ResourceSummarySchema = schema.object<ResourceSummary>({
+  id: schema.string(),
+  type: schema.enumOf(ResourceType),
+  parentId: schema.optional(schema.string()),
+  rootId: schema.optional(schema.string()),
+  orderIndex: schema.optional(schema.number()),
+  title: schema.string(),
+  description: schema.optional(schema.string()),
+  subject: schema.enumOf(Subject),
+  grades: schema.array(schema.string()),
+  tags: schema.array(schema.string()),
+  language: schema.enumOf(Language),
+  visibility: schema.enumOf(ResourceVisibility),
+  fileName: schema.optional(schema.string()),
+  fileType: schema.optional(schema.enumOf(FileType)),
+  size: schema.optional(schema.number()),
+  materialType: schema.optional(schema.enumOf(MaterialType)),
+  userId: schema.string(),
+  teacherName: schema.string(),
+  teacherSchool: schema.string(),
+  downloads: schema.number(),
+  upvotesCount: schema.number(),
+  rating: schema.number(),
+  comments: schema.number(),
+  childCount: schema.optional(schema.number()),
+  totalSize: schema.optional(schema.number()),
+  createdAt: schema.string(),
+  updatedAt: schema.string(),
+  publishedAt: schema.optional(schema.string()),
+  status: schema.enumOf(ResourceStatus),
+  allowOffline: schema.boolean(),
+  watermarkEnabled: schema.boolean(),
+  topic: schema.optional(schema.string()),
+  license: schema.optional(schema.enumOf(LicenseType)),
+  sourceType: schema.optional(schema.enumOf(SourceType)),
+  licenseDetails: schema.optional(schema.string()),
+  thumbnailUrl: schema.optional(schema.string()),
+  previewUrl: schema.optional(schema.string()),
+  videoDuration: schema.optional(schema.number()),
+  videoResolution: schema.optional(schema.enumOf(VideoResolution)),
+  videoCodec: schema.optional(schema.enumOf(VideoCodec)),
+  transcodedUrl: schema.optional(schema.string()),
+  price: schema.nullable(schema.number()),
+  currency: schema.nullable(schema.literal('INR')),
+  isPurchased: schema.boolean(),
+  purchaseCount: schema.number(),
+  totalEarnings: schema.number(),
+  creatorEarningsPercent: schema.number(),
+});
+
+export const EducationalMetadataSchema = schema.object<EducationalMetadata>({
+  estimatedDurationMinutes: schema.optional(schema.number()),
+  learningObjectives: schema.optional(schema.array(schema.string())),
+  prerequisites: schema.optional(schema.array(schema.string())),
+  curriculumAlignment: schema.optional(schema.string()),
+});
+
+export const InstructionalStepSchema = schema.object<InstructionalStep>({
+  order: schema.number(),
+  title: schema.string(),
+  description: schema.string(),
+  estimatedMinutes: schema.optional(schema.number()),
+});
+
+export const UsageInstructionsSchema = schema.object<UsageInstructions>({
+  overview: schema.string(),
+  steps: schema.array(InstructionalStepSchema),
+});
+
+export const QuickAssessmentSchema = schema.object<QuickAssessment>({
+  type: schema.enumOf(QuickAssessmentType),
+  description: schema.string(),
+  prompt: schema.string(),
+  durationMinutes: schema.number(),
+});
+
+export const MisconceptionSchema = schema.object<Misconception>({
+  misconception: schema.string(),
+  correction: schema.string(),
+});
+
+export const CommonChallengesSchema = schema.object<CommonChallenges>({
+  misconceptions: schema.optional(schema.array(MisconceptionSchema)),
+});
+
+export const TeachingGuidesSchema = schema.object<TeachingGuides>({
+  usageInstructions: schema.optional(UsageInstructionsSchema),
+  quickChecks: schema.optional(schema.array(QuickAssessmentSchema)),
+  commonChallenges: schema.optional(CommonChallengesSchema),
+});
+
+export const ResourceDetailsSchema: Schema<ResourceDetails> = schema.allOf<ResourceDetails>(
+  ResourceSummarySchema,
+  schema.object({
+    educational: schema.optional(EducationalMetadataSchema),
+    teachingGuides: schema.optional(TeachingGuidesSchema),
+  })
+);
+
+export const CreateResourceResponseSchema = schema.object<CreateResourceResponse>({
+  resourceId: schema.string(),
+});
+
+export const BulkCreateResourceResponseSchema = schema.object<BulkCreateResourceResponse>({
+  resourceIds: schema.array(schema.string()),
+  successCount: schema.number(),
+  failureCount: schema.number(),
+  errors: schema.array(schema.object({
+    index: schema.number(),
+    error: schema.string(),
+  })),
+});
+
+export const DeleteResourceResponseSchema = schema.object<DeleteResourceResponse>({
+  message: schema.string(),
+});
+
+export const ResourceAnalyticsSchema = schema.object<ResourceAnalytics>({
+  upvotesCount: schema.number(),
+  commentsCount: schema.number(),
+  downloadsCount: schema.number(),
+  averageRating: schema.number(),
+  upvotedByMe: schema.boolean(),
+  bookmarkedByMe: schema.optional(schema.boolean()),
+  viewsCount: schema.optional(schema.number()),
+  totalRatings: schema.optional(schema.number()),
+  lastViewedAt: schema.optional(schema.string()),
+  lastDownloadedAt: schema.optional(schema.string()),
+});
+
+export const EnhancedTeacherSchema = schema.object<EnhancedTeacher>({
+  id: schema.string(),
+  name: schema.string(),
+  school: schema.string(),
+  city: schema.optional(schema.string()),
+  primarySubject: schema.string(),
+  resourceCount: schema.number(),
+  totalDownloads: schema.number(),
+  appreciations: schema.number(),
+  isMentor: schema.boolean(),
+  isVerified: schema.boolean(),
+  avatarUrl: schema.optional(schema.string()),
+});
+
+const BreadcrumbItemSchema = schema.object<BreadcrumbItem>({
+  id: schema.string(),
+  title: schema.string(),
+  type: schema.enumOf(ResourceType),
+  url: schema.optional(schema.string()),
+});
+
+const JumpToOptionSchema = schema.object<JumpToOption>({
+  id: schema.string(),
+  title: schema.string(),
+  type: schema.enumOf(ResourceType),
+  section: schema.optional(schema.string()),
+});
+
+const AdjacentResourceSchema = schema.optional(schema.object({
+  id: schema.string(),
+  title: schema.string(),
+}));
+
+export const NavigationContextSchema = schema.object<NavigationContext>({
+  position: schema.object({
+    current: schema.number(),
+    total: schema.number(),
+  }),
+  adjacent: schema.object({
+    previous: AdjacentResourceSchema,
+    next: AdjacentResourceSchema,
+  }),
+  breadcrumbs: schema.optional(schema.array(BreadcrumbItemSchema)),
+  jumpTo: schema.optional(schema.array(JumpToOptionSchema)),
+});
+
+export const ResourceContextSchema = schema.object<ResourceContext>({
+  course: schema.optional(ResourceDetailsSchema),
+  chapter: schema.optional(ResourceDetailsSchema),
+  parent: schema.optional(ResourceDetailsSchema),
+  children: schema.optional(schema.array(ResourceDetailsSchema)),
+  siblings: schema.optional(schema.array(ResourceDetailsSchema)),
+  ancestors: schema.optional(schema.array(ResourceDetailsSchema)),
+  descendants: schema.optional(schema.array(ResourceDetailsSchema)),
+  related: schema.optional(schema.array(ResourceDetailsSchema)),
+  navigation: schema.optional(NavigationContextSchema),
+});
+
+export const EnhancedCourseStructureSchema = schema.object<EnhancedCourseStructure>({
+  chapters: schema.array(ResourceDetailsSchema),
+  totalMaterials: schema.number(),
+  estimatedDuration: schema.optional(schema.number()),
+});
+
+export const EnhancedResourceStructureResponseSchema = schema.object<EnhancedResourceStructureResponse>({
+  type: schema.enumOf(StructureResponseType),
+  resource: ResourceDetailsSchema,
+  analytics: ResourceAnalyticsSchema,
+  teacher: schema.optional(EnhancedTeacherSchema),
+  context: schema.optional(ResourceContextSchema),
+  structure: schema.optional(EnhancedCourseStructureSchema),
+  expandedContext: schema.optional(schema.record(schema.unknown())),
+});
+
+export const ContentMetadataSchema = schema.object<ContentMetadata>({
+  fileType: schema.enumOf(FileType),
+  fileSize: schema.number(),
+  fileName: schema.optional(schema.string()),
+  duration: schema.optional(schema.number()),
+  dimensions: schema.optional(schema.object({
+    width: schema.number(),
+    height: schema.number(),
+  })),
+});
+
+export const ViewingOptionsSchema = schema.object<ViewingOptions>({
+  supportsOffline: schema.boolean(),
+  supportsStreaming: schema.boolean(),
+  requiresApp: schema.boolean(),
+  maxOfflineDays: schema.optional(schema.number()),
+  canPrint: schema.optional(schema.boolean()),
+  canShare: schema.optional(schema.boolean()),
+  watermarkEnabled: schema.optional(schema.boolean()),
+  securityLevel: schema.optional(schema.literal('public', 'app-restricted', 'device-locked')),
+  urlExpiration: schema.optional(schema.number()),
+});
+
+export const ResourceContentAccessResponseSchema = schema.object<ResourceContentAccessResponse>({
+  contentUrl: schema.string(),
+  accessType: schema.enumOf(ContentAccessType),
+  expiresAt: schema.string(),
+  contentMetadata: ContentMetadataSchema,
+  viewingOptions: ViewingOptionsSchema,
+  cacheHeaders: schema.optional(schema.object<NonNullable<ResourceContentAccessResponse['cacheHeaders']>>({
+    'Cache-Control': schema.string(),
+    ETag: schema.optional(schema.string()),
+    Expires: schema.string(),
+    'Last-Modified': schema.optional(schema.string()),
+  })),
+});
+
+export const PresignedUrlApiResponseSchema: Schema<PresignedUrlApiResponse> = apiResponseSchema(PresignedUrlResponseSchema);
+export const CreateResourceApiResponseSchema: Schema<CreateResourceApiResponse> = apiResponseSchema(CreateResourceResponseSchema);
+export const BulkCreateResourceApiResponseSchema: Schema<BulkCreateResourceApiResponse> = apiResponseSchema(BulkCreateResourceResponseSchema);
+export const ResourceApiResponseSchema: Schema<ResourceApiResponse> = apiResponseSchema(ResourceSummarySchema);
+export const UpdateResourceApiResponseSchema: Schema<UpdateResourceApiResponse> = apiResponseSchema(ResourceSummarySchema);
+export const ListResourcesApiResponseSchema: Schema<ListResourcesApiResponse> = paginatedResponseSchema(ResourceSummarySchema);
+export const SearchResourcesApiResponseSchema: Schema<SearchResourcesApiResponse> = schema.allOf(
+  paginatedResponseSchema(ResourceSummarySchema),
+  schema.union(
+    schema.object({ success: schema.literal(false) }),
+    schema.object({ data: schema.object({ searchTime: schema.number() }) })
+  )
+);
+export const DeleteResourceApiResponseSchema: Schema<DeleteResourceApiResponse> = apiResponseSchema(DeleteResourceResponseSchema);
+export const EnhancedResourceStructureApiResponseSchema: Schema<EnhancedResourceStructureApiResponse> = apiResponseSchema(EnhancedResourceStructureResponseSchema);
+export const SuccessApiResponseSchema: Schema<SuccessApiResponse> = MessageApiResponseSchema;
+export const ResourceContentAccessApiResponseSchema: Schema<ResourceContentAccessApiResponse> = apiResponseSchema(ResourceContentAccessResponseSchema);